@@ -0,0 +1,40 @@
+// Puts SwiftLaTeX's pdfTeX engine in public/swiftlatex/, where the editor
+// loads it from. The source is a folder or base URL holding
+// swiftlatexpdftex.js and swiftlatexpdftex.wasm, such as an unpacked release
+// from https://github.com/SwiftLaTeX/SwiftLaTeX/releases.
+//
+//   pnpm fetch-tex-engine <folder or URL>
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const FILES = ["swiftlatexpdftex.js", "swiftlatexpdftex.wasm"];
+const TARGET = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "public", "swiftlatex");
+
+async function read(source, name) {
+  if (!/^https?:\/\//i.test(source)) return readFile(path.join(source, name));
+  const url = new URL(name, source.endsWith("/") ? source : `${source}/`);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  // A missing file on many hosts is an HTML error page with status 200.
+  if (/text\/html/i.test(res.headers.get("content-type") || "")) throw new Error(`${url} is a web page, not the engine`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+const source = process.argv[2] || process.env.TEX_ENGINE_SOURCE;
+if (!source) {
+  console.error("Usage: pnpm fetch-tex-engine <folder or URL containing swiftlatexpdftex.js and swiftlatexpdftex.wasm>");
+  process.exit(1);
+}
+try {
+  await mkdir(TARGET, { recursive: true });
+  for (const name of FILES) {
+    const data = await read(source, name);
+    await writeFile(path.join(TARGET, name), data);
+    console.log(`${name} (${(data.length / 1024 / 1024).toFixed(1)}MB)`);
+  }
+  console.log(`The TeX engine is in ${path.relative(process.cwd(), TARGET)}/`);
+} catch (err) {
+  console.error(`Could not fetch the TeX engine: ${err.message}`);
+  process.exit(1);
+}
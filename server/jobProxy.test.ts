@@ -0,0 +1,76 @@
+import dns from "dns";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchPublic, isPrivateAddress, publicLookup } from "./jobProxy";
+
+// Makes every name resolve to the given addresses.
+function resolveTo(...addresses: string[]) {
+  return vi.spyOn(dns, "lookup").mockImplementation(((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+    callback(null, addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })));
+  }) as unknown as typeof dns.lookup);
+}
+
+function lookup(hostname: string, options: dns.LookupOptions) {
+  return new Promise<unknown>((resolve, reject) => {
+    publicLookup(hostname, options, (err, address, family) => (err ? reject(err) : resolve(options.all ? address : { address, family })));
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("isPrivateAddress", () => {
+  it.each(["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.16.0.1", "172.31.255.255", "192.168.1.1", "100.64.0.1", "0.0.0.0", "224.0.0.1"])(
+    "treats %s as private",
+    (ip) => expect(isPrivateAddress(ip)).toBe(true),
+  );
+
+  it.each(["8.8.8.8", "172.32.0.1", "100.128.0.1", "2606:4700::1111"])("treats %s as public", (ip) => expect(isPrivateAddress(ip)).toBe(false));
+
+  it("checks IPv6 loopback, local and multicast ranges", () => {
+    for (const ip of ["::", "::1", "fc00::1", "fd12:3456::1", "fe80::1", "FEBF::1", "ff02::1"]) expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it("checks IPv4-mapped addresses in dotted and hex form", () => {
+    expect(isPrivateAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::FFFF:7f00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("::ffff:808:808")).toBe(false);
+  });
+});
+
+describe("publicLookup", () => {
+  it("hands the socket the addresses it checked", async () => {
+    resolveTo("93.184.216.34", "2606:2800:220:1::");
+    expect(await lookup("example.com", {})).toEqual({ address: "93.184.216.34", family: 4 });
+    expect(await lookup("example.com", { all: true })).toEqual([
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:2800:220:1::", family: 6 },
+    ]);
+  });
+
+  it("refuses a name when any of its addresses is private", async () => {
+    resolveTo("93.184.216.34", "10.0.0.5");
+    await expect(lookup("example.com", {})).rejects.toThrow("Only public URLs can be fetched");
+  });
+});
+
+describe("fetchPublic", () => {
+  const signal = () => AbortSignal.timeout(5000);
+
+  it("refuses other schemes, localhost and private addresses in the URL", async () => {
+    await expect(fetchPublic(new URL("file:///etc/passwd"), signal())).rejects.toThrow("Only http(s) URLs can be fetched");
+    await expect(fetchPublic(new URL("http://localhost:5173/"), signal())).rejects.toThrow("Only public URLs");
+    await expect(fetchPublic(new URL("http://api.localhost/"), signal())).rejects.toThrow("Only public URLs");
+    await expect(fetchPublic(new URL("http://127.0.0.1/"), signal())).rejects.toThrow("Only public URLs");
+    await expect(fetchPublic(new URL("http://[::ffff:7f00:1]/"), signal())).rejects.toThrow("Only public URLs");
+  });
+
+  it("resolves the host once, when connecting, and refuses a private answer", async () => {
+    const spy = resolveTo("127.0.0.1");
+    await expect(fetchPublic(new URL("http://rebind.example/"), signal())).rejects.toThrow("Only public URLs can be fetched");
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0]).toBe("rebind.example");
+  });
+});
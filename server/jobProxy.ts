@@ -0,0 +1,173 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import type { Connect, Plugin } from "vite";
+
+// Minimal server-side proxy for the "Job URL" import. Career sites don't send
+// CORS headers, so the browser fetches postings through this endpoint. It is
+// served by both `vite` and `vite preview`; production deployments can point
+// VITE_JOB_PROXY_URL at any equivalent endpoint instead.
+const JOB_PROXY_PATH = "/api/fetch-job";
+const JOB_PROXY_MAX_BYTES = 5 * 1024 * 1024;
+const JOB_PROXY_TIMEOUT_MS = 15_000;
+
+const JOB_PROXY_MAX_REDIRECTS = 5;
+
+function isPrivateIPv4(ip: string) {
+  const [a, b] = ip.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+export function isPrivateAddress(ip: string) {
+  if (net.isIPv4(ip)) return isPrivateIPv4(ip);
+  const lower = ip.toLowerCase();
+  // IPv4-mapped addresses, written either way ("::ffff:127.0.0.1" or "::ffff:7f00:1").
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+}
+
+// Rejects anything but http(s) URLs for public hosts. Addresses written in the
+// URL are checked here; names are checked by publicLookup as they connect.
+function checkTarget(target: URL) {
+  if (!/^https?:$/.test(target.protocol)) throw new Error("Only http(s) URLs can be fetched");
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  if (/^localhost$/i.test(hostname) || /\.localhost$/i.test(hostname)) throw new Error("Only public URLs can be fetched");
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) throw new Error("Only public URLs can be fetched");
+}
+
+// Resolves the host for the socket itself and refuses private addresses, so
+// the address that was checked is the one connected to: a second lookup with
+// a different (rebinding) answer never happens.
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new Error("Only public URLs can be fetched"), "", 0);
+    }
+    if (options.all) return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function get(target: URL, signal: AbortSignal) {
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise<http.IncomingMessage>((resolve, reject) => {
+    const request = client.get(
+      target,
+      {
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ResumeWizardJobImport/1.0)", Accept: "text/html,application/xhtml+xml" },
+        lookup: publicLookup,
+        signal,
+      },
+      resolve,
+    );
+    request.on("error", reject);
+  });
+}
+
+// Follows redirects by hand so every hop is checked like the first URL.
+export async function fetchPublic(url: URL, signal: AbortSignal) {
+  let target = url;
+  for (let hop = 0; hop <= JOB_PROXY_MAX_REDIRECTS; hop++) {
+    checkTarget(target);
+    const response = await get(target, signal);
+    const status = response.statusCode || 502;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) return response;
+    response.resume();
+    target = new URL(location, target);
+  }
+  throw new Error("Too many redirects");
+}
+
+class TooLargeError extends Error {}
+
+// Reads at most JOB_PROXY_MAX_BYTES, stopping as soon as the limit is passed.
+async function readLimited(response: http.IncomingMessage) {
+  if (Number(response.headers["content-length"]) > JOB_PROXY_MAX_BYTES) {
+    response.destroy();
+    throw new TooLargeError();
+  }
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += chunk.length;
+    if (total > JOB_PROXY_MAX_BYTES) {
+      response.destroy();
+      throw new TooLargeError();
+    }
+    chunks.push(chunk);
+  }
+  const charset = /charset=([^;]+)/i.exec(response.headers["content-type"] || "")?.[1]?.trim();
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || "utf-8");
+  } catch (err) {
+    decoder = new TextDecoder("utf-8");
+  }
+  return decoder.decode(Buffer.concat(chunks));
+}
+
+const jobProxyMiddleware: Connect.NextHandleFunction = async (req, res, next) => {
+  if (!req.url || !req.url.startsWith(JOB_PROXY_PATH)) return next();
+  // The page is returned as inert text: served as HTML from this origin it
+  // could run scripts with access to the stored API key.
+  const send = (status: number, body: string) => {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+    res.end(body);
+  };
+
+  let target: URL;
+  try {
+    target = new URL(new URL(req.url, "http://localhost").searchParams.get("url") || "");
+  } catch (err) {
+    return send(400, "Missing or invalid url parameter");
+  }
+
+  let upstream: http.IncomingMessage;
+  try {
+    upstream = await fetchPublic(target, AbortSignal.timeout(JOB_PROXY_TIMEOUT_MS));
+  } catch (err: any) {
+    if (/^Only /.test(err?.message)) return send(400, err.message);
+    return send(502, `Could not fetch ${target.href}: ${err?.message || String(err)}`);
+  }
+  try {
+    send(upstream.statusCode || 502, await readLimited(upstream));
+  } catch (err: any) {
+    if (err instanceof TooLargeError) return send(413, "Job posting page is too large");
+    send(502, `Could not fetch ${target.href}: ${err?.message || String(err)}`);
+  }
+};
+
+export function jobProxy(): Plugin {
+  return {
+    name: "resume-wizard-job-proxy",
+    configureServer(server) {
+      server.middlewares.use(jobProxyMiddleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(jobProxyMiddleware);
+    },
+  };
+}
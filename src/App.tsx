@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { Routes, Route } from "react-router-dom";
 import Home from "./components/home";
+import ApplicationTracker from "./components/ApplicationTracker";
 
 function App() {
   return (
@@ -8,6 +9,7 @@ function App() {
       <>
         <Routes>
           <Route path="/" element={<Home />} />
+          <Route path="/applications" element={<ApplicationTracker />} />
         </Routes>
       </>
     </Suspense>
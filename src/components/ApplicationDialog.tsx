@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Calendar } from "./ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Calendar as CalendarIcon } from "lucide-react";
+import { APPLICATION_STATUSES, safeJobUrl, type ApplicationInput, type ApplicationStatus } from "../lib/applications";
+import type { ResumeVersion } from "../lib/resumeLibrary";
+
+interface ApplicationDialogProps {
+  open: boolean;
+  title: string;
+  initial: ApplicationInput;
+  versions: ResumeVersion[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (application: ApplicationInput) => Promise<void>;
+}
+
+const NO_VERSION = "none";
+
+// Form for adding or editing a tracked application. Picking a library version
+// copies its .tex into the entry.
+function ApplicationDialog({ open, title, initial, versions, onOpenChange, onSubmit }: ApplicationDialogProps) {
+  const [form, setForm] = useState<ApplicationInput>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(initial);
+  }, [open, initial]);
+
+  const update = (changes: Partial<ApplicationInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const selectVersion = (id: string) => {
+    const version = versions.find((v) => v.id === id);
+    if (!version) {
+      update({ versionId: undefined });
+      return;
+    }
+    update({
+      versionId: version.id,
+      texCode: version.content,
+      company: form.company || version.job.company || "",
+      role: form.role || version.job.title || "",
+      jobUrl: form.jobUrl || version.job.url || "",
+      jobDescription: form.jobDescription || version.job.description,
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!form.company.trim() && !form.role.trim()) {
+      alert("Please enter a company or role");
+      return;
+    }
+    const jobUrl = form.jobUrl.trim() ? safeJobUrl(form.jobUrl) : "";
+    if (jobUrl === null) {
+      alert("The job URL must be a web address starting with http:// or https://");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSubmit({ ...form, jobUrl });
+      onOpenChange(false);
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not save the application"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Track where you applied and which resume you sent.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="application-company">Company</Label>
+            <Input id="application-company" value={form.company} onChange={(e) => update({ company: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="application-role">Role</Label>
+            <Input id="application-role" value={form.role} onChange={(e) => update({ role: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Date applied</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {format(new Date(form.appliedAt), "LLL dd, y")}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  initialFocus
+                  mode="single"
+                  selected={new Date(form.appliedAt)}
+                  onSelect={(day) => day && update({ appliedAt: day.getTime() })}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={form.status} onValueChange={(v) => update({ status: v as ApplicationStatus })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APPLICATION_STATUSES.map((status) => (
+                  <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="application-url">Job URL</Label>
+            <Input id="application-url" value={form.jobUrl} placeholder="https://" onChange={(e) => update({ jobUrl: e.target.value })} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label>Resume sent</Label>
+            <Select value={form.versionId || NO_VERSION} onValueChange={selectVersion}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_VERSION}>{form.texCode ? "Keep the attached .tex" : "None"}</SelectItem>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    {version.name} • {new Date(version.updatedAt).toLocaleDateString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="application-job">Job description</Label>
+            <Textarea id="application-job" className="h-24 resize-none" value={form.jobDescription} onChange={(e) => update({ jobDescription: e.target.value })} />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="application-notes">Notes</Label>
+            <Textarea id="application-notes" className="h-20 resize-none" value={form.notes} onChange={(e) => update({ notes: e.target.value })} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>{isSaving ? "Saving..." : "Save"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ApplicationDialog;
@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Separator } from "./ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import DatePickerWithRange from "./ui/date-picker-with-range";
+import ApplicationDialog from "./ApplicationDialog";
+import { ArrowLeft, Briefcase, Download, ExternalLink, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  APPLICATION_STATUSES,
+  createApplication,
+  deleteApplication,
+  emptyApplication,
+  listApplications,
+  safeJobUrl,
+  updateApplication,
+  type Application,
+  type ApplicationInput,
+  type ApplicationStatus,
+} from "../lib/applications";
+import { listVersions, type ResumeVersion } from "../lib/resumeLibrary";
+import { cn } from "../lib/utils";
+
+// Navigation state used by the editor to open a pre-filled entry.
+export interface TrackerLocationState {
+  draft?: ApplicationInput;
+}
+
+const ALL_STATUSES = "all";
+
+function isPersistenceEnabled() {
+  try {
+    return localStorage.getItem("resume_wizard_persistence") !== "0";
+  } catch (e) {
+    return false;
+  }
+}
+
+function downloadTex(application: Application) {
+  const name = [application.company, application.role].filter(Boolean).join("-").replace(/[^\w-]+/g, "_") || "resume";
+  const blob = new Blob([application.texCode], { type: "text/plain" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name}.tex`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function StatusBadge({ status }: { status: ApplicationStatus }) {
+  const info = APPLICATION_STATUSES.find((s) => s.value === status)!;
+  return <Badge variant="outline" className={info.className}>{info.label}</Badge>;
+}
+
+// Tracks job applications: company, role, job text, date, status and notes,
+// each linked to the exact tailored .tex that was sent.
+function ApplicationTracker() {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const persistEnabled = useMemo(isPersistenceEnabled, []);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
+  const [editing, setEditing] = useState<{ id: string | null; input: ApplicationInput } | null>(null);
+
+  const reload = async () => {
+    try {
+      const [apps, allVersions] = await Promise.all([listApplications(), listVersions()]);
+      setApplications(apps);
+      setVersions(allVersions);
+    } catch (err) {
+      // IndexedDB may be unavailable (e.g. some private browsing modes)
+    }
+  };
+
+  useEffect(() => {
+    if (!persistEnabled) return;
+    reload();
+    const draft = (location.state as TrackerLocationState | null)?.draft;
+    if (draft) {
+      setEditing({ id: null, input: draft });
+      // Don't reopen the draft on reload or back navigation.
+      navigate(location.pathname, { replace: true, state: null });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const from = dateRange?.from ? new Date(dateRange.from).setHours(0, 0, 0, 0) : -Infinity;
+    const to = dateRange?.to ? new Date(dateRange.to).setHours(23, 59, 59, 999) : dateRange?.from ? new Date(dateRange.from).setHours(23, 59, 59, 999) : Infinity;
+    return applications.filter((app) => {
+      if (statusFilter !== ALL_STATUSES && app.status !== statusFilter) return false;
+      if (app.appliedAt < from || app.appliedAt > to) return false;
+      return !query || [app.company, app.role, app.notes].some((field) => field.toLowerCase().includes(query));
+    });
+  }, [applications, search, statusFilter, dateRange]);
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<ApplicationStatus, number>> = {};
+    for (const app of applications) result[app.status] = (result[app.status] || 0) + 1;
+    return result;
+  }, [applications]);
+
+  const dialogInitial = useMemo(() => editing?.input || emptyApplication(), [editing]);
+
+  const handleSubmit = async (input: ApplicationInput) => {
+    if (editing?.id) {
+      const existing = applications.find((app) => app.id === editing.id)!;
+      await updateApplication({ ...existing, ...input });
+    } else {
+      await createApplication(input);
+    }
+    await reload();
+  };
+
+  const changeStatus = async (application: Application, status: ApplicationStatus) => {
+    try {
+      await updateApplication({ ...application, status });
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not update the application"));
+    }
+    await reload();
+  };
+
+  const remove = async (application: Application) => {
+    if (!confirm(`Delete the application for ${application.role || "this role"} at ${application.company || "this company"}?`)) return;
+    try {
+      await deleteApplication(application.id);
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not delete the application"));
+    }
+    await reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Link>
+            </Button>
+            <Separator orientation="vertical" className="h-6" />
+            <h1 className="text-2xl font-bold text-slate-900">Applications</h1>
+          </div>
+          <Button onClick={() => setEditing({ id: null, input: emptyApplication() })} disabled={!persistEnabled}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Application
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-6">
+        <Card className="shadow-lg border-slate-200">
+          <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Briefcase className="w-5 h-5 text-blue-600" />
+              Application tracker
+            </CardTitle>
+            <CardDescription>
+              {applications.length} applications
+              {APPLICATION_STATUSES.filter((s) => counts[s.value]).map((s) => ` • ${counts[s.value]} ${s.label.toLowerCase()}`).join("")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            {!persistEnabled ? (
+              <p className="text-sm text-slate-600">
+                The tracker stores applications in this browser. Enable local persistence in Settings on the home page to use it.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Input placeholder="Search company, role or notes" value={search} onChange={(e) => setSearch(e.target.value)} className="w-64" />
+                  <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as ApplicationStatus | typeof ALL_STATUSES)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                      {APPLICATION_STATUSES.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <DatePickerWithRange value={dateRange} onValueChange={setDateRange} placeholder="Any date" />
+                  {(search || statusFilter !== ALL_STATUSES || dateRange) && (
+                    <Button variant="ghost" size="sm" onClick={() => { setSearch(""); setStatusFilter(ALL_STATUSES); setDateRange(undefined); }}>
+                      Clear filters
+                    </Button>
+                  )}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Company</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Resume</TableHead>
+                      <TableHead>Notes</TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filtered.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-slate-500 py-8">
+                          {applications.length === 0 ? "No applications yet. Tailor a resume and click \"Track Application\", or add one here." : "No applications match the filters."}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filtered.map((app) => {
+                        const version = app.versionId ? versions.find((v) => v.id === app.versionId) : undefined;
+                        const jobUrl = safeJobUrl(app.jobUrl);
+                        return (
+                          <TableRow key={app.id}>
+                            <TableCell className="whitespace-nowrap">{new Date(app.appliedAt).toLocaleDateString()}</TableCell>
+                            <TableCell className="font-medium">{app.company}</TableCell>
+                            <TableCell>
+                              {jobUrl ? (
+                                <a href={jobUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+                                  {app.role || "Posting"}
+                                  <ExternalLink className="w-3 h-3" />
+                                </a>
+                              ) : (
+                                app.role
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Select value={app.status} onValueChange={(v) => changeStatus(app, v as ApplicationStatus)}>
+                                <SelectTrigger className="h-8 w-32 border-none shadow-none px-0">
+                                  <StatusBadge status={app.status} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {APPLICATION_STATUSES.map((status) => (
+                                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              {app.texCode ? (
+                                <Button variant="ghost" size="sm" className="h-7" onClick={() => downloadTex(app)} title={version ? `From "${version.name}"` : "Saved copy"}>
+                                  <Download className="w-3.5 h-3.5 mr-1" />
+                                  .tex
+                                </Button>
+                              ) : (
+                                <span className="text-xs text-slate-400">None</span>
+                              )}
+                            </TableCell>
+                            <TableCell className={cn("max-w-xs truncate text-slate-600", !app.notes && "text-slate-400")} title={app.notes}>
+                              {app.notes || "—"}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-1">
+                                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing({ id: app.id, input: app })} title="Edit">
+                                  <Pencil className="w-3.5 h-3.5" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={() => remove(app)} title="Delete">
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ApplicationDialog
+        open={editing !== null}
+        title={editing?.id ? "Edit application" : "Add application"}
+        initial={dialogInitial}
+        versions={versions}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+}
+
+export default ApplicationTracker;
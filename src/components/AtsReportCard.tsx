@@ -0,0 +1,100 @@
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { Target } from "lucide-react";
+import type { AtsReport } from "../lib/ats";
+import { cn } from "../lib/utils";
+
+interface AtsReportCardProps {
+  before: AtsReport;
+  // The tailored resume's report; omitted before tailoring has run.
+  after?: AtsReport;
+  className?: string;
+}
+
+function scoreTone(score: number) {
+  if (score >= 75) return "text-green-700";
+  if (score >= 50) return "text-amber-600";
+  return "text-red-600";
+}
+
+function Score({ label, score }: { label: string; score: number }) {
+  return (
+    <div className="flex-1 space-y-1">
+      <div className="flex items-baseline justify-between">
+        <span className="text-xs text-slate-500">{label}</span>
+        <span className={cn("text-2xl font-bold", scoreTone(score))}>{score}</span>
+      </div>
+      <Progress value={score} className="h-1.5" />
+    </div>
+  );
+}
+
+// Keyword coverage of a resume against the job, before and after tailoring:
+// the score, missing must-have keywords, and which keywords matched.
+function AtsReportCard({ before, after, className }: AtsReportCardProps) {
+  const report = after || before;
+  const delta = after ? after.score - before.score : 0;
+  const missingOptional = report.missing.filter((m) => !m.keyword.required);
+
+  if (report.matched.length + report.missing.length === 0) {
+    return <p className={cn("text-sm text-slate-500", className)}>No keywords found in the job description yet.</p>;
+  }
+
+  return (
+    <div className={cn("space-y-4 text-sm", className)}>
+      <div className="flex items-end gap-6">
+        <Score label={after ? "Original" : "ATS match"} score={before.score} />
+        {after && <Score label="Tailored" score={after.score} />}
+        {after && (
+          <Badge variant={delta > 0 ? "default" : delta < 0 ? "destructive" : "secondary"} className="mb-2">
+            {delta > 0 ? `+${delta}` : delta}
+          </Badge>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 flex items-center gap-1">
+        <Target className="w-3 h-3" />
+        {report.matched.length} of {report.matched.length + report.missing.length} keywords covered. Required keywords count double.
+      </p>
+      {report.missingRequired.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-red-700">Missing must-haves</div>
+          <div className="flex flex-wrap gap-1">
+            {report.missingRequired.map((keyword) => (
+              <Badge key={keyword.term} variant="destructive" className="font-normal">{keyword.term}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {report.matched.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-green-800">Matched</div>
+          <div className="flex flex-wrap gap-1">
+            {report.matched.map((match) => (
+              <Badge
+                key={match.keyword.term}
+                variant="secondary"
+                className="font-normal bg-green-50 border-green-200 text-green-800"
+                title={match.matchedAs ? `Matched as "${match.matchedAs}"` : undefined}
+              >
+                {match.keyword.term}
+                {match.matchedAs && <span className="ml-1 text-green-600">≈</span>}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {missingOptional.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-slate-600">Also missing</div>
+          <div className="flex flex-wrap gap-1">
+            {missingOptional.map((match) => (
+              <Badge key={match.keyword.term} variant="outline" className="font-normal text-slate-600">{match.keyword.term}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AtsReportCard;
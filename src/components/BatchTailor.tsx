@@ -0,0 +1,371 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { Separator } from "./ui/separator";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { ArrowLeft, Download, FileArchive, Layers, ListPlus, Loader2, Play, RotateCcw, Square, Trash2, Upload } from "lucide-react";
+import {
+  batchFileName,
+  buildBatchZip,
+  createRateLimiter,
+  emptyResult,
+  parseJobList,
+  rateLimited,
+  runBatchJob,
+  runQueue,
+  type BatchJob,
+  type BatchResult,
+  type BatchSettings,
+  type BatchStatus,
+} from "../lib/batch";
+import type { LLMProvider } from "../lib/llm";
+import { cn } from "../lib/utils";
+
+interface BatchTailorProps {
+  settings: BatchSettings;
+  resumeName: string;
+  presetName: string;
+  providerLabel: string;
+  createProvider: () => LLMProvider;
+  // Saves a finished result to the resume library, when persistence is on.
+  onSaveVersion?: (result: BatchResult) => Promise<void>;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-slate-100 text-slate-700 border-slate-200" },
+  importing: { label: "Importing", className: "bg-blue-100 text-blue-800 border-blue-200" },
+  analyzing: { label: "Analyzing", className: "bg-blue-100 text-blue-800 border-blue-200" },
+  tailoring: { label: "Tailoring", className: "bg-purple-100 text-purple-800 border-purple-200" },
+  done: { label: "Done", className: "bg-green-100 text-green-800 border-green-200" },
+  error: { label: "Failed", className: "bg-red-100 text-red-800 border-red-200" },
+  cancelled: { label: "Cancelled", className: "bg-amber-100 text-amber-800 border-amber-200" },
+};
+
+const ACTIVE_STATUSES: BatchStatus[] = ["importing", "analyzing", "tailoring"];
+
+const SAMPLE_INPUT = `title,company,url,description
+Frontend Engineer,Acme,https://boards.greenhouse.io/acme/jobs/123,
+Backend Engineer,Globex,,"Paste the full job description here"`;
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Tailors the current resume against many jobs at once. Jobs run through a
+// queue with a concurrency cap, and every model call goes through a shared
+// requests-per-minute limiter.
+function BatchTailor({ settings, resumeName, presetName, providerLabel, createProvider, onSaveVersion, onBack }: BatchTailorProps) {
+  const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [results, setResults] = useState<Record<string, BatchResult>>({});
+  const [concurrency, setConcurrency] = useState(2);
+  const [perMinute, setPerMinute] = useState(20);
+  const [saveVersions, setSaveVersions] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => jobs.map((job) => results[job.id] || emptyResult(job)), [jobs, results]);
+  const finished = rows.filter((r) => r.status === "done" || r.status === "error" || r.status === "cancelled").length;
+  const done = rows.filter((r) => r.status === "done");
+  const retryable = rows.filter((r) => r.status === "error" || r.status === "cancelled");
+
+  const addJobs = () => {
+    try {
+      const parsed = parseJobList(input);
+      setJobs((prev) => [...prev, ...parsed]);
+      setInput("");
+      setInputError(null);
+    } catch (err) {
+      setInputError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) setInput(await file.text());
+  };
+
+  const removeJob = (id: string) => {
+    setJobs((prev) => prev.filter((job) => job.id !== id));
+    setResults((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const run = async (queue: BatchJob[]) => {
+    if (queue.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults((prev) => {
+      const next = { ...prev };
+      for (const job of queue) next[job.id] = emptyResult(job);
+      return next;
+    });
+    const provider = rateLimited(createProvider(), createRateLimiter(perMinute));
+    const report = (result: BatchResult) => setResults((prev) => ({ ...prev, [result.job.id]: result }));
+    try {
+      await runQueue(
+        queue,
+        concurrency,
+        async (job) => {
+          const result = await runBatchJob(job, provider, settings, report, controller.signal);
+          if (result.status === "done" && saveVersions && onSaveVersion) {
+            await onSaveVersion(result).catch(() => {
+              // the result can still be downloaded
+            });
+          }
+        },
+        controller.signal,
+      );
+    } finally {
+      // Jobs the queue never started after a cancel.
+      if (controller.signal.aborted) {
+        setResults((prev) => {
+          const next = { ...prev };
+          for (const job of queue) if (next[job.id]?.status === "queued") next[job.id] = { ...next[job.id], status: "cancelled" };
+          return next;
+        });
+      }
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      download(await buildBatchZip(rows), `${resumeName.replace(/[^\w-]+/g, "_") || "resume"}-batch.zip`);
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not create the zip"));
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={onBack} disabled={isRunning}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+            <Separator orientation="vertical" className="h-6" />
+            <h1 className="text-2xl font-bold text-slate-900">Batch Tailoring</h1>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={downloadZip} disabled={done.length === 0 || isZipping}>
+              {isZipping ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileArchive className="w-4 h-4 mr-2" />}
+              Download All (.zip)
+            </Button>
+            {isRunning ? (
+              <Button variant="destructive" onClick={() => abortRef.current?.abort()}>
+                <Square className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={() => run(jobs.filter((job) => results[job.id]?.status !== "done"))} disabled={rows.every((r) => r.status === "done")}>
+                <Play className="w-4 h-4 mr-2" />
+                Run {rows.filter((r) => r.status !== "done").length} Jobs
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto p-6 space-y-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Card className="shadow-lg border-slate-200 lg:col-span-2">
+            <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50">
+              <CardTitle className="text-xl flex items-center gap-2">
+                <ListPlus className="w-5 h-5 text-blue-600" />
+                Add Jobs
+              </CardTitle>
+              <CardDescription>
+                Paste one job URL per line, a CSV with a header row (title, company, url, description), or a JSON array of jobs.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-3">
+              <Textarea
+                rows={8}
+                placeholder={SAMPLE_INPUT}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                className="font-mono text-xs"
+                disabled={isRunning}
+              />
+              {inputError && <p className="text-sm text-red-600">{inputError}</p>}
+              <div className="flex gap-2">
+                <Button onClick={addJobs} disabled={!input.trim() || isRunning}>
+                  <ListPlus className="w-4 h-4 mr-2" />
+                  Add to Batch
+                </Button>
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import CSV / JSON
+                </Button>
+                <input ref={fileInputRef} type="file" accept=".csv,.json,.txt,text/csv,application/json,text/plain" className="hidden" onChange={handleFile} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-slate-200">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Layers className="w-5 h-5 text-purple-600" />
+                Run Settings
+              </CardTitle>
+              <CardDescription>
+                {resumeName} • {presetName} preset • {providerLabel}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Jobs at a time</Label>
+                <Select value={String(concurrency)} onValueChange={(v) => setConcurrency(Number(v))} disabled={isRunning}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map((n) => (
+                      <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-rate">Model requests per minute</Label>
+                <Input
+                  id="batch-rate"
+                  type="number"
+                  min={0}
+                  value={perMinute}
+                  onChange={(e) => setPerMinute(Math.max(0, Number(e.target.value) || 0))}
+                  disabled={isRunning}
+                />
+                <p className="text-xs text-slate-500">Each job makes two requests. 0 means no limit.</p>
+              </div>
+              {onSaveVersion && (
+                <label className="flex items-center justify-between text-sm">
+                  Save results to the library
+                  <Switch checked={saveVersions} onCheckedChange={setSaveVersions} disabled={isRunning} />
+                </label>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="shadow-lg border-slate-200">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Results</CardTitle>
+                <CardDescription>
+                  {jobs.length} jobs • {done.length} done{retryable.length > 0 ? ` • ${retryable.length} failed or cancelled` : ""}
+                </CardDescription>
+              </div>
+              {retryable.length > 0 && !isRunning && (
+                <Button variant="outline" size="sm" onClick={() => run(retryable.map((r) => r.job))}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Retry {retryable.length}
+                </Button>
+              )}
+            </div>
+            {isRunning && <Progress value={jobs.length ? (finished / jobs.length) * 100 : 0} className="h-2 mt-2" />}
+          </CardHeader>
+          <CardContent>
+            {jobs.length === 0 ? (
+              <p className="text-sm text-slate-500">Add jobs above to start a batch.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">#</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>ATS score</TableHead>
+                    <TableHead>Rewritten</TableHead>
+                    <TableHead>To verify</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => {
+                    const status = STATUS_LABELS[row.status];
+                    return (
+                      <TableRow key={row.job.id}>
+                        <TableCell className="text-slate-400">{index + 1}</TableCell>
+                        <TableCell>{row.company || "—"}</TableCell>
+                        <TableCell>
+                          <div className="max-w-xs truncate" title={row.job.url || row.description}>
+                            {row.title || (row.job.url ? <span className="text-slate-500">{row.job.url}</span> : "—")}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("font-normal", status.className)} title={row.error}>
+                            {ACTIVE_STATUSES.includes(row.status) && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                            {status.label}
+                          </Badge>
+                          {row.error && <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={row.error}>{row.error}</p>}
+                        </TableCell>
+                        <TableCell>
+                          {row.scoreAfter !== undefined ? (
+                            <span>
+                              {row.scoreBefore} → <span className="font-semibold">{row.scoreAfter}</span>
+                            </span>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell>{row.rewritten ?? "—"}</TableCell>
+                        <TableCell className={row.claims ? "text-amber-700 font-medium" : undefined}>{row.claims ?? "—"}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7"
+                            disabled={!row.content}
+                            onClick={() => download(new Blob([row.content!], { type: "text/plain" }), batchFileName(row, index))}
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-7 text-red-600" disabled={isRunning} onClick={() => removeJob(row.job.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default BatchTailor;
@@ -0,0 +1,86 @@
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "./ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { ListChecks, Lock } from "lucide-react";
+import { toPlainText } from "../lib/resume";
+import type { ApplyResult } from "../lib/tailoring";
+import type { LockViolation } from "../lib/locks";
+
+interface ChangesDialogProps {
+  changes: ApplyResult & { lockViolations?: LockViolation[] };
+}
+
+// Lists the per-bullet rewrites the model proposed, with its rationale, plus
+// any rewrites that were rejected while applying them and changes to locked
+// regions that were reverted.
+function ChangesDialog({ changes }: ChangesDialogProps) {
+  const { applied, rejected } = changes;
+  const lockViolations = changes.lockViolations || [];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ListChecks className="w-4 h-4 mr-2" />
+          {applied.length} changes
+          {rejected.length > 0 && <Badge variant="destructive" className="ml-2">{rejected.length} rejected</Badge>}
+          {lockViolations.length > 0 && <Badge variant="destructive" className="ml-2">{lockViolations.length} locked edits reverted</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>AI changes</DialogTitle>
+          <DialogDescription>
+            {applied.length} bullets rewritten{rejected.length > 0 ? `, ${rejected.length} proposed rewrites rejected` : ""}
+            {lockViolations.length > 0 ? `, ${lockViolations.length} changes to locked regions reverted` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-4">
+            {applied.map((rewrite) => (
+              <div key={rewrite.id} className="rounded-md border border-slate-200 p-3 text-sm space-y-1">
+                <div className="text-xs font-mono text-slate-400">{rewrite.id}</div>
+                <p className="text-red-700 line-through decoration-red-300">{toPlainText(rewrite.original)}</p>
+                <p className="text-green-800">{toPlainText(rewrite.updated)}</p>
+                {rewrite.rationale && <p className="text-xs text-slate-500 italic">{rewrite.rationale}</p>}
+              </div>
+            ))}
+            {rejected.map(({ rewrite, reason }, index) => (
+              <div key={`rejected-${index}`} className="rounded-md border border-red-200 bg-red-50/50 p-3 text-sm space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="destructive">Rejected</Badge>
+                  <span className="text-xs font-mono text-slate-400">{rewrite.id}</span>
+                </div>
+                <p className="text-xs text-red-700">{reason}</p>
+                <p className="text-slate-600">{toPlainText(rewrite.updated)}</p>
+              </div>
+            ))}
+            {lockViolations.map((violation, index) => (
+              <div key={`locked-${index}`} className="rounded-md border border-amber-200 bg-amber-50/50 p-3 text-sm space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="border-amber-300 text-amber-800">
+                    <Lock className="w-3 h-3 mr-1" />
+                    Reverted
+                  </Badge>
+                  <span className="text-xs text-slate-500">
+                    {violation.lock.label} • line {violation.line}
+                  </span>
+                </div>
+                {violation.original.length > 0 && <pre className="text-xs text-slate-600 whitespace-pre-wrap">{violation.original.join("\n")}</pre>}
+                {violation.attempted.length > 0 && (
+                  <pre className="text-xs text-red-700 line-through decoration-red-300 whitespace-pre-wrap">{violation.attempted.join("\n")}</pre>
+                )}
+              </div>
+            ))}
+            {applied.length === 0 && rejected.length === 0 && (
+              <p className="text-sm text-slate-500">The model did not propose any changes.</p>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ChangesDialog;
@@ -0,0 +1,86 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { FileText, Loader2, Mail } from "lucide-react";
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, type CoverLetterLength, type CoverLetterTone } from "../lib/coverLetter";
+
+interface CoverLetterCardProps {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  onToneChange: (tone: CoverLetterTone) => void;
+  onLengthChange: (length: CoverLetterLength) => void;
+  onGenerate: () => void;
+  // Reopens the last letter written for the current job, if any.
+  onOpen?: () => void;
+  isGenerating: boolean;
+  disabled?: boolean;
+}
+
+// Tone and length options for the cover letter, which is written from the
+// same job description, resume and reviewed skills as the tailoring run.
+function CoverLetterCard({ tone, length, onToneChange, onLengthChange, onGenerate, onOpen, isGenerating, disabled = false }: CoverLetterCardProps) {
+  const lengthOption = COVER_LETTER_LENGTHS.find((option) => option.value === length)!;
+  return (
+    <Card className="shadow-lg border-slate-200">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Mail className="w-5 h-5 text-purple-600" />
+          Cover Letter
+        </CardTitle>
+        <CardDescription>Write a matching cover letter from your resume, using only facts it contains</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Tone</Label>
+            <Select value={tone} onValueChange={(v) => onToneChange(v as CoverLetterTone)} disabled={isGenerating}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COVER_LETTER_TONES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Length</Label>
+            <Select value={length} onValueChange={(v) => onLengthChange(v as CoverLetterLength)} disabled={isGenerating}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COVER_LETTER_LENGTHS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.paragraphs} paragraphs)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          {COVER_LETTER_TONES.find((option) => option.value === tone)!.instructions} About {lengthOption.words} words.
+        </p>
+        <div className="flex gap-2">
+          <Button onClick={onGenerate} disabled={disabled || isGenerating} className="flex-1">
+            {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+            {isGenerating ? "Writing Cover Letter..." : onOpen ? "Write Again" : "Write Cover Letter"}
+          </Button>
+          {onOpen && (
+            <Button variant="outline" onClick={onOpen} disabled={isGenerating}>
+              <FileText className="w-4 h-4 mr-2" />
+              Open
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CoverLetterCard;
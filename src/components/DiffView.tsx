@@ -0,0 +1,177 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { ScrollArea } from "./ui/scroll-area";
+import { Check, ChevronDown, ChevronUp, Undo2, X } from "lucide-react";
+import { diffWords, toSideBySideRows, type DiffCell, type DiffRow, type HunkDecision, type LineDiff, type WordSegment } from "../lib/diff";
+import { cn } from "../lib/utils";
+
+interface DiffViewProps {
+  diff: LineDiff;
+  decisions: Record<number, HunkDecision>;
+  onDecide: (hunkIndex: number, decision: HunkDecision | null) => void;
+  onDecideAll: (decision: HunkDecision | null) => void;
+}
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  equal: { left: "", right: "" },
+  changed: { left: "bg-red-950/60", right: "bg-green-950/60" },
+  removed: { left: "bg-red-950/60", right: "bg-slate-900" },
+  added: { left: "bg-slate-900", right: "bg-green-950/60" },
+};
+
+function Segments({ segments, tone }: { segments: WordSegment[]; tone: "removed" | "added" }) {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(segment.changed && (tone === "removed" ? "bg-red-700/70 text-red-50" : "bg-green-700/70 text-green-50"), "rounded-sm")}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function Cell({ cell, className, children }: { cell?: DiffCell; className: string; children?: React.ReactNode }) {
+  return (
+    <>
+      <td className={cn("select-none text-right pr-2 pl-3 text-slate-500 align-top w-10", className)}>{cell?.number ?? ""}</td>
+      <td className={cn("pr-3 whitespace-pre-wrap break-all align-top w-1/2", className)}>{children ?? cell?.text ?? ""}</td>
+    </>
+  );
+}
+
+function HunkControls({ index, decision, onDecide }: { index: number; decision?: HunkDecision; onDecide: DiffViewProps["onDecide"] }) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-1 font-sans">
+      <span className="text-slate-400">Change {index + 1}</span>
+      {decision && (
+        <Badge variant={decision === "accepted" ? "secondary" : "destructive"} className="h-5 text-[10px]">
+          {decision === "accepted" ? "Accepted" : "Rejected"}
+        </Badge>
+      )}
+      <div className="ml-auto flex gap-1">
+        {decision ? (
+          <Button variant="ghost" size="sm" className="h-6 text-xs text-slate-300 hover:text-white hover:bg-slate-800" onClick={() => onDecide(index, null)}>
+            <Undo2 className="w-3 h-3 mr-1" />
+            Undo
+          </Button>
+        ) : (
+          <>
+            <Button variant="ghost" size="sm" className="h-6 text-xs text-green-400 hover:text-green-300 hover:bg-slate-800" onClick={() => onDecide(index, "accepted")}>
+              <Check className="w-3 h-3 mr-1" />
+              Accept
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 text-xs text-red-400 hover:text-red-300 hover:bg-slate-800" onClick={() => onDecide(index, "rejected")}>
+              <X className="w-3 h-3 mr-1" />
+              Reject
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Side-by-side line diff with optional word-level highlights inside edited
+// lines, a change counter, previous/next change navigation and per-change
+// accept/reject controls. Changes without a decision count as accepted.
+function DiffView({ diff, decisions, onDecide, onDecideAll }: DiffViewProps) {
+  const [wordLevel, setWordLevel] = useState(true);
+  const [currentHunk, setCurrentHunk] = useState(0);
+  const hunkRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  const rows = useMemo(() => toSideBySideRows(diff), [diff]);
+  const hunkCount = diff.hunks.length;
+  const decided = Object.values(decisions);
+  const acceptedCount = decided.filter((d) => d === "accepted").length;
+  const rejectedCount = decided.filter((d) => d === "rejected").length;
+
+  useEffect(() => {
+    setCurrentHunk(0);
+  }, [diff]);
+
+  const goTo = (index: number) => {
+    if (hunkCount === 0) return;
+    const next = (index + hunkCount) % hunkCount;
+    setCurrentHunk(next);
+    hunkRefs.current[next]?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-4 px-6 pb-3">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <Badge variant={hunkCount > 0 ? "default" : "secondary"}>{hunkCount}</Badge>
+          {hunkCount === 1 ? "change" : "changes"}
+          {hunkCount > 0 && <span className="text-xs text-slate-400">({currentHunk + 1} of {hunkCount})</span>}
+          {hunkCount > 0 && (
+            <span className="text-xs text-slate-500">
+              • {acceptedCount} accepted • {rejectedCount} rejected • {hunkCount - acceptedCount - rejectedCount} pending
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => onDecideAll("accepted")} disabled={hunkCount === 0}>Accept all</Button>
+            <Button variant="outline" size="sm" onClick={() => onDecideAll("rejected")} disabled={hunkCount === 0}>Reject all</Button>
+            <Button variant="ghost" size="sm" onClick={() => onDecideAll(null)} disabled={decided.length === 0}>Reset</Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="diff-word-level" checked={wordLevel} onCheckedChange={setWordLevel} />
+            <Label htmlFor="diff-word-level" className="text-xs text-slate-600">Word-level highlights</Label>
+          </div>
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => goTo(currentHunk - 1)} disabled={hunkCount === 0} title="Previous change">
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => goTo(currentHunk + 1)} disabled={hunkCount === 0} title="Next change">
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+      <ScrollArea className="flex-1 min-h-0">
+        <table className="w-full border-collapse text-xs font-mono bg-slate-950 text-slate-100 table-fixed">
+          <tbody>
+            {rows.map((row, index) => {
+              const styles = ROW_STYLES[row.type];
+              const isHunkStart = row.hunkIndex !== undefined && rows[index - 1]?.hunkIndex !== row.hunkIndex;
+              const decision = row.hunkIndex !== undefined ? decisions[row.hunkIndex] : undefined;
+              const words = wordLevel && row.type === "changed" ? diffWords(row.left!.text, row.right!.text) : null;
+              return (
+                <Fragment key={index}>
+                  {isHunkStart && (
+                    <tr
+                      ref={(el) => { hunkRefs.current[row.hunkIndex!] = el; }}
+                      className={cn("bg-slate-900 border-y border-slate-800", row.hunkIndex === currentHunk && "outline outline-1 outline-blue-400")}
+                    >
+                      <td colSpan={4}>
+                        <HunkControls index={row.hunkIndex!} decision={decision} onDecide={onDecide} />
+                      </td>
+                    </tr>
+                  )}
+                  <tr className={cn(decision === "rejected" && "[&>td:nth-child(4)]:line-through [&>td:nth-child(4)]:opacity-50", decision === "accepted" && "[&>td:nth-child(2)]:opacity-50")}>
+                    <Cell cell={row.left} className={styles.left}>
+                      {words && <Segments segments={words.left} tone="removed" />}
+                    </Cell>
+                    <Cell cell={row.right} className={cn(styles.right, "border-l border-slate-800")}>
+                      {words && <Segments segments={words.right} tone="added" />}
+                    </Cell>
+                  </tr>
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+}
+
+export default DiffView;
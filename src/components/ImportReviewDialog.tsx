@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ScrollArea } from "./ui/scroll-area";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { AlertTriangle, FileInput } from "lucide-react";
+import LatexCodeEditor from "./LatexCodeEditor";
+import { IMPORT_FORMATS, type ResumeImport } from "../lib/importers";
+import { DEFAULT_TEMPLATE_ID, RESUME_TEMPLATES, renderResume, type ResumeDataContact, type TemplateId } from "../lib/templates";
+import { escapeLatex, toPlainText } from "../lib/resume";
+import { cn } from "../lib/utils";
+
+interface ImportReviewDialogProps {
+  imported: ResumeImport | null;
+  onCancel: () => void;
+  onConfirm: (tex: string) => void;
+}
+
+const CONTACT_FIELDS: { field: keyof Omit<ResumeDataContact, "links">; label: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "location", label: "Location" },
+];
+
+// Shows what an importer recognised in a PDF, Word or Markdown resume so the
+// user can fix the contact details, drop stray sections and pick a template
+// before the LaTeX is generated.
+function ImportReviewDialog({ imported, onCancel, onConfirm }: ImportReviewDialogProps) {
+  const [contact, setContact] = useState<ResumeDataContact | null>(null);
+  const [titles, setTitles] = useState<string[]>([]);
+  const [included, setIncluded] = useState<boolean[]>([]);
+  const [templateId, setTemplateId] = useState<TemplateId>(DEFAULT_TEMPLATE_ID);
+
+  useEffect(() => {
+    if (!imported) return;
+    setContact(imported.data.contact);
+    setTitles(imported.data.sections.map((section) => section.title));
+    setIncluded(imported.data.sections.map(() => true));
+  }, [imported]);
+
+  const tex = useMemo(() => {
+    if (!imported || !contact) return "";
+    const sections = imported.data.sections
+      .map((section, index) => ({ ...section, title: titles[index] ?? section.title }))
+      .filter((_, index) => included[index] !== false);
+    return renderResume({ contact, sections }, templateId);
+  }, [imported, contact, titles, included, templateId]);
+
+  if (!imported || !contact) return null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileInput className="w-5 h-5 text-blue-600" />
+            Review Imported Resume
+          </DialogTitle>
+          <DialogDescription>
+            {imported.fileName} • {IMPORT_FORMATS[imported.format].label} • {imported.lineCount} lines read. Check what was recognised, then choose a template.
+          </DialogDescription>
+        </DialogHeader>
+        {imported.warnings.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 p-2 rounded-md border border-amber-200">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>{imported.warnings.join(" • ")}</span>
+          </div>
+        )}
+        <Tabs defaultValue="recognised">
+          <div className="flex items-center justify-between gap-3">
+            <TabsList>
+              <TabsTrigger value="recognised">Recognised</TabsTrigger>
+              <TabsTrigger value="latex">LaTeX</TabsTrigger>
+            </TabsList>
+            <Select value={templateId} onValueChange={(v) => setTemplateId(v as TemplateId)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESUME_TEMPLATES.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <TabsContent value="recognised">
+            <ScrollArea className="h-[55vh] pr-4">
+              <div className="space-y-4 text-sm">
+                <div className="grid grid-cols-2 gap-3">
+                  {CONTACT_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`import-${field}`} className="text-xs">{label}</Label>
+                      <Input
+                        id={`import-${field}`}
+                        value={toPlainText(contact[field])}
+                        placeholder="Not found"
+                        onChange={(e) => setContact({ ...contact, [field]: escapeLatex(e.target.value) })}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
+                {contact.links.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {contact.links.map((link) => (
+                      <Badge key={link} variant="secondary" className="font-normal">{toPlainText(link)}</Badge>
+                    ))}
+                  </div>
+                )}
+                {imported.data.sections.map((section, index) => (
+                  <div key={index} className={cn("rounded-md border p-3 space-y-2", included[index] === false && "opacity-50")}>
+                    <div className="flex items-center gap-3">
+                      <Input
+                        value={toPlainText(titles[index] ?? section.title)}
+                        onChange={(e) => setTitles(titles.map((title, i) => (i === index ? escapeLatex(e.target.value) : title)))}
+                        className="h-8 font-medium max-w-xs"
+                      />
+                      <span className="text-xs text-slate-500">
+                        {section.entries.length} entries • {section.bullets.length + section.entries.reduce((n, entry) => n + entry.bullets.length, 0)} bullets
+                        {section.text ? " • text" : ""}
+                      </span>
+                      <Switch
+                        className="ml-auto"
+                        checked={included[index] !== false}
+                        onCheckedChange={(checked) => setIncluded(included.map((value, i) => (i === index ? checked : value)))}
+                      />
+                    </div>
+                    {section.text && <p className="text-xs text-slate-600 line-clamp-2">{toPlainText(section.text)}</p>}
+                    {section.entries.map((entry, entryIndex) => (
+                      <div key={entryIndex} className="text-xs">
+                        <span className="font-medium">{toPlainText(entry.title) || "Untitled"}</span>
+                        {[entry.organization, entry.location, entry.date].filter(Boolean).map((value) => ` • ${toPlainText(value)}`).join("")}
+                        <span className="text-slate-400"> ({entry.bullets.length} bullets)</span>
+                      </div>
+                    ))}
+                    {section.bullets.slice(0, 3).map((bullet, bulletIndex) => (
+                      <p key={bulletIndex} className="text-xs text-slate-600 truncate">• {toPlainText(bullet)}</p>
+                    ))}
+                    {section.bullets.length > 3 && <p className="text-xs text-slate-400">…and {section.bullets.length - 3} more</p>}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="latex">
+            <div className="h-[55vh] border rounded-md overflow-hidden">
+              <LatexCodeEditor value={tex} readOnly />
+            </div>
+          </TabsContent>
+        </Tabs>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(tex)}>Use This Resume</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImportReviewDialog;
@@ -0,0 +1,125 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
+import { Annotation, Compartment, EditorState } from "@codemirror/state";
+import {
+  EditorView,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  rectangularSelection,
+} from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap, indentWithTab } from "@codemirror/commands";
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput, StreamLanguage } from "@codemirror/language";
+import { highlightSelectionMatches, search, searchKeymap } from "@codemirror/search";
+import { stex } from "@codemirror/legacy-modes/mode/stex";
+import { oneDark } from "@codemirror/theme-one-dark";
+
+interface LatexCodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+}
+
+export interface LatexCodeEditorHandle {
+  // Moves the cursor to a 1-based line (and optional column) and scrolls it
+  // into view. Pass focus=false to scroll without taking keyboard focus.
+  goToLine: (line: number, column?: number, focus?: boolean) => void;
+}
+
+const latexLanguage = StreamLanguage.define(stex);
+
+// Marks transactions that mirror the `value` prop so they are not reported
+// back through onChange.
+const externalChange = Annotation.define<boolean>();
+
+const baseTheme = EditorView.theme({
+  "&": { height: "100%", fontSize: "13px" },
+  ".cm-scroller": { fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" },
+});
+
+// CodeMirror 6 editor for LaTeX: syntax highlighting, line numbers, bracket
+// matching, find/replace (Ctrl/Cmd+F) and undo history.
+const LatexCodeEditor = forwardRef<LatexCodeEditorHandle, LatexCodeEditorProps>(function LatexCodeEditor({ value, onChange, readOnly = false }, ref) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  const readOnlyCompartment = useRef(new Compartment());
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          highlightSpecialChars(),
+          history(),
+          foldGutter(),
+          drawSelection(),
+          dropCursor(),
+          indentOnInput(),
+          bracketMatching(),
+          rectangularSelection(),
+          crosshairCursor(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          search({ top: true }),
+          keymap.of([...defaultKeymap, ...searchKeymap, ...historyKeymap, ...foldKeymap, indentWithTab]),
+          latexLanguage,
+          oneDark,
+          baseTheme,
+          EditorView.lineWrapping,
+          readOnlyCompartment.current.of(EditorState.readOnly.of(readOnly)),
+          EditorView.updateListener.of((update) => {
+            if (!update.docChanged || update.transactions.some((tr) => tr.annotation(externalChange))) return;
+            onChangeRef.current?.(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // The editor is created once; value and readOnly are synced below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Apply outside changes (e.g. accepting/rejecting a diff hunk) as a normal
+  // transaction so they stay in the undo history.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current !== value) {
+      view.dispatch({ changes: { from: 0, to: current.length, insert: value }, annotations: externalChange.of(true) });
+    }
+  }, [value]);
+
+  useImperativeHandle(ref, () => ({
+    goToLine: (line, column, focus = true) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const target = view.state.doc.line(Math.min(Math.max(line, 1), view.state.doc.lines));
+      const pos = Math.min(target.from + Math.max((column ?? 1) - 1, 0), target.to);
+      view.dispatch({ selection: { anchor: pos }, effects: EditorView.scrollIntoView(pos, { y: "center" }) });
+      if (focus) view.focus();
+    },
+  }), []);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(readOnly)) });
+  }, [readOnly]);
+
+  return <div ref={containerRef} className="h-full overflow-hidden" />;
+});
+
+export default LatexCodeEditor;
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { Lock, X } from "lucide-react";
+import { HEADER_LOCK_ID, headerLock, lineRangeLock, sectionLock, type LockedRange } from "../lib/locks";
+import { splitLines } from "../lib/diff";
+import { toPlainText, type Resume } from "../lib/resume";
+
+interface LockPanelProps {
+  resume: Resume;
+  locks: LockedRange[];
+  onChange: (locks: LockedRange[]) => void;
+  disabled?: boolean;
+}
+
+// Lets the user lock the header, whole sections or line ranges of the
+// original resume so tailoring can't change them.
+function LockPanel({ resume, locks, onChange, disabled = false }: LockPanelProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const lineCount = splitLines(resume.source).length;
+  const lineLocks = locks.filter((lock) => !lock.sectionId);
+
+  const toggle = (sectionId: string, create: () => LockedRange | null) => {
+    const existing = locks.find((lock) => lock.sectionId === sectionId);
+    if (existing) {
+      onChange(locks.filter((lock) => lock !== existing));
+      return;
+    }
+    const lock = create();
+    if (lock) onChange([...locks, lock]);
+  };
+
+  const addRange = () => {
+    try {
+      onChange([...locks, lineRangeLock(Number(from), Number(to || from), lineCount)]);
+      setFrom("");
+      setTo("");
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Invalid line range"));
+    }
+  };
+
+  const rows = [
+    { id: HEADER_LOCK_ID, label: "Header & contact details", create: () => headerLock(resume) },
+    ...resume.sections.map((section) => ({ id: section.id, label: toPlainText(section.title) || "Untitled section", create: () => sectionLock(resume, section) })),
+  ];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+        {rows.map((row) => {
+          const lock = locks.find((l) => l.sectionId === row.id);
+          return (
+            <label key={row.id} className="flex items-center justify-between gap-2">
+              <span className="truncate">
+                {row.label}
+                {lock && <span className="ml-1 text-xs text-slate-400">lines {lock.startLine}-{lock.endLine}</span>}
+              </span>
+              <Switch checked={!!lock} disabled={disabled} onCheckedChange={() => toggle(row.id, row.create)} />
+            </label>
+          );
+        })}
+      </div>
+      {lineLocks.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {lineLocks.map((lock) => (
+            <Badge key={lock.id} variant="secondary" className="gap-1 font-normal">
+              <Lock className="w-3 h-3" />
+              {lock.label}
+              <button type="button" disabled={disabled} title="Unlock" className="text-slate-400 hover:text-red-600" onClick={() => onChange(locks.filter((l) => l !== lock))}>
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-500">Lock lines</span>
+        <Input type="number" min={1} max={lineCount} placeholder="from" value={from} disabled={disabled} onChange={(e) => setFrom(e.target.value)} className="h-8 w-20" />
+        <Input type="number" min={1} max={lineCount} placeholder="to" value={to} disabled={disabled} onChange={(e) => setTo(e.target.value)} className="h-8 w-20" />
+        <Button size="sm" variant="outline" className="h-8" disabled={disabled || !from} onClick={addRange}>
+          <Lock className="w-3 h-3 mr-1" />
+          Lock
+        </Button>
+        <span className="text-xs text-slate-400 ml-auto">of {lineCount} lines</span>
+      </div>
+    </div>
+  );
+}
+
+export default LockPanel;
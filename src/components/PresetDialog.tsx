@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import { Textarea } from "./ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { createPreset, type TailoringPreset, type TailoringPresetInput } from "../lib/presets";
+
+interface PresetDialogProps {
+  open: boolean;
+  title: string;
+  // The preset being edited; a new preset when it has no id.
+  initial: TailoringPresetInput & { id?: string };
+  // Section titles of the current resume, offered as checkboxes.
+  sectionTitles: string[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (preset: TailoringPreset) => void;
+}
+
+// Form for creating or editing a custom tailoring preset.
+function PresetDialog({ open, title, initial, sectionTitles, onOpenChange, onSubmit }: PresetDialogProps) {
+  const [form, setForm] = useState<TailoringPresetInput>(initial);
+  const [sectionsText, setSectionsText] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(initial);
+    setSectionsText((initial.editableSections || []).join(", "));
+  }, [open, initial]);
+
+  const update = (changes: Partial<TailoringPresetInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const sections = sectionsText.split(",").map((name) => name.trim()).filter(Boolean);
+  const hasSection = (name: string) => sections.some((s) => s.toLowerCase() === name.toLowerCase());
+  const toggleSection = (name: string, checked: boolean) => {
+    const next = checked ? [...sections, name] : sections.filter((s) => s.toLowerCase() !== name.toLowerCase());
+    setSectionsText(next.join(", "));
+  };
+  // Offer the resume's sections plus any the preset names that this resume lacks.
+  const suggestions = [...sectionTitles, ...sections.filter((name) => !sectionTitles.some((t) => t.toLowerCase() === name.toLowerCase()))];
+
+  const handleSubmit = () => {
+    try {
+      onSubmit(createPreset({ ...form, editableSections: sections }, initial.id));
+      onOpenChange(false);
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Invalid preset"));
+    }
+  };
+
+  const temperature = form.temperature ?? 0.7;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Presets save a house style so every run tailors the same way.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">Name</Label>
+              <Input id="preset-name" value={form.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-description">Description</Label>
+              <Input id="preset-description" value={form.description || ""} onChange={(e) => update({ description: e.target.value })} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-instructions">Instructions</Label>
+            <Textarea
+              id="preset-instructions"
+              rows={5}
+              value={form.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              placeholder="e.g. Lead every bullet with a strong verb, keep British spelling, never mention salaries."
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-3">
+              <Label>Temperature: {temperature.toFixed(1)}</Label>
+              <Slider min={0} max={2} step={0.1} value={[temperature]} onValueChange={([value]) => update({ temperature: value })} />
+              <p className="text-xs text-slate-500">Lower is more predictable, higher more creative.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preset-max-length">Max bullet length</Label>
+              <Input
+                id="preset-max-length"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={form.maxBulletLength ?? ""}
+                onChange={(e) => update({ maxBulletLength: e.target.value ? Number(e.target.value) : null })}
+              />
+              <p className="text-xs text-slate-500">Visible characters; longer rewrites are rejected.</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preset-sections">Sections allowed to change</Label>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {suggestions.map((name) => (
+                  <label key={name} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox checked={hasSection(name)} onCheckedChange={(checked) => toggleSection(name, checked === true)} />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            )}
+            <Input
+              id="preset-sections"
+              placeholder="All sections"
+              value={sectionsText}
+              onChange={(e) => setSectionsText(e.target.value)}
+            />
+            <p className="text-xs text-slate-500">Comma-separated section titles. Leave empty to allow every section.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit}>Save Preset</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PresetDialog;
@@ -0,0 +1,168 @@
+import { useMemo, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { Copy, Download, MoreHorizontal, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import PresetDialog from "./PresetDialog";
+import {
+  DEFAULT_PRESET_ID,
+  exportPresets,
+  importPresets,
+  uniquePresetName,
+  type TailoringPreset,
+  type TailoringPresetInput,
+} from "../lib/presets";
+
+interface PresetPickerProps {
+  // Built-in presets first, then the custom ones.
+  presets: TailoringPreset[];
+  active: TailoringPreset;
+  sectionTitles: string[];
+  onSelect: (id: string) => void;
+  // Receives the full list of custom presets after any change.
+  onCustomChange: (presets: TailoringPreset[]) => void;
+}
+
+type Editing = { title: string; initial: TailoringPresetInput & { id?: string } };
+
+function downloadJson(json: string, name: string) {
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${name.replace(/[^\w-]+/g, "_") || "presets"}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Chooses the tailoring preset and manages custom ones. Built-in presets are
+// read-only but can be duplicated as a starting point.
+function PresetPicker({ presets, active, sectionTitles, onSelect, onCustomChange }: PresetPickerProps) {
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const custom = useMemo(() => presets.filter((preset) => !preset.builtIn), [presets]);
+
+  const save = (preset: TailoringPreset) => {
+    const exists = custom.some((p) => p.id === preset.id);
+    onCustomChange(exists ? custom.map((p) => (p.id === preset.id ? preset : p)) : [...custom, preset]);
+    onSelect(preset.id);
+  };
+
+  const startNew = () =>
+    setEditing({ title: "New Preset", initial: { name: uniquePresetName("My preset", presets), instructions: "", temperature: 0.7, editableSections: [] } });
+
+  const startDuplicate = () => {
+    const { id: _id, builtIn: _builtIn, ...rest } = active;
+    setEditing({ title: "New Preset", initial: { ...rest, name: uniquePresetName(`${active.name} copy`, presets) } });
+  };
+
+  const remove = () => {
+    if (!confirm(`Delete preset "${active.name}"?`)) return;
+    onCustomChange(custom.filter((p) => p.id !== active.id));
+    onSelect(DEFAULT_PRESET_ID);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = importPresets(await file.text(), presets);
+      onCustomChange([...custom, ...imported]);
+      onSelect(imported[0].id);
+      alert(`Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}`);
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not import presets"));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">Tailoring Preset</Label>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Manage presets">
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={startNew}>
+              <Plus className="w-4 h-4 mr-2" />
+              New preset
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={startDuplicate}>
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicate "{active.name}"
+            </DropdownMenuItem>
+            {!active.builtIn && (
+              <DropdownMenuItem onClick={() => setEditing({ title: "Edit Preset", initial: active })}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit "{active.name}"
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import JSON...
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => downloadJson(exportPresets([active]), active.name)}>
+              <Download className="w-4 h-4 mr-2" />
+              Export "{active.name}"
+            </DropdownMenuItem>
+            {custom.length > 0 && (
+              <DropdownMenuItem onClick={() => downloadJson(exportPresets(custom), "resume-wizard-presets")}>
+                <Download className="w-4 h-4 mr-2" />
+                Export all custom presets
+              </DropdownMenuItem>
+            )}
+            {!active.builtIn && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-red-600" onClick={remove}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete "{active.name}"
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <Select value={active.id} onValueChange={onSelect}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map((preset) => (
+            <SelectItem key={preset.id} value={preset.id}>
+              {preset.name}
+              {preset.builtIn ? "" : " (custom)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-slate-500">
+        {active.description || active.instructions}
+        <span className="block mt-1 text-slate-400">
+          Temperature {active.temperature.toFixed(1)}
+          {active.maxBulletLength ? ` • max ${active.maxBulletLength} chars per bullet` : ""}
+          {active.editableSections.length ? ` • only ${active.editableSections.join(", ")}` : ""}
+        </span>
+      </p>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      {editing && (
+        <PresetDialog
+          open
+          title={editing.title}
+          initial={editing.initial}
+          sectionTitles={sectionTitles}
+          onOpenChange={(open) => !open && setEditing(null)}
+          onSubmit={save}
+        />
+      )}
+    </div>
+  );
+}
+
+export default PresetPicker;
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Badge } from "./ui/badge";
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import type { Diagnostic } from "../lib/latexDiagnostics";
+import { cn } from "../lib/utils";
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+}
+
+const ORIGIN_LABELS: Record<Diagnostic["origin"], string> = {
+  lint: "check",
+  preview: "HTML preview",
+  pdf: "pdfTeX",
+  facts: "fact check",
+};
+
+// Collapsible list of LaTeX problems under the source editor. Clicking a
+// problem with a known line jumps to it.
+function ProblemsPanel({ diagnostics, onSelect }: ProblemsPanelProps) {
+  const [open, setOpen] = useState(true);
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+
+  return (
+    <div className="border-t border-slate-200 bg-white">
+      <button type="button" className="w-full flex items-center gap-2 px-4 py-2 text-sm text-slate-700 hover:bg-slate-50" onClick={() => setOpen(!open)}>
+        <span className="font-medium">Problems</span>
+        <Badge variant={errors > 0 ? "destructive" : "secondary"} className="h-5">{errors} errors</Badge>
+        {warnings > 0 && <Badge variant="outline" className="h-5">{warnings} warnings</Badge>}
+        {open ? <ChevronDown className="w-4 h-4 ml-auto" /> : <ChevronUp className="w-4 h-4 ml-auto" />}
+      </button>
+      {open && (
+        <ul className="max-h-40 overflow-auto pb-2">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                className={cn("w-full flex items-start gap-2 px-4 py-1.5 text-left text-xs hover:bg-slate-50", diagnostic.line === 0 && "cursor-default")}
+                onClick={() => diagnostic.line > 0 && onSelect(diagnostic)}
+              >
+                {diagnostic.severity === "error" ? (
+                  <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-red-600" />
+                ) : (
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-500" />
+                )}
+                <span className="flex-1 min-w-0">
+                  <span className="text-slate-800">{diagnostic.message}</span>
+                  {diagnostic.command && <code className="ml-2 px-1 rounded bg-slate-100 text-slate-700">{diagnostic.command}</code>}
+                  {diagnostic.hint && <span className="block text-slate-500">{diagnostic.hint}</span>}
+                </span>
+                <span className="shrink-0 text-slate-400">
+                  {ORIGIN_LABELS[diagnostic.origin]}
+                  {diagnostic.line > 0 && ` · line ${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ""}`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ProblemsPanel;
@@ -0,0 +1,189 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Tabs, TabsList, TabsTrigger } from "./ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { AlertTriangle, FileCode, RotateCcw } from "lucide-react";
+import {
+  PROMPT_DEFINITIONS,
+  activatePromptVersion,
+  loadPromptHistory,
+  resetPromptTemplate,
+  savePromptVersion,
+  validatePromptTemplate,
+  type PromptHistory,
+  type PromptTemplateId,
+} from "../lib/prompts";
+
+const DEFAULT_VERSION = "default";
+
+function templateOf(id: PromptTemplateId, history: PromptHistory, version: number | null) {
+  return history.versions.find((v) => v.version === version)?.template ?? PROMPT_DEFINITIONS[id].defaultTemplate;
+}
+
+// Edits the prompt templates. Saving adds a version; older versions and the
+// built-in default can be viewed and made active again.
+function PromptTemplateEditor() {
+  const [open, setOpen] = useState(false);
+  const [id, setId] = useState<PromptTemplateId>("tailor");
+  const [history, setHistory] = useState<PromptHistory>({ versions: [], active: null });
+  // The version shown in the editor (null is the default).
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const definition = PROMPT_DEFINITIONS[id];
+  const dirty = draft !== templateOf(id, history, selected);
+  const problems = validatePromptTemplate(id, draft);
+
+  const load = (nextId: PromptTemplateId) => {
+    const nextHistory = loadPromptHistory(nextId);
+    setId(nextId);
+    setHistory(nextHistory);
+    setSelected(nextHistory.active);
+    setDraft(templateOf(nextId, nextHistory, nextHistory.active));
+  };
+
+  const confirmDiscard = () => !dirty || confirm("Discard your unsaved changes to this template?");
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && !confirmDiscard()) return;
+    if (next) load(id);
+    setOpen(next);
+  };
+
+  const switchTemplate = (nextId: string) => {
+    if (nextId === id || !confirmDiscard()) return;
+    load(nextId as PromptTemplateId);
+  };
+
+  const viewVersion = (value: string) => {
+    if (!confirmDiscard()) return;
+    const version = value === DEFAULT_VERSION ? null : Number(value);
+    setSelected(version);
+    setDraft(templateOf(id, history, version));
+  };
+
+  const run = (action: () => PromptHistory) => {
+    try {
+      const next = action();
+      setHistory(next);
+      setSelected(next.active);
+      setDraft(templateOf(id, next, next.active));
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not save the template"));
+    }
+  };
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!el) {
+      setDraft(draft + token);
+      return;
+    }
+    const next = draft.slice(0, el.selectionStart) + token + draft.slice(el.selectionEnd);
+    const caret = el.selectionStart + token.length;
+    setDraft(next);
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(caret, caret);
+    });
+  };
+
+  const nextVersion = Math.max(0, ...history.versions.map((v) => v.version)) + 1;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <FileCode className="w-4 h-4 mr-2" />
+          Edit Prompt Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Prompt Templates</DialogTitle>
+          <DialogDescription>
+            Edit the prompts sent to the model. The reply format is added automatically, so parsing keeps working whatever you change.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Tabs value={id} onValueChange={switchTemplate}>
+              <TabsList>
+                {Object.values(PROMPT_DEFINITIONS).map((d) => (
+                  <TabsTrigger key={d.id} value={d.id}>
+                    {d.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Select value={selected === null ? DEFAULT_VERSION : String(selected)} onValueChange={viewVersion}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_VERSION}>Built-in default{history.active === null ? " (active)" : ""}</SelectItem>
+                {[...history.versions].reverse().map((v) => (
+                  <SelectItem key={v.version} value={String(v.version)}>
+                    v{v.version} • {format(v.savedAt, "MMM d, HH:mm")}
+                    {history.active === v.version ? " (active)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-slate-600">{definition.description}</p>
+          <div className="flex flex-wrap gap-2">
+            {definition.variables.map((variable) => (
+              <button key={variable.name} type="button" title={variable.description} onClick={() => insertVariable(variable.name)}>
+                <Badge variant={variable.required ? "default" : "secondary"} className="font-mono font-normal">
+                  {`{{${variable.name}}}`}
+                </Badge>
+              </button>
+            ))}
+            <span className="text-xs text-slate-500 self-center">Click to insert. Dark badges are required.</span>
+          </div>
+          <Textarea
+            ref={textareaRef}
+            rows={18}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="font-mono text-xs"
+            spellCheck={false}
+          />
+          {problems.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 p-2 rounded-md border border-red-200">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{problems.join(" • ")}</span>
+            </div>
+          )}
+        </div>
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            disabled={history.active === null && !dirty && selected === null}
+            onClick={() => confirmDiscard() && run(() => resetPromptTemplate(id))}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to Default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={dirty || selected === history.active} onClick={() => run(() => activatePromptVersion(id, selected))}>
+              Use This Version
+            </Button>
+            <Button disabled={!dirty || problems.length > 0} onClick={() => run(() => savePromptVersion(id, draft))}>
+              Save as v{nextVersion}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PromptTemplateEditor;
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
+import { Button } from "./ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { RefreshCw } from "lucide-react";
+import { PROVIDERS, createProvider, type ProviderConfig, type ProviderKind } from "../lib/llm";
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  apiKey: string;
+  onChange: (config: ProviderConfig) => void;
+}
+
+function ProviderSettings({ config, apiKey, onChange }: ProviderSettingsProps) {
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+  const info = PROVIDERS[config.kind];
+
+  const handleKindChange = (kind: ProviderKind) => {
+    setModels([]);
+    setModelsError(null);
+    onChange({ kind, model: "", baseUrl: "" });
+  };
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    setModelsError(null);
+    try {
+      const list = await createProvider({ ...config, apiKey }).listModels();
+      setModels(list);
+      if (list.length === 0) setModelsError("The provider returned no models");
+    } catch (err: any) {
+      setModelsError(err?.message || String(err));
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold">AI Provider</Label>
+        <Select value={config.kind} onValueChange={(v) => handleKindChange(v as ProviderKind)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(PROVIDERS).map((p) => (
+              <SelectItem key={p.kind} value={p.kind}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-500">{info.description}</p>
+      </div>
+
+      {info.defaultBaseUrl && (
+        <div className="space-y-1">
+          <Label htmlFor="provider-base-url" className="text-xs text-slate-600">Base URL</Label>
+          <Input
+            id="provider-base-url"
+            placeholder={info.defaultBaseUrl}
+            value={config.baseUrl}
+            onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+            className="font-mono text-sm"
+          />
+        </div>
+      )}
+
+      {config.kind !== "mock" && (
+        <div className="space-y-1">
+          <Label htmlFor="provider-model" className="text-xs text-slate-600">Model</Label>
+          <div className="flex gap-2">
+            {models.length > 0 ? (
+              <Select value={config.model || undefined} onValueChange={(v) => onChange({ ...config, model: v })}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models.map((m) => (
+                    <SelectItem key={m} value={m}>{m}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="provider-model"
+                placeholder={info.defaultModel || "Automatic"}
+                value={config.model}
+                onChange={(e) => onChange({ ...config, model: e.target.value })}
+                className="flex-1 font-mono text-sm"
+              />
+            )}
+            <Button variant="outline" size="icon" onClick={handleLoadModels} disabled={isLoadingModels} title="Load available models">
+              <RefreshCw className={`w-4 h-4 ${isLoadingModels ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+          {modelsError && <p className="text-xs text-red-600">{modelsError}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ProviderSettings;
@@ -1,49 +1,292 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { ScrollArea } from "./ui/scroll-area";
-import { Download, FileText, ArrowLeft, Copy, Check } from "lucide-react";
+import { Download, FileText, ArrowLeft, Copy, Check, GitCompare, FileDown, Loader2, Save, Briefcase, Target, ShieldAlert, ShieldCheck, FileType, FileArchive } from "lucide-react";
 import { Separator } from "./ui/separator";
+import ChangesDialog from "./ChangesDialog";
+import DiffView from "./DiffView";
+import LatexCodeEditor, { type LatexCodeEditorHandle } from "./LatexCodeEditor";
+import ProblemsPanel from "./ProblemsPanel";
+import AtsReportCard from "./AtsReportCard";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import type { ApplyResult } from "../lib/tailoring";
+import { diffLines, mergeHunks, type HunkDecision } from "../lib/diff";
+import { TexCompileError, compileLatexToPdf, getTexEngineUrl } from "../lib/texEngine";
+import { compareResumes, type AtsKeyword } from "../lib/ats";
+import { diagnoseLatexJsError, diagnoseTexLog, lintLatex, type Diagnostic } from "../lib/latexDiagnostics";
+import { CLAIM_LABELS, findUnsupportedClaims, type UnsupportedClaim } from "../lib/factCheck";
+import { coverLetterTexToText } from "../lib/coverLetter";
+import { applyFlattenedSource, exportProjectZip, projectAssets, type LatexProject } from "../lib/project";
+import { RESUME_TEMPLATES, switchTemplate, type TemplateId } from "../lib/templates";
+
+type SourceTab = "tailored" | "original" | "diff";
+type PreviewMode = "html" | "pdf";
+
+// A cover letter is generated from the resume rather than edited from it, so
+// it has no diff; the resume is shown alongside for reference and is what the
+// letter is fact-checked against.
+export type EditorDocumentKind = "resume" | "coverLetter";
+
+const DOCUMENT_LABELS: Record<EditorDocumentKind, { title: string; fileName: string; edited: string; original: string; preview: string; factSource: string }> = {
+  resume: { title: "Tailored Resume", fileName: "tailored-resume", edited: "Tailored", original: "Original", preview: "Resume Preview", factSource: "your original resume" },
+  coverLetter: { title: "Cover Letter", fileName: "cover-letter", edited: "Cover Letter", original: "Resume", preview: "Cover Letter Preview", factSource: "your resume or the job description" },
+};
+
+interface CompiledPdf {
+  source: string;
+  url: string;
+}
+
+interface CompileFailure {
+  source: string;
+  message: string;
+  log: string;
+}
+
+// Lines the HTML preview prepends when wrapping a body-only fragment.
+const FRAGMENT_PREAMBLE = "\\documentclass{article}\n\\usepackage[utf8]{inputenc}\n\\begin{document}\n";
+const FRAGMENT_PREAMBLE_LINES = 3;
+
+const PREVIEW_DEBOUNCE_MS = 600;
+
+const claimKey = (claim: UnsupportedClaim) => `${claim.kind}:${claim.text.toLowerCase()}`;
+
+function useDebouncedValue<T>(value: T, delayMs: number) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
 
 interface ResumeEditorProps {
+  kind?: EditorDocumentKind;
   texCode: string;
   originalTexCode: string;
+  // The files the resume was flattened from, when it is a multi-file project.
+  project?: LatexProject | null;
+  changes?: ApplyResult | null;
+  // Saves the merged document back to the resume library, when it came from there.
+  onSave?: (texCode: string) => Promise<void>;
+  // Records the merged document as sent in the application tracker.
+  onTrack?: (texCode: string) => void;
+  // Job the resume was tailored for, used for the ATS keyword report.
+  jobDescription?: string;
+  skills?: AtsKeyword[];
+  // Plain text that also counts as a source for the fact check.
+  factSupport?: string;
   onBack: () => void;
 }
 
-function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
+function ResumeEditor({ kind = "resume", texCode, originalTexCode, project, changes, onSave, onTrack, jobDescription, skills, factSupport = "", onBack }: ResumeEditorProps) {
+  const labels = DOCUMENT_LABELS[kind];
+  const isResume = kind === "resume";
   const [copied, setCopied] = useState(false);
-  const [activeTab, setActiveTab] = useState<"tailored" | "original">("tailored");
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved">("idle");
+  const [activeTab, setActiveTab] = useState<SourceTab>("tailored");
   const [previewHtml, setPreviewHtml] = useState<string | null>(null);
   const [isRendering, setIsRendering] = useState(false);
   const [renderError, setRenderError] = useState<string | null>(null);
+  const [renderDiagnostic, setRenderDiagnostic] = useState<Diagnostic | null>(null);
+  const [decisions, setDecisions] = useState<Record<number, HunkDecision>>({});
+  // The tailored source as edited by the user; starts as the AI output.
+  const [workingTex, setWorkingTex] = useState(texCode);
+  // Fact-check findings the user confirmed are true, by claimKey.
+  const [verifiedClaims, setVerifiedClaims] = useState<Set<string>>(() => new Set());
+  const [showClaims, setShowClaims] = useState(false);
+
+  useEffect(() => {
+    setWorkingTex(texCode);
+    setDecisions({});
+    setVerifiedClaims(new Set());
+  }, [texCode, originalTexCode]);
+
+  // Every AI change can be accepted or rejected individually; the merged
+  // result is what gets edited, previewed, copied and downloaded.
+  const diff = useMemo(() => diffLines(originalTexCode, workingTex), [originalTexCode, workingTex]);
+  const finalTex = useMemo(() => (isResume ? mergeHunks(diff, decisions) : workingTex), [isResume, diff, decisions, workingTex]);
+  const previewTex = useDebouncedValue(finalTex, PREVIEW_DEBOUNCE_MS);
+  const editorRef = useRef<LatexCodeEditorHandle>(null);
+  const atsComparison = useMemo(
+    () => (isResume && jobDescription?.trim() ? compareResumes(jobDescription, originalTexCode, previewTex, skills) : null),
+    [isResume, jobDescription, originalTexCode, previewTex, skills],
+  );
+
+  // Names, numbers, dates and skills in changed lines that the original
+  // doesn't contain: likely invented by the model.
+  const claims = useMemo(
+    () => findUnsupportedClaims(originalTexCode, previewTex, skills, factSupport).filter((claim) => !verifiedClaims.has(claimKey(claim))),
+    [originalTexCode, previewTex, skills, factSupport, verifiedClaims],
+  );
+
+  const verifyClaim = (claim: UnsupportedClaim) => setVerifiedClaims((prev) => new Set(prev).add(claimKey(claim)));
+
+  const goToClaim = (claim: UnsupportedClaim) => {
+    setShowClaims(false);
+    setActiveTab("tailored");
+    // The editor remounts when switching tabs; wait for it.
+    setTimeout(() => editorRef.current?.goToLine(claim.line), 0);
+  };
+
+  // Downloads go ahead only once unverified claims have been acknowledged.
+  const confirmClaims = () => {
+    const open = findUnsupportedClaims(originalTexCode, finalTex, skills, factSupport).filter((claim) => !verifiedClaims.has(claimKey(claim)));
+    if (open.length === 0) return true;
+    const list = open.slice(0, 8).map((claim) => `• ${CLAIM_LABELS[claim.kind]}: ${claim.text} (line ${claim.line})`).join("\n");
+    const more = open.length > 8 ? `\n…and ${open.length - 8} more` : "";
+    return confirm(`The ${labels.title.toLowerCase()} contains ${open.length} facts that are not in ${labels.factSource}:\n\n${list}${more}\n\nDownload anyway?`);
+  };
+
+  // Manual edits apply to the merged document, so pending decisions are
+  // folded into the new working copy.
+  const handleEdit = (text: string) => {
+    setWorkingTex(text);
+    setDecisions({});
+  };
+
+  // Re-renders the resume's content with a built-in template. The switch is
+  // an ordinary edit, so the diff and fact check still apply to it.
+  const handleSwitchTemplate = (templateId: TemplateId) => {
+    const { tex, warnings } = switchTemplate(finalTex, templateId);
+    if (warnings.length && !confirm(`${warnings.join("\n")}\n\nSwitch anyway?`)) return;
+    handleEdit(tex);
+    setActiveTab("tailored");
+    // latex.js can't load the moderncv class.
+    if (templateId === "moderncv") setPreviewMode("pdf");
+  };
+
+  const handleDecide = (hunkIndex: number, decision: HunkDecision | null) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) next[hunkIndex] = decision;
+      else delete next[hunkIndex];
+      return next;
+    });
+  };
+
+  const handleDecideAll = (decision: HunkDecision | null) => {
+    setDecisions(decision ? Object.fromEntries(diff.hunks.map((_, index) => [index, decision])) : {});
+  };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(texCode);
+    navigator.clipboard.writeText(finalTex);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownloadTex = () => {
-    const blob = new Blob([texCode], { type: "text/plain" });
+  const handleSave = async () => {
+    setSaveState("saving");
+    try {
+      await onSave!(finalTex);
+      setSaveState("saved");
+      setTimeout(() => setSaveState("idle"), 2000);
+    } catch (err) {
+      setSaveState("idle");
+      alert("Error: " + (err instanceof Error ? err.message : "Could not save this version"));
+    }
+  };
+
+  const downloadText = (text: string, fileName: string) => {
+    const blob = new Blob([text], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "tailored-resume.tex";
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadTex = () => {
+    if (!confirmClaims()) return;
+    downloadText(finalTex, `${labels.fileName}.tex`);
+  };
+
+  // Cover letters are often pasted into application forms.
+  const handleDownloadTxt = () => {
+    if (!confirmClaims()) return;
+    downloadText(coverLetterTexToText(finalTex), `${labels.fileName}.txt`);
+  };
+
+  // Writes every inlined part of the edited source back to the file it came
+  // from and downloads the whole project.
+  const handleDownloadProject = async () => {
+    if (!project || !confirmClaims()) return;
+    const { project: updated, changed, warnings } = applyFlattenedSource(project, finalTex);
+    if (warnings.length && !confirm(`${warnings.join("\n")}\n\nDownload anyway?`)) return;
+    try {
+      const blob = await exportProjectZip(updated);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${project.name}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+      if (changed.length === 0) alert("No files were changed; the project was exported as uploaded.");
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : "Could not export the project"));
+    }
+  };
+
   const mountedRef = useRef(true);
 
+  const [previewMode, setPreviewMode] = useState<PreviewMode>("html");
+  const [compiledPdf, setCompiledPdf] = useState<CompiledPdf | null>(null);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [compileError, setCompileError] = useState<CompileFailure | null>(null);
+
+  useEffect(() => () => {
+    if (compiledPdf) URL.revokeObjectURL(compiledPdf.url);
+  }, [compiledPdf]);
+
+  // Compiles with the WebAssembly TeX engine; the last PDF is reused while
+  // the source is unchanged.
+  const compilePdf = async (source: string) => {
+    if (compiledPdf && compiledPdf.source === source) return compiledPdf;
+    setIsCompiling(true);
+    setCompileError(null);
+    try {
+      const { pdf } = await compileLatexToPdf(source, project ? projectAssets(project) : []);
+      const url = URL.createObjectURL(pdf);
+      const result = { source, url };
+      if (mountedRef.current) setCompiledPdf(result);
+      return result;
+    } catch (err: any) {
+      if (mountedRef.current) {
+        setCompileError({ source, message: err?.message || String(err), log: err instanceof TexCompileError ? err.log : "" });
+      }
+      return null;
+    } finally {
+      if (mountedRef.current) setIsCompiling(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!confirmClaims()) return;
+    const result = await compilePdf(finalTex);
+    if (!result) {
+      setPreviewMode("pdf");
+      return;
+    }
+    const a = document.createElement("a");
+    a.href = result.url;
+    a.download = `${labels.fileName}.pdf`;
+    a.click();
+  };
+
   const renderPreview = useCallback(async () => {
     setIsRendering(true);
     setRenderError(null);
+    setRenderDiagnostic(null);
     setPreviewHtml(null);
 
-    // Choose which source to render based on active tab
-    const source = activeTab === "tailored" ? texCode : originalTexCode;
+    // Choose which source to render based on active tab; the diff view
+    // previews the tailored version.
+    const source = activeTab === "original" ? originalTexCode : previewTex;
 
     try {
       // If the source doesn't include a \begin{document}, latex.js will
@@ -53,7 +296,7 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
       let toRender = source;
       const hasBegin = /\\begin\{document\}/i.test(source);
       if (!hasBegin) {
-        toRender = `\\documentclass{article}\n\\usepackage[utf8]{inputenc}\n\\begin{document}\n${source}\n\\end{document}`;
+        toRender = `${FRAGMENT_PREAMBLE}${source}\n\\end{document}`;
       }
 
       // Dynamically import latex.js so the dependency is optional and the
@@ -74,11 +317,19 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
     } catch (err: any) {
       // If import failed because dependency is missing, show helpful message
       const msg = err && err.message ? err.message : String(err);
-      if (mountedRef.current) setRenderError(msg.includes("Cannot find module") ? "Missing dependency 'latex.js'. Install with: pnpm add latex.js (or npm install latex.js)" : `Render error: ${msg}`);
+      if (!mountedRef.current) return;
+      if (msg.includes("Cannot find module")) {
+        setRenderError("Missing dependency 'latex.js'. Install with: pnpm add latex.js (or npm install latex.js)");
+      } else {
+        const wrapped = !/\\begin\{document\}/i.test(source);
+        const diagnostic = diagnoseLatexJsError(err, source, wrapped ? FRAGMENT_PREAMBLE_LINES : 0);
+        setRenderDiagnostic(diagnostic);
+        setRenderError(diagnostic.line > 0 ? `Line ${diagnostic.line}: ${diagnostic.message}` : diagnostic.message);
+      }
     } finally {
       if (mountedRef.current) setIsRendering(false);
     }
-  }, [activeTab, texCode, originalTexCode]);
+  }, [activeTab, previewTex, originalTexCode]);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -89,6 +340,40 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
     };
   }, [renderPreview]);
 
+  // Problems for the source shown in the editor: the local checks plus the
+  // last preview or PDF failure, if it was for that same source.
+  const editorSource = activeTab === "original" ? originalTexCode : previewTex;
+  const lintDiagnostics = useMemo(() => lintLatex(editorSource), [editorSource]);
+  const diagnostics = useMemo(() => {
+    const all = [...lintDiagnostics];
+    if (renderDiagnostic) all.push(renderDiagnostic);
+    if (activeTab !== "original") {
+      for (const claim of claims) {
+        all.push({
+          severity: "warning",
+          origin: "facts",
+          message: `${CLAIM_LABELS[claim.kind]} "${claim.text}" is not in ${labels.factSource}`,
+          line: claim.line,
+          hint: "Check that it is true before sending. Mark it as accurate in the fact check to clear this warning.",
+        });
+      }
+    }
+    if (compileError && compileError.source === (activeTab === "original" ? originalTexCode : finalTex)) {
+      all.push(...diagnoseTexLog(compileError.log));
+    }
+    return all;
+  }, [lintDiagnostics, renderDiagnostic, claims, compileError, activeTab, originalTexCode, finalTex]);
+
+  const sourceTabs = (
+    <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as SourceTab)}>
+      <TabsList>
+        <TabsTrigger value="tailored">{labels.edited}</TabsTrigger>
+        <TabsTrigger value="original">{labels.original}</TabsTrigger>
+        {isResume && <TabsTrigger value="diff">Diff</TabsTrigger>}
+      </TabsList>
+    </Tabs>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
       {/* Header */}
@@ -101,9 +386,79 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                 Back
               </Button>
               <Separator orientation="vertical" className="h-6" />
-              <h1 className="text-2xl font-bold text-slate-900">Tailored Resume</h1>
+              <h1 className="text-2xl font-bold text-slate-900">{labels.title}</h1>
             </div>
             <div className="flex gap-2">
+              {atsComparison && (
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <Target className="w-4 h-4 mr-2" />
+                      ATS {atsComparison.before.score} → {atsComparison.after.score}
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-2xl">
+                    <DialogHeader>
+                      <DialogTitle>ATS keyword match</DialogTitle>
+                      <DialogDescription>Keyword coverage of the original and the current tailored resume, scored locally.</DialogDescription>
+                    </DialogHeader>
+                    <AtsReportCard before={atsComparison.before} after={atsComparison.after} />
+                  </DialogContent>
+                </Dialog>
+              )}
+              <Dialog open={showClaims} onOpenChange={setShowClaims}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className={claims.length > 0 ? "border-amber-300 text-amber-800 hover:bg-amber-50" : undefined}>
+                    {claims.length > 0 ? <ShieldAlert className="w-4 h-4 mr-2" /> : <ShieldCheck className="w-4 h-4 mr-2 text-green-600" />}
+                    {claims.length > 0 ? `${claims.length} to verify` : "Facts OK"}
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-3xl">
+                  <DialogHeader>
+                    <DialogTitle>Fact check</DialogTitle>
+                    <DialogDescription>
+                      Names, numbers, dates and skills {isResume ? "in changed lines " : ""}that {labels.factSource} never mentions. Make sure each one is true.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <ScrollArea className="max-h-[60vh] pr-4">
+                    <div className="space-y-3">
+                      {claims.map((claim) => (
+                        <div key={claimKey(claim)} className="rounded-md border border-amber-200 bg-amber-50/50 p-3 text-sm space-y-2">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="border-amber-300 text-amber-800">{CLAIM_LABELS[claim.kind]}</Badge>
+                            <span className="font-medium">{claim.text}</span>
+                            <span className="text-xs text-slate-400">line {claim.line}</span>
+                            <div className="ml-auto flex gap-1">
+                              <Button variant="ghost" size="sm" className="h-7" onClick={() => goToClaim(claim)}>
+                                Go to line
+                              </Button>
+                              <Button variant="ghost" size="sm" className="h-7 text-green-700" onClick={() => verifyClaim(claim)}>
+                                <Check className="w-3 h-3 mr-1" />
+                                It's accurate
+                              </Button>
+                            </div>
+                          </div>
+                          <p className="text-xs text-slate-600">{claim.context}</p>
+                        </div>
+                      ))}
+                      {claims.length === 0 && <p className="text-sm text-slate-500">Nothing in the {labels.title.toLowerCase()} is missing from {labels.factSource}.</p>}
+                    </div>
+                  </ScrollArea>
+                </DialogContent>
+              </Dialog>
+              {changes && <ChangesDialog changes={changes} />}
+              {onSave && (
+                <Button variant="outline" onClick={handleSave} disabled={saveState === "saving"}>
+                  {saveState === "saved" ? <Check className="w-4 h-4 mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+                  {saveState === "saved" ? "Saved!" : "Save Version"}
+                </Button>
+              )}
+              {onTrack && (
+                <Button variant="outline" onClick={() => onTrack(finalTex)}>
+                  <Briefcase className="w-4 h-4 mr-2" />
+                  Track Application
+                </Button>
+              )}
               <Button variant="outline" onClick={handleCopy}>
                 {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
                 {copied ? "Copied!" : "Copy Code"}
@@ -112,9 +467,31 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                 <Download className="w-4 h-4 mr-2" />
                 Download .tex
               </Button>
-              <Button variant="default" onClick={renderPreview} disabled={isRendering}>
-                {isRendering ? "Rendering..." : "Render Preview"}
+              {project && (
+                <Button variant="outline" onClick={handleDownloadProject}>
+                  <FileArchive className="w-4 h-4 mr-2" />
+                  Download Project (.zip)
+                </Button>
+              )}
+              {!isResume && (
+                <Button variant="outline" onClick={handleDownloadTxt}>
+                  <FileType className="w-4 h-4 mr-2" />
+                  Download .txt
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleDownloadPdf} disabled={isCompiling}>
+                {isCompiling ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+                Download PDF
               </Button>
+              {previewMode === "html" ? (
+                <Button variant="default" onClick={renderPreview} disabled={isRendering}>
+                  {isRendering ? "Rendering..." : "Render Preview"}
+                </Button>
+              ) : (
+                <Button variant="default" onClick={() => compilePdf(activeTab === "original" ? originalTexCode : finalTex)} disabled={isCompiling}>
+                  {isCompiling ? "Compiling..." : "Compile PDF"}
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -122,6 +499,22 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
 
       {/* Dual Pane Editor */}
       <div className="max-w-[1800px] mx-auto p-6">
+        {activeTab === "diff" ? (
+          <Card className="flex flex-col shadow-lg h-[calc(100vh-140px)]">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <GitCompare className="w-5 h-5 text-purple-600" />
+                  Original vs Tailored
+                </CardTitle>
+                {sourceTabs}
+              </div>
+            </CardHeader>
+            <CardContent className="flex-1 min-h-0 p-0 pb-4">
+              <DiffView diff={diff} decisions={decisions} onDecide={handleDecide} onDecideAll={handleDecideAll} />
+            </CardContent>
+          </Card>
+        ) : (
         <div className="grid grid-cols-2 gap-6 h-[calc(100vh-140px)]">
           {/* Left Pane - LaTeX Code */}
           <Card className="flex flex-col shadow-lg">
@@ -131,32 +524,79 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                   <FileText className="w-5 h-5 text-blue-600" />
                   LaTeX Source Code
                 </CardTitle>
-                <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "tailored" | "original")}>
-                    <TabsList>
-                      <TabsTrigger value="tailored">Tailored</TabsTrigger>
-                      <TabsTrigger value="original">Original</TabsTrigger>
-                    </TabsList>
-                  </Tabs>
+                {sourceTabs}
                 </div>
               </CardHeader>
-              <CardContent className="flex-1 p-0">
-                <ScrollArea className="h-full">
-                  <pre className="p-6 text-sm font-mono bg-slate-950 text-slate-50 h-full">
-                    <code>{activeTab === "tailored" ? texCode : originalTexCode}</code>
-                  </pre>
-                </ScrollArea>
+              <CardContent className="flex-1 min-h-0 p-0 flex flex-col">
+                <div className="flex-1 min-h-0">
+                  {activeTab === "tailored" ? (
+                    <LatexCodeEditor key="tailored" ref={editorRef} value={finalTex} onChange={handleEdit} />
+                  ) : (
+                    <LatexCodeEditor key="original" ref={editorRef} value={originalTexCode} readOnly />
+                  )}
+                </div>
+                {diagnostics.length > 0 && (
+                  <ProblemsPanel diagnostics={diagnostics} onSelect={(d) => editorRef.current?.goToLine(d.line, d.column)} />
+                )}
               </CardContent>
             </Card>
 
             {/* Right Pane - Preview */}
             <Card className="flex flex-col shadow-lg">
               <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <FileText className="w-5 h-5 text-green-600" />
-                  Resume Preview
-                </CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <FileText className="w-5 h-5 text-green-600" />
+                    {labels.preview}
+                  </CardTitle>
+                  {isResume && !project && (
+                    <Select onValueChange={(v) => handleSwitchTemplate(v as TemplateId)}>
+                      <SelectTrigger className="w-44 h-9 ml-auto mr-2">
+                        <SelectValue placeholder="Change template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RESUME_TEMPLATES.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Tabs value={previewMode} onValueChange={(v) => setPreviewMode(v as PreviewMode)}>
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="pdf">PDF</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
               </CardHeader>
-              <CardContent className="flex-1 p-0">
+              <CardContent className="flex-1 min-h-0 p-0">
+                {previewMode === "pdf" ? (
+                  <div className="h-full bg-slate-100">
+                    {compileError ? (
+                      <div className="p-6 text-sm text-red-700 space-y-2">
+                        <p className="font-medium">Could not compile PDF</p>
+                        <p className="text-xs">{compileError.message}</p>
+                        {compileError.log && (
+                          <pre className="p-2 bg-white border border-red-200 text-[11px] font-mono text-slate-700 max-h-[50vh] overflow-auto whitespace-pre-wrap">
+                            {compileError.log.slice(-4000)}
+                          </pre>
+                        )}
+                        <p className="text-xs text-slate-500">
+                          The TeX engine is loaded from <code>{getTexEngineUrl()}</code>.
+                        </p>
+                      </div>
+                    ) : compiledPdf ? (
+                      <iframe title="Compiled PDF" src={compiledPdf.url} className="w-full h-full border-0" />
+                    ) : (
+                      <div className="h-full flex flex-col items-center justify-center gap-3 text-sm text-slate-500">
+                        {isCompiling ? <Loader2 className="w-6 h-6 animate-spin" /> : <FileDown className="w-6 h-6" />}
+                        <p>{isCompiling ? "Compiling with pdfTeX..." : "Click \"Compile PDF\" to build a real PDF in your browser."}</p>
+                      </div>
+                    )}
+                  </div>
+                ) : (
                 <ScrollArea className="h-full">
                   <div className="p-6 bg-slate-100">
                     <div className="max-w-[210mm] mx-auto bg-white shadow-2xl p-6 min-h-[297mm]">
@@ -164,8 +604,21 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                       <div className="text-center p-6 text-sm text-red-700">
                         <p className="font-medium">Could not render preview</p>
                         <p className="mt-2 text-xs">{renderError}</p>
-                        <p className="mt-3 text-xs text-slate-500">If you see a missing dependency message, run:</p>
-                        <pre className="mt-2 p-2 bg-slate-100 text-xs font-mono">pnpm add latex.js</pre>
+                        {renderDiagnostic ? (
+                          <>
+                            {renderDiagnostic.hint && <p className="mt-2 text-xs text-slate-600">{renderDiagnostic.hint}</p>}
+                            {renderDiagnostic.line > 0 && (
+                              <Button variant="outline" size="sm" className="mt-3" onClick={() => editorRef.current?.goToLine(renderDiagnostic.line, renderDiagnostic.column)}>
+                                Go to line {renderDiagnostic.line}
+                              </Button>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            <p className="mt-3 text-xs text-slate-500">If you see a missing dependency message, run:</p>
+                            <pre className="mt-2 p-2 bg-slate-100 text-xs font-mono">pnpm add latex.js</pre>
+                          </>
+                        )}
                       </div>
                     ) : previewHtml ? (
                       <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: previewHtml }} />
@@ -174,11 +627,11 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                         <p className="text-slate-500 text-sm">📄 LaTeX Preview</p>
                         <p className="text-slate-400 text-xs mt-2">Click "Render Preview" to convert LaTeX to HTML in the browser (requires <code>latex.js</code>).</p>
                         <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
-                          <p className="text-sm text-blue-900 font-medium mb-2">To compile your resume:</p>
+                          <p className="text-sm text-blue-900 font-medium mb-2">To get a PDF of your resume:</p>
                           <ol className="text-xs text-blue-800 text-left space-y-1 max-w-md mx-auto">
-                            <li>1. Download the .tex file</li>
-                            <li>2. Use Overleaf, TeXShop, or pdflatex to compile</li>
-                            <li>3. Generate your final PDF resume</li>
+                            <li>1. Switch the preview to PDF and click "Compile PDF"</li>
+                            <li>2. Check the result against the HTML preview</li>
+                            <li>3. Click "Download PDF"</li>
                           </ol>
                         </div>
                       </div>
@@ -186,9 +639,11 @@ function ResumeEditor({ texCode, originalTexCode, onBack }: ResumeEditorProps) {
                   </div>
                 </div>
               </ScrollArea>
+                )}
             </CardContent>
           </Card>
         </div>
+        )}
       </div>
     </div>
   );
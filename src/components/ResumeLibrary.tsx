@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { ChevronDown, ChevronRight, Copy, FileText, MoreHorizontal, Pencil, RotateCcw, Trash2 } from "lucide-react";
+import {
+  deleteResume,
+  deleteVersion,
+  duplicateResume,
+  renameResume,
+  updateVersion,
+  type BaseResume,
+  type ResumeVersion,
+} from "../lib/resumeLibrary";
+import { cn } from "../lib/utils";
+
+interface ResumeLibraryProps {
+  resumes: BaseResume[];
+  versions: ResumeVersion[];
+  activeId: string | null;
+  onUse: (resume: BaseResume) => void;
+  onOpenVersion: (version: ResumeVersion) => void;
+  // Called after any change so the parent can reload the library.
+  onChanged: () => void;
+}
+
+function RenameInput({ initial, onDone }: { initial: string; onDone: (name: string | null) => void }) {
+  const [name, setName] = useState(initial);
+  const finish = () => onDone(name.trim() && name.trim() !== initial ? name.trim() : null);
+  return (
+    <Input
+      autoFocus
+      value={name}
+      className="h-7 text-sm"
+      onChange={(e) => setName(e.target.value)}
+      onBlur={finish}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") finish();
+        if (e.key === "Escape") onDone(null);
+      }}
+    />
+  );
+}
+
+// Saved base resumes with their tailored versions. Each base can be used for
+// tailoring, renamed, duplicated or deleted; versions can be reopened in the
+// editor, renamed or deleted.
+function ResumeLibrary({ resumes, versions, activeId, onUse, onOpenVersion, onChanged }: ResumeLibraryProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      alert("Error: " + (err instanceof Error ? err.message : String(err)));
+    }
+    onChanged();
+  };
+
+  if (resumes.length === 0) return null;
+
+  return (
+    <div className="mt-4 text-sm text-slate-600 text-left space-y-2">
+      <div className="font-medium text-slate-800">Resume library</div>
+      {resumes.map((resume) => {
+        const resumeVersions = versions.filter((v) => v.baseId === resume.id);
+        const isOpen = expanded[resume.id];
+        return (
+          <div key={resume.id} className={cn("rounded-md border bg-slate-50", resume.id === activeId ? "border-blue-300" : "border-slate-200")}>
+            <div className="flex items-center gap-2 p-2">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                disabled={resumeVersions.length === 0}
+                onClick={() => setExpanded({ ...expanded, [resume.id]: !isOpen })}
+                title={isOpen ? "Hide versions" : "Show versions"}
+              >
+                {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </Button>
+              <div className="flex-1 min-w-0">
+                {renaming === resume.id ? (
+                  <RenameInput
+                    initial={resume.name}
+                    onDone={(name) => {
+                      setRenaming(null);
+                      if (name) run(() => renameResume(resume.id, name));
+                    }}
+                  />
+                ) : (
+                  <div className="font-medium text-slate-800 truncate">{resume.name}</div>
+                )}
+                <div className="text-xs text-slate-500 truncate">
+                  {resume.fileName} • {new Date(resume.updatedAt).toLocaleString()} • {resumeVersions.length} {resumeVersions.length === 1 ? "version" : "versions"}
+                </div>
+              </div>
+              {resume.id === activeId ? (
+                <Badge variant="secondary">In use</Badge>
+              ) : (
+                <Button size="sm" variant="outline" onClick={() => onUse(resume)}>
+                  Use
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="icon" variant="ghost" className="h-8 w-8" title="More actions">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setRenaming(resume.id)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => run(() => duplicateResume(resume.id))}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Duplicate
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-red-600"
+                    onClick={() => {
+                      if (confirm(`Delete "${resume.name}" and its ${resumeVersions.length} tailored versions?`)) run(() => deleteResume(resume.id));
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+            {isOpen && (
+              <ul className="border-t border-slate-200 divide-y divide-slate-200">
+                {resumeVersions.map((version) => (
+                  <li key={version.id} className="flex items-center gap-2 py-1.5 pl-10 pr-2">
+                    <FileText className="w-4 h-4 text-slate-400 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      {renaming === version.id ? (
+                        <RenameInput
+                          initial={version.name}
+                          onDone={(name) => {
+                            setRenaming(null);
+                            if (name) run(() => updateVersion(version.id, { name }));
+                          }}
+                        />
+                      ) : (
+                        <div className="text-slate-700 truncate" title={version.job.url || undefined}>{version.name}</div>
+                      )}
+                      <div className="text-xs text-slate-500">{new Date(version.updatedAt).toLocaleString()}</div>
+                    </div>
+                    <Button size="sm" variant="ghost" className="h-7" onClick={() => onOpenVersion(version)} title="Open this version in the editor">
+                      <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                      Restore
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setRenaming(version.id)} title="Rename">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-red-600"
+                      onClick={() => {
+                        if (confirm(`Delete version "${version.name}"?`)) run(() => deleteVersion(version.id));
+                      }}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ResumeLibrary;
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Pin, PinOff, Plus, X } from "lucide-react";
+import { SKILL_CATEGORIES, dedupeSkills, skillKey, type Skill, type SkillCategory } from "../lib/skills";
+import { cn } from "../lib/utils";
+
+interface SkillEditorProps {
+  skills: Skill[];
+  onChange: (skills: Skill[]) => void;
+  disabled?: boolean;
+}
+
+// "5+ years of Python" style requirements keep their number of years.
+function yearsFor(name: string, category: SkillCategory) {
+  return category === "experience" ? Number(/(\d+)/.exec(name)?.[1]) || undefined : undefined;
+}
+
+// Extracted job requirements grouped by category. Solid badges are required,
+// outlined ones preferred; clicking a badge toggles that. Pinned skills are
+// pushed hardest by the tailoring prompt, skills can be moved to another
+// category, and they can be removed or added by hand.
+function SkillEditor({ skills, onChange, disabled = false }: SkillEditorProps) {
+  const [newName, setNewName] = useState("");
+  const [newCategory, setNewCategory] = useState<SkillCategory>("hard_skill");
+
+  const update = (target: Skill, changes: Partial<Skill> | null) => {
+    onChange(skills.flatMap((skill) => (skill === target ? (changes ? [{ ...skill, ...changes }] : []) : [skill])));
+  };
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onChange(dedupeSkills([...skills, { name, category: newCategory, required: true, years: yearsFor(name, newCategory) }]));
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-3">
+      {SKILL_CATEGORIES.map((category) => {
+        const items = skills.filter((skill) => skill.category === category.value);
+        if (items.length === 0) return null;
+        return (
+          <div key={category.value} className="space-y-1">
+            <div className="text-xs font-medium text-slate-600">
+              {category.label} <span className="text-slate-400">({items.length})</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {items.map((skill) => (
+                <Badge
+                  key={skillKey(skill.name)}
+                  variant={skill.required ? "secondary" : "outline"}
+                  className={cn(
+                    "gap-1 px-2 py-1 font-normal",
+                    skill.required ? "bg-white border-green-300 text-green-800" : "border-dashed text-slate-600",
+                    skill.pinned && "ring-1 ring-blue-400",
+                  )}
+                >
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    title={skill.pinned ? "Pinned: tailoring will emphasise this skill. Click to unpin" : "Pin so tailoring emphasises this skill"}
+                    className={skill.pinned ? "text-blue-600" : "text-slate-300 hover:text-blue-600"}
+                    onClick={() => update(skill, { pinned: !skill.pinned })}
+                  >
+                    {skill.pinned ? <Pin className="w-3 h-3" /> : <PinOff className="w-3 h-3" />}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    title={skill.required ? "Required: click to mark as preferred" : "Preferred: click to mark as required"}
+                    onClick={() => update(skill, { required: !skill.required })}
+                  >
+                    {skill.name}
+                    {skill.years ? <span className="ml-1 text-slate-400">{skill.years}+ yrs</span> : null}
+                    {!skill.required && <span className="ml-1 text-slate-400">(preferred)</span>}
+                  </button>
+                  <Select
+                    value={skill.category}
+                    onValueChange={(v) => update(skill, { category: v as SkillCategory, years: v === "experience" ? skill.years ?? yearsFor(skill.name, v) : undefined })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger title="Move to another category" className="h-4 w-auto border-0 p-0 shadow-none text-slate-400 hover:text-slate-700" />
+                    <SelectContent>
+                      {SKILL_CATEGORIES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button type="button" disabled={disabled} title="Remove" className="text-slate-400 hover:text-red-600" onClick={() => update(skill, null)}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex gap-2 pt-1">
+        <Input
+          placeholder="Add a skill"
+          value={newName}
+          disabled={disabled}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+          className="h-8 flex-1"
+        />
+        <Select value={newCategory} onValueChange={(v) => setNewCategory(v as SkillCategory)} disabled={disabled}>
+          <SelectTrigger className="h-8 w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SKILL_CATEGORIES.map((category) => (
+              <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" className="h-8" onClick={add} disabled={disabled || !newName.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default SkillEditor;
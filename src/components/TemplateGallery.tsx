@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { AlertTriangle, LayoutTemplate } from "lucide-react";
+import LatexCodeEditor from "./LatexCodeEditor";
+import TemplateThumbnail from "./TemplateThumbnail";
+import { DEFAULT_TEMPLATE_ID, RESUME_TEMPLATES, SAMPLE_RESUME, findTemplate, renderResume, switchTemplate, type ResumeTemplate, type TemplateId } from "../lib/templates";
+import { cn } from "../lib/utils";
+
+interface TemplateGalleryProps {
+  open: boolean;
+  // The current resume's LaTeX, whose content can be moved to a template.
+  source?: string;
+  onCancel: () => void;
+  onUse: (tex: string, template: ResumeTemplate, fromSample: boolean) => void;
+}
+
+// Built-in templates with a sketch of each. Picking one either re-renders
+// the current resume's content with it or starts from sample content.
+function TemplateGallery({ open, source = "", onCancel, onUse }: TemplateGalleryProps) {
+  const [templateId, setTemplateId] = useState<TemplateId>(DEFAULT_TEMPLATE_ID);
+  const [useSample, setUseSample] = useState(!source);
+
+  useEffect(() => {
+    if (open) setUseSample(!source);
+  }, [open, source]);
+
+  const result = useMemo(() => {
+    if (!open) return null;
+    if (useSample || !source) return { tex: renderResume(SAMPLE_RESUME, templateId), warnings: [] as string[] };
+    return switchTemplate(source, templateId);
+  }, [open, source, useSample, templateId]);
+
+  if (!open || !result) return null;
+  const template = findTemplate(templateId);
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-blue-600" />
+            Resume Templates
+          </DialogTitle>
+          <DialogDescription>
+            {source
+              ? "Move your resume's content into another template. Sections, entries and bullets carry over; the old template's custom layout does not."
+              : "Start a new resume from a template, then replace the sample content with your own."}
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="gallery">
+          <div className="flex items-center justify-between gap-3">
+            <TabsList>
+              <TabsTrigger value="gallery">Gallery</TabsTrigger>
+              <TabsTrigger value="latex">LaTeX</TabsTrigger>
+            </TabsList>
+            {source && (
+              <div className="flex items-center gap-2">
+                <Switch id="template-sample" checked={useSample} onCheckedChange={setUseSample} />
+                <Label htmlFor="template-sample" className="text-sm">Use sample content</Label>
+              </div>
+            )}
+          </div>
+          <TabsContent value="gallery">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {RESUME_TEMPLATES.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setTemplateId(option.id)}
+                  className={cn(
+                    "text-left rounded-lg border-2 p-2 space-y-2 transition-colors",
+                    option.id === templateId ? "border-blue-500 bg-blue-50" : "border-transparent hover:border-slate-300",
+                  )}
+                >
+                  <TemplateThumbnail thumbnail={option.thumbnail} />
+                  <p className="text-sm font-medium text-slate-800">{option.name}</p>
+                </button>
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-slate-600">{template.description}</p>
+          </TabsContent>
+          <TabsContent value="latex">
+            <div className="h-[50vh] border rounded-md overflow-hidden">
+              <LatexCodeEditor value={result.tex} readOnly />
+            </div>
+          </TabsContent>
+        </Tabs>
+        {result.warnings.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-amber-800 bg-amber-50 p-2 rounded-md border border-amber-200">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>{result.warnings.join(" • ")}</span>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onUse(result.tex, template, useSample || !source)}>
+            {source && !useSample ? `Switch to ${template.name}` : `Start from ${template.name}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TemplateGallery;
@@ -0,0 +1,47 @@
+import type { TemplateThumbnail as Thumbnail } from "../lib/templates";
+import { cn } from "../lib/utils";
+
+interface TemplateThumbnailProps {
+  thumbnail: Thumbnail;
+  className?: string;
+}
+
+const SECTION_LINES = [[90, 75, 82], [88, 70], [60]];
+
+// A sketch of a template's first page: header, then a few sections drawn the
+// way the template sets them off. Drawn rather than compiled, so the gallery
+// opens instantly and needs no TeX engine.
+function TemplateThumbnail({ thumbnail, className }: TemplateThumbnailProps) {
+  const { accent, header, sections } = thumbnail;
+  const side = sections === "side";
+  return (
+    <div className={cn("aspect-[8.5/11] w-full bg-white border border-slate-200 rounded shadow-sm p-[8%] flex flex-col gap-[5%] overflow-hidden", className)}>
+      <div className={cn("flex flex-col gap-1", header === "center" ? "items-center" : "items-start")}>
+        <div className="h-2 w-1/2 rounded-sm" style={{ backgroundColor: accent }} />
+        <div className="h-1 w-3/4 rounded-sm bg-slate-300" />
+      </div>
+      {SECTION_LINES.map((lines, index) => (
+        <div key={index} className={cn("flex gap-[6%]", !side && "flex-col gap-1")}>
+          {side ? (
+            <div className="w-1/5 flex flex-col gap-1 items-end">
+              <div className="h-1 w-full rounded-sm" style={{ backgroundColor: accent, opacity: 0.6 }} />
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <div className="h-1.5 w-1/3 rounded-sm" style={{ backgroundColor: accent }} />
+              {sections === "rule" && <div className="h-px flex-1" style={{ backgroundColor: accent, opacity: 0.5 }} />}
+            </div>
+          )}
+          <div className="flex-1 flex flex-col gap-1">
+            {side && <div className="h-1.5 w-1/3 rounded-sm" style={{ backgroundColor: accent }} />}
+            {lines.map((width, line) => (
+              <div key={line} className="h-1 rounded-sm bg-slate-200" style={{ width: `${width}%` }} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default TemplateThumbnail;
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { encryptText, decryptText } from "../lib/crypto";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
@@ -6,18 +7,88 @@ import { Button } from "./ui/button";
 import { Textarea } from "./ui/textarea";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
-import { Badge } from "./ui/badge";
 import { Progress } from "./ui/progress";
 import { Separator } from "./ui/separator";
-import { Upload, Settings, Sparkles, Link as LinkIcon, Zap, Shield, Clock } from "lucide-react";
+import { Upload, Settings, Sparkles, Link as LinkIcon, Zap, Shield, Clock, Loader2, Briefcase, Target, Lock, Layers, AlertTriangle, FolderOpen, LayoutTemplate } from "lucide-react";
 import ResumeEditor from "./ResumeEditor";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import BatchTailor from "./BatchTailor";
+import CoverLetterCard from "./CoverLetterCard";
+import LatexCodeEditor, { type LatexCodeEditorHandle } from "./LatexCodeEditor";
+import ProviderSettings from "./ProviderSettings";
+import AtsReportCard from "./AtsReportCard";
+import SkillEditor from "./SkillEditor";
+import PresetPicker from "./PresetPicker";
+import PromptTemplateEditor from "./PromptTemplateEditor";
+import { PROVIDERS, createProvider, loadProviderConfig, saveProviderConfig, type ProviderConfig } from "../lib/llm";
+import { allBullets, parseResume, toPlainText } from "../lib/resume";
+import { cn } from "../lib/utils";
+import { lineOfOffset } from "../lib/resume/latex";
+import { compareResumes } from "../lib/ats";
+import { extractSkills, toAtsKeywords, type Skill } from "../lib/skills";
+import {
+  BUILT_IN_PRESETS,
+  findPreset,
+  loadActivePresetId,
+  loadCustomPresets,
+  saveActivePresetId,
+  saveCustomPresets,
+  type TailoringPreset,
+} from "../lib/presets";
+import { getPromptTemplate } from "../lib/prompts";
+import type { BatchResult } from "../lib/batch";
+import { DEFAULT_LENGTH, DEFAULT_TONE, generateCoverLetter, type CoverLetter, type CoverLetterLength, type CoverLetterTone } from "../lib/coverLetter";
+import { tailorResume, type TailorProgress, type TailorResult } from "../lib/tailoring";
+import { JOB_SOURCE_LABELS, fetchJobPosting, formatJobPosting, type JobPosting } from "../lib/jobImport";
+import ResumeLibrary from "./ResumeLibrary";
+import LockPanel from "./LockPanel";
+import ImportReviewDialog from "./ImportReviewDialog";
+import TemplateGallery from "./TemplateGallery";
+import { IMPORT_ACCEPT, importResumeFile, type ResumeImport } from "../lib/importers";
+import { MAX_UPLOAD_BYTES, checkLatexText, decodeText, sniffUpload } from "../lib/upload";
+import type { ResumeTemplate } from "../lib/templates";
+import { collectDroppedFiles, flattenProject, projectFileCount, readFolderProject, readZipProject, type LatexProject, type LoadedProject } from "../lib/project";
+import type { LockedRange } from "../lib/locks";
+import {
+  clearLibrary,
+  listResumes,
+  listVersions,
+  migrateLegacyResume,
+  saveResume,
+  saveVersion,
+  updateResumeLocks,
+  updateVersion,
+  type BaseResume,
+  type ResumeVersion,
+} from "../lib/resumeLibrary";
+
+import { clearApplications, emptyApplication, listApplications } from "../lib/applications";
+import type { TrackerLocationState } from "./ApplicationTracker";
+
+const ACTIVE_RESUME_KEY = "resume_wizard_active_resume";
 
 function Home() {
+  const navigate = useNavigate();
   const [jobDescription, setJobDescription] = useState("");
   const [jobUrl, setJobUrl] = useState("");
+  const [jobTab, setJobTab] = useState<"description" | "url">("description");
+  const [isImportingJob, setIsImportingJob] = useState(false);
+  const [jobImportError, setJobImportError] = useState<string | null>(null);
+  const [importedJob, setImportedJob] = useState<JobPosting | null>(null);
   const [resumeFile, setResumeFile] = useState<File | null>(null);
-  const [lastSavedResume, setLastSavedResume] = useState<{ name: string; content: string; savedAt: number } | null>(null);
+  // The files behind originalContent when the resume is a multi-file project.
+  const [project, setProject] = useState<LatexProject | null>(null);
+  const [pendingImport, setPendingImport] = useState<ResumeImport | null>(null);
+  const [isImportingResume, setIsImportingResume] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Non-blocking notes about the last upload, such as an encoding conversion.
+  const [uploadNotes, setUploadNotes] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [library, setLibrary] = useState<BaseResume[]>([]);
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [activeResumeId, setActiveResumeId] = useState<string | null>(null);
+  // The saved version shown in the editor, if any.
+  const [openVersion, setOpenVersion] = useState<ResumeVersion | null>(null);
   const [persistEnabled, setPersistEnabled] = useState<boolean>(true);
   const [apiKey, setApiKey] = useState("");
   const [encryptedApiKey, setEncryptedApiKey] = useState<string | null>(null);
@@ -25,32 +96,220 @@ function Home() {
   const [isApiUnlocked, setIsApiUnlocked] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [extractedSkills, setExtractedSkills] = useState<string[]>([]);
+  const [tailorProgress, setTailorProgress] = useState<TailorProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const streamEditorRef = useRef<LatexCodeEditorHandle>(null);
+  const [extractedSkills, setExtractedSkills] = useState<Skill[]>([]);
+  // The job description the skills were extracted from.
+  const [skillsJob, setSkillsJob] = useState("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [tailoredContent, setTailoredContent] = useState("");
+  const [tailorResult, setTailorResult] = useState<TailorResult | null>(null);
   const [originalContent, setOriginalContent] = useState("");
+  // Regions of originalContent tailoring must not change.
+  const [locks, setLocks] = useState<LockedRange[]>([]);
   const [showEditor, setShowEditor] = useState(false);
-  const [tailoringStrength, setTailoringStrength] = useState<"light" | "medium" | "strong">("medium");
+  const [showBatch, setShowBatch] = useState(false);
+  const [coverLetterTone, setCoverLetterTone] = useState<CoverLetterTone>(DEFAULT_TONE);
+  const [coverLetterLength, setCoverLetterLength] = useState<CoverLetterLength>(DEFAULT_LENGTH);
+  // The last letter and the job description it was written for.
+  const [coverLetter, setCoverLetter] = useState<(CoverLetter & { jobDescription: string }) | null>(null);
+  const [isWritingLetter, setIsWritingLetter] = useState(false);
+  const [showCoverLetter, setShowCoverLetter] = useState(false);
+  const [customPresets, setCustomPresets] = useState<TailoringPreset[]>(() => loadCustomPresets());
+  const [activePresetId, setActivePresetId] = useState(() => loadActivePresetId());
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => loadProviderConfig());
+  const providerInfo = PROVIDERS[providerConfig.kind];
+
+  const allPresets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const activePreset = findPreset(allPresets, activePresetId);
+
+  const parsedResume = useMemo(() => (originalContent ? parseResume(originalContent) : null), [originalContent]);
+  const sectionTitles = useMemo(() => (parsedResume ? parsedResume.sections.map((section) => toPlainText(section.title)).filter(Boolean) : []), [parsedResume]);
+  const atsSkills = useMemo(() => toAtsKeywords(extractedSkills), [extractedSkills]);
+  // Local keyword scoring; the tailored score appears once a run has finished.
+  const atsComparison = useMemo(
+    () => (jobDescription.trim() && originalContent ? compareResumes(jobDescription, originalContent, tailoredContent || originalContent, atsSkills) : null),
+    [jobDescription, originalContent, tailoredContent, atsSkills],
+  );
+  const skillsAreStale = skillsJob !== "" && skillsJob !== jobDescription;
+  // Tailoring runs in two stages: the job is analyzed first so the skill list
+  // can be reviewed, and only then is the resume rewritten against it. After
+  // that the curated list is kept, even if emptied or the job text is edited,
+  // until the user re-analyzes.
+  const needsAnalysis = !skillsJob;
+
+  const handleProviderChange = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  };
+
+  const selectPreset = (id: string) => {
+    setActivePresetId(id);
+    saveActivePresetId(id);
+  };
+
+  const updateCustomPresets = (presets: TailoringPreset[]) => {
+    setCustomPresets(presets);
+    saveCustomPresets(presets);
+  };
+
+  const changeLocks = async (next: LockedRange[]) => {
+    setLocks(next);
+    if (!persistEnabled || !activeResumeId) return;
+    try {
+      await updateResumeLocks(activeResumeId, next);
+      await reloadLibrary();
+    } catch (err) {
+      // the locks still apply to this session
+    }
+  };
+
+  const reloadLibrary = async () => {
+    try {
+      const [resumes, allVersions] = await Promise.all([listResumes(), listVersions()]);
+      setLibrary(resumes);
+      setVersions(allVersions);
+      setActiveResumeId((id) => (id && resumes.some((r) => r.id === id) ? id : null));
+      return resumes;
+    } catch (err) {
+      // IndexedDB may be unavailable (e.g. some private browsing modes)
+      return [];
+    }
+  };
+
+  const selectResume = (resume: BaseResume) => {
+    setUploadError(null);
+    setUploadNotes([]);
+    try {
+      setResumeFile(new File([resume.content], resume.fileName, { type: "text/plain" }));
+    } catch (err) {
+      // Some environments may not support File constructor; silently ignore
+    }
+    setOriginalContent(resume.content);
+    setProject(resume.project || null);
+    setLocks(resume.locks || []);
+    setActiveResumeId(resume.id);
+    try { localStorage.setItem(ACTIVE_RESUME_KEY, resume.id); } catch (e) {}
+  };
+
+  const loadUploadedResume = async (file: File, text: string, fromProject: LatexProject | null = null) => {
+    setResumeFile(file);
+    setOriginalContent(text);
+    setProject(fromProject);
+    setLocks([]);
+    setActiveResumeId(null);
+    if (!persistEnabled) return;
+    try {
+      const name = fromProject ? fromProject.name : file.name.replace(/\.[^.]+$/, "");
+      const resume = await saveResume({ name, fileName: file.name, content: text, project: fromProject || undefined });
+      setActiveResumeId(resume.id);
+      setLocks(resume.locks || []);
+      localStorage.setItem(ACTIVE_RESUME_KEY, resume.id);
+      await reloadLibrary();
+    } catch (err) {
+      // ignore storage errors
+    }
+  };
+
+  // Uploads are checked (size, real file type, encoding, LaTeX sanity) before
+  // use; problems are shown in the upload card rather than in an alert.
+  const readUpload = async (read: () => Promise<void>) => {
+    setUploadError(null);
+    setUploadNotes([]);
+    setIsImportingResume(true);
+    try {
+      await read();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Could not read the resume");
+    } finally {
+      setIsImportingResume(false);
+    }
+  };
+
+  // Multi-file projects are tailored as one flattened source; the project
+  // is kept so the editor can write changes back to the right files.
+  const loadProject = async ({ project: loaded, notes }: LoadedProject) => {
+    const { source, included, warnings } = flattenProject(loaded);
+    const problem = checkLatexText(source);
+    if (problem) throw new Error(`${loaded.mainFile}: ${problem}`);
+    const summary = `Combined ${included.length + 1} .tex files from ${projectFileCount(loaded)} in ${loaded.name}, starting at ${loaded.mainFile}.`;
+    setUploadNotes([summary, ...warnings, ...notes]);
+    await loadUploadedResume(new File([source], loaded.mainFile.split("/").pop()!, { type: "text/plain" }), source, loaded);
+  };
+
+  const handleResumeFile = (file: File) =>
+    readUpload(async () => {
+      const kind = await sniffUpload(file);
+      if (kind === "zip") {
+        await loadProject(await readZipProject(file));
+        return;
+      }
+      // PDF, Word and Markdown resumes are converted and reviewed first.
+      if (kind !== "tex") {
+        setPendingImport(await importResumeFile(file, kind));
+        return;
+      }
+      const { text, notes } = decodeText(await file.arrayBuffer());
+      const problem = checkLatexText(text);
+      if (problem) throw new Error(`${file.name}: ${problem}`);
+      setUploadNotes(notes);
+      await loadUploadedResume(file, text);
+    });
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setResumeFile(file);
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string || "";
-        setOriginalContent(text);
-        try {
-          if (persistEnabled) {
-            const item = { name: file.name, content: text, savedAt: Date.now() };
-            localStorage.setItem("resume_wizard_last_resume", JSON.stringify(item));
-            setLastSavedResume(item);
-          }
-        } catch (err) {
-          // ignore localStorage errors
-        }
-      };
-      reader.readAsText(file);
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) handleResumeFile(file);
+  };
+
+  const handleFolderUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files || [])].map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+    e.target.value = "";
+    if (files.length) readUpload(async () => loadProject(await readFolderProject(files)));
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leaving into a child element of the drop zone.
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = [...e.dataTransfer.files];
+    if (files.length === 0) return;
+    // A folder, or several files such as a .tex and its .cls, is a project.
+    const entries = [...e.dataTransfer.items].map((item) => item.webkitGetAsEntry?.()).filter(Boolean);
+    if (files.length > 1 || entries.some((entry) => entry.isDirectory)) {
+      readUpload(async () => loadProject(await readFolderProject(await collectDroppedFiles(entries))));
+      return;
     }
+    handleResumeFile(files[0]);
+  };
+
+  const confirmImport = (tex: string) => {
+    const file = new File([tex], pendingImport!.fileName.replace(/\.[^.]+$/, ".tex"), { type: "text/plain" });
+    setPendingImport(null);
+    loadUploadedResume(file, tex);
+  };
+
+  // The re-rendered resume is saved as a new one, so the original stays in
+  // the library.
+  const applyTemplate = (tex: string, template: ResumeTemplate, fromSample: boolean) => {
+    setShowTemplates(false);
+    setUploadError(null);
+    setUploadNotes([]);
+    const base = fromSample ? "resume" : (resumeFile?.name || "resume.tex").replace(/\.[^.]+$/, "");
+    loadUploadedResume(new File([tex], `${base}-${template.id}.tex`, { type: "text/plain" }), tex);
   };
 
   useEffect(() => {
@@ -62,22 +321,16 @@ function Home() {
 
       if (!shouldPersist) return;
 
-      const raw = localStorage.getItem("resume_wizard_last_resume");
-      if (raw) {
-        const parsed = JSON.parse(raw) as { name: string; content: string; savedAt: number };
-        setLastSavedResume(parsed);
-        // If no file is currently uploaded, create a File from the saved content so the flow works
-        if (!resumeFile && parsed && parsed.content) {
-          try {
-            const f = new File([parsed.content], parsed.name, { type: "text/plain" });
-            setResumeFile(f);
-            setOriginalContent(parsed.content);
-          } catch (err) {
-            // Some environments may not support File constructor; silently ignore
-            setOriginalContent(parsed.content);
-          }
-        }
-      }
+      // Restore the library, bringing over a resume saved by older versions,
+      // and reselect the resume that was last in use.
+      const storedActiveId = localStorage.getItem(ACTIVE_RESUME_KEY);
+      migrateLegacyResume()
+        .catch(() => null)
+        .then(async (migrated) => {
+          const resumes = await reloadLibrary();
+          const active = resumes.find((r) => r.id === storedActiveId) || migrated || resumes[0];
+          if (active) selectResume(active);
+        });
 
       // Load persisted encrypted API key if present
       const storedEnc = localStorage.getItem("resume_wizard_api_key_enc");
@@ -92,16 +345,96 @@ function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const clearLastSavedResume = () => {
+  const openSavedVersion = (version: ResumeVersion) => {
+    const base = library.find((r) => r.id === version.baseId);
+    if (base) selectResume(base);
+    setOpenVersion(version);
+    setTailorResult(null);
+    setTailoredContent(version.content);
+    setShowEditor(true);
+  };
+
+  // Opens the tracker with an entry pre-filled from the current job and the
+  // exact document being sent.
+  const trackApplication = (texCode: string) => {
+    const job = openVersion?.job || { title: importedJob?.title, company: importedJob?.company, url: importedJob?.url, description: jobDescription };
+    const state: TrackerLocationState = {
+      draft: {
+        ...emptyApplication(),
+        company: job.company || "",
+        role: job.title || "",
+        jobUrl: job.url || jobUrl,
+        jobDescription: job.description,
+        versionId: openVersion?.id,
+        texCode,
+      },
+    };
+    navigate("/applications", { state });
+  };
+
+  const saveOpenVersion = async (content: string) => {
+    if (!openVersion) return;
+    const updated = await updateVersion(openVersion.id, { content });
+    setOpenVersion(updated);
+    await reloadLibrary();
+  };
+
+  // Fetches the posting behind jobUrl and fills the description textarea so
+  // the user can review it before tailoring.
+  const importJobFromUrl = async () => {
+    if (!jobUrl.trim()) return null;
+    setIsImportingJob(true);
+    setJobImportError(null);
     try {
-      localStorage.removeItem("resume_wizard_last_resume");
-      localStorage.removeItem("resume_wizard_api_key_enc");
-    } catch (err) {
-      // ignore
+      const posting = await fetchJobPosting(jobUrl);
+      const text = formatJobPosting(posting);
+      setImportedJob(posting);
+      setJobDescription(text);
+      setJobTab("description");
+      return text;
+    } catch (err: any) {
+      setJobImportError(err?.message || String(err));
+      return null;
+    } finally {
+      setIsImportingJob(false);
     }
-    setLastSavedResume(null);
-    setResumeFile(null);
-    setOriginalContent("");
+  };
+
+  const checkProvider = () => {
+    if (providerInfo.requiresApiKey && !apiKey) {
+      alert(`Please provide your ${providerInfo.label} API key in Settings`);
+      return false;
+    }
+    return true;
+  };
+
+  const runSkillExtraction = async (signal?: AbortSignal) => {
+    const provider = createProvider({ ...providerConfig, apiKey });
+    const skills = await extractSkills({ provider, jobDescription, promptTemplate: getPromptTemplate("skills"), signal });
+    setExtractedSkills(skills);
+    setSkillsJob(jobDescription);
+    return skills;
+  };
+
+  // Extracts the job's skills on their own so they can be reviewed and
+  // edited before tailoring.
+  const analyzeJob = async () => {
+    if (!jobDescription.trim() || !checkProvider()) return;
+    setIsAnalyzing(true);
+    try {
+      await runSkillExtraction();
+    } catch (error) {
+      console.error("Error analyzing job:", error);
+      alert("Error: " + (error instanceof Error ? error.message : "Failed to analyze the job description."));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Re-extracting replaces the reviewed list, edits included.
+  const reanalyzeJob = async () => {
+    if (extractedSkills.length > 0 && !confirm("Re-analyzing replaces the skills below, including your edits. Continue?")) return;
+    await analyzeJob();
   };
 
   const handleTailorResume = async () => {
@@ -109,126 +442,192 @@ function Home() {
       alert("Please provide a job description or URL");
       return;
     }
+    // A URL alone is imported first; the user reviews the result and runs again.
+    if (!jobDescription && jobUrl) {
+      await importJobFromUrl();
+      return;
+    }
     if (!(resumeFile || originalContent)) {
       alert("Please upload your resume");
       return;
     }
-    if (!apiKey) {
-      alert("Please provide your Gemini API key in Settings");
+    if (!checkProvider()) return;
+    // Likewise the skills are extracted first and reviewed before tailoring.
+    if (needsAnalysis) {
+      await analyzeJob();
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
-    setProgress(10);
+    setProgress(0);
+    setTailorProgress(null);
 
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-
-      // Choose a model dynamically when possible. Many users see 404 for
-      // hard-coded model names because their API/account doesn't have access
-      // to that specific model or the API version differs. Try to list
-      // available models and pick a Gemini model or any model that supports
-      // generateContent. Fall back to the original value if listing fails.
-      const defaultModelFromEnv = (import.meta as any).env?.VITE_GA_MODEL || "gemini-2.5-flash";
-      let chosenModelName: string = defaultModelFromEnv;
-      try {
-        if (typeof (genAI as any).listModels === "function") {
-          const listResp = await (genAI as any).listModels();
-          const modelsArr = Array.isArray(listResp)
-            ? listResp
-            : (listResp && (listResp.models || listResp.model || []));
-
-          if (Array.isArray(modelsArr) && modelsArr.length > 0) {
-            // Look for a gemini model that supports generateContent
-            const found = modelsArr.find((m: any) => {
-              const name = m.name || m.model || "";
-              const methods = m.supportedMethods || m.methods || [];
-              return /gemini/i.test(name) && (methods.includes("generateContent") || methods.includes("generate"));
-            });
-            if (found) {
-              chosenModelName = found.name || found.model;
-            } else {
-              // fallback: first model that advertises generateContent
-              const anyGen = modelsArr.find((m: any) => (m.supportedMethods || m.methods || []).includes("generateContent"));
-              if (anyGen) chosenModelName = anyGen.name || anyGen.model;
-            }
-          }
-        }
-      } catch (listErr) {
-        // Keep the original fallback and log the listing error. The 404
-        // likely comes from using a model not available for your API key.
-        // We'll continue with the chosenModelName fallback.
-        // eslint-disable-next-line no-console
-        console.warn("Could not list models:", listErr);
-      }
+      const provider = createProvider({ ...providerConfig, apiKey });
 
-      const model = genAI.getGenerativeModel({ model: chosenModelName });
-
-      setProgress(20);
-
-      // Extract skills from job description
-      const skillsPrompt = `Extract the key skills, technologies, and requirements from this job description. Return ONLY a comma-separated list of skills, nothing else:\n\n${jobDescription}`;
-      
-      const skillsResult = await model.generateContent(skillsPrompt);
-      const skillsText = skillsResult.response.text();
-      const skills = skillsText.split(',').map(s => s.trim()).filter(s => s.length > 0).slice(0, 10);
-      setExtractedSkills(skills);
-      
-      setProgress(40);
-
-      // Tailor the resume
-      const strengthInstructions = {
-        light: "Make minimal, subtle changes to better align with the job requirements. Keep most of the original content intact.",
-        medium: "Make moderate changes to highlight relevant experience and skills. Reword bullet points to match job requirements while maintaining authenticity.",
-        strong: "Significantly optimize the resume for ATS and job requirements. Rewrite sections to strongly emphasize matching qualifications and use keywords from the job description."
-      };
-
-      const tailorPrompt = `You are an expert resume writer specializing in ATS-friendly resumes. 
-
-JOB DESCRIPTION:
-${jobDescription}
-
-ORIGINAL RESUME (LaTeX):
-${originalContent}
-
-INSTRUCTIONS:
-${strengthInstructions[tailoringStrength]}
-
-Your task:
-1. Analyze the job description and identify key requirements, skills, and keywords
-2. Modify the ORIGINAL resume to better match the job requirements
-3. Make it ATS-friendly by incorporating relevant keywords naturally
-4. Maintain the LaTeX formatting and structure from the original
-5. Keep all personal information (name, contact, etc.) exactly as in the original
-6. Return ONLY the modified LaTeX code, nothing else - no explanations, no markdown formatting
-
-IMPORTANT: Return the complete LaTeX document with all sections, properly formatted.`;
-
-      setProgress(60);
-
-      const result = await model.generateContent(tailorPrompt);
-      const tailoredTex = result.response.text();
-      
-      // Clean up the response - remove markdown code blocks if present
-      let cleanedTex = tailoredTex.trim();
-      if (cleanedTex.startsWith('```')) {
-        cleanedTex = cleanedTex.replace(/```latex\n?/g, '').replace(/```\n?/g, '');
+      // The model returns per-bullet rewrites as JSON, which are validated and
+      // applied to the parsed source rather than trusting free-form LaTeX.
+      // The reviewed skills steer which keywords it works in, and the preset's
+      // limits are checked again on the reply. Progress follows
+      // how far through the resume's bullets the stream is.
+      const result = await tailorResume({
+        provider,
+        source: originalContent,
+        jobDescription,
+        instructions: activePreset.instructions,
+        skills: extractedSkills,
+        temperature: activePreset.temperature,
+        constraints: { editableSections: activePreset.editableSections, maxBulletLength: activePreset.maxBulletLength, locks },
+        promptTemplate: getPromptTemplate("tailor"),
+        signal: controller.signal,
+        onProgress: (update) => {
+          setTailorProgress(update);
+          setProgress(Math.round(update.fraction * 99));
+        },
+      });
+
+      setTailorResult(result);
+      setTailoredContent(result.content);
+      setOpenVersion(null);
+      if (persistEnabled && activeResumeId) {
+        try {
+          const version = await saveVersion({
+            baseId: activeResumeId,
+            content: result.content,
+            baseContent: originalContent,
+            job: { title: importedJob?.title, company: importedJob?.company, url: importedJob?.url, description: jobDescription },
+          });
+          setOpenVersion(version);
+          await reloadLibrary();
+        } catch (err) {
+          // the result is still shown; it just isn't saved
+        }
       }
-      
-      setTailoredContent(cleanedTex);
       setProgress(100);
       setIsProcessing(false);
       setShowEditor(true);
     } catch (error) {
-      console.error("Error tailoring resume:", error);
-      alert("Error: " + (error instanceof Error ? error.message : "Failed to tailor resume. Please check your API key and try again."));
       setIsProcessing(false);
       setProgress(0);
+      if (controller.signal.aborted) return;
+      console.error("Error tailoring resume:", error);
+      alert("Error: " + (error instanceof Error ? error.message : "Failed to tailor resume. Please check your API key and try again."));
+    } finally {
+      abortRef.current = null;
+      setTailorProgress(null);
     }
   };
 
+  const cancelTailoring = () => abortRef.current?.abort();
+
+  const openBatch = () => {
+    if (!originalContent) {
+      alert("Please upload your resume");
+      return;
+    }
+    if (checkProvider()) setShowBatch(true);
+  };
+
+  const writeCoverLetter = async () => {
+    if (!jobDescription.trim()) {
+      alert("Please provide a job description");
+      return;
+    }
+    if (!originalContent) {
+      alert("Please upload your resume");
+      return;
+    }
+    if (!checkProvider()) return;
+    setIsWritingLetter(true);
+    try {
+      const letter = await generateCoverLetter({
+        provider: createProvider({ ...providerConfig, apiKey }),
+        source: originalContent,
+        jobDescription,
+        tone: coverLetterTone,
+        length: coverLetterLength,
+        skills: extractedSkills,
+        recipient: { company: importedJob?.company, title: importedJob?.title },
+        promptTemplate: getPromptTemplate("coverLetter"),
+      });
+      setCoverLetter({ ...letter, jobDescription });
+      setShowCoverLetter(true);
+    } catch (error) {
+      console.error("Error writing cover letter:", error);
+      alert("Error: " + (error instanceof Error ? error.message : "Failed to write the cover letter."));
+    } finally {
+      setIsWritingLetter(false);
+    }
+  };
+
+  const saveBatchResult = async (result: BatchResult) => {
+    await saveVersion({
+      baseId: activeResumeId!,
+      content: result.content!,
+      baseContent: originalContent,
+      job: { title: result.title, company: result.company, url: result.job.url, description: result.description },
+    });
+    await reloadLibrary();
+  };
+
+  // Keep the bullet being rewritten in view in the live preview.
+  const streamingId = tailorProgress?.currentId;
+  useEffect(() => {
+    const bullet = streamingId && parsedResume ? allBullets(parsedResume).find((b) => b.id === streamingId) : undefined;
+    if (bullet?.span) streamEditorRef.current?.goToLine(lineOfOffset(originalContent, bullet.span.start), 1, false);
+  }, [streamingId, parsedResume, originalContent]);
+
+  if (showBatch) {
+    return (
+      <BatchTailor
+        settings={{
+          source: originalContent,
+          instructions: activePreset.instructions,
+          temperature: activePreset.temperature,
+          constraints: { editableSections: activePreset.editableSections, maxBulletLength: activePreset.maxBulletLength, locks },
+          tailorTemplate: getPromptTemplate("tailor"),
+          skillsTemplate: getPromptTemplate("skills"),
+        }}
+        resumeName={library.find((r) => r.id === activeResumeId)?.name || resumeFile?.name || "resume"}
+        presetName={activePreset.name}
+        providerLabel={providerInfo.label}
+        createProvider={() => createProvider({ ...providerConfig, apiKey })}
+        onSaveVersion={persistEnabled && activeResumeId ? saveBatchResult : undefined}
+        onBack={() => setShowBatch(false)}
+      />
+    );
+  }
+
+  if (showCoverLetter && coverLetter) {
+    return (
+      <ResumeEditor
+        kind="coverLetter"
+        texCode={coverLetter.tex}
+        originalTexCode={originalContent}
+        jobDescription={coverLetter.jobDescription}
+        skills={atsSkills}
+        factSupport={`${coverLetter.jobDescription}\n${coverLetter.frame}`}
+        onBack={() => setShowCoverLetter(false)}
+      />
+    );
+  }
+
   if (showEditor) {
-    return <ResumeEditor texCode={tailoredContent} originalTexCode={originalContent} onBack={() => setShowEditor(false)} />;
+    return (
+      <ResumeEditor
+        texCode={tailoredContent}
+        originalTexCode={openVersion ? openVersion.baseContent : originalContent}
+        project={openVersion ? library.find((r) => r.id === openVersion.baseId)?.project : project}
+        changes={tailorResult}
+        onSave={openVersion ? saveOpenVersion : undefined}
+        onTrack={persistEnabled ? trackApplication : undefined}
+        jobDescription={openVersion ? openVersion.job.description : jobDescription}
+        skills={atsSkills}
+        onBack={() => setShowEditor(false)}
+      />
+    );
   }
 
   return (
@@ -262,6 +661,10 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
               <Shield className="w-4 h-4 text-green-600" />
               <span className="text-sm font-medium text-slate-700">Secure & Private</span>
             </div>
+            <Link to="/applications" className="flex items-center gap-2 px-4 py-2 bg-white rounded-full shadow-sm border border-blue-200 hover:bg-blue-50 transition-colors">
+              <Briefcase className="w-4 h-4 text-purple-600" />
+              <span className="text-sm font-medium text-slate-700">My Applications</span>
+            </Link>
           </div>
         </div>
 
@@ -274,12 +677,22 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                 <CardDescription>Paste the job description or provide a URL to get started</CardDescription>
               </CardHeader>
               <CardContent className="pt-6">
-                <Tabs defaultValue="description" className="w-full">
+                <Tabs value={jobTab} onValueChange={(v) => setJobTab(v as "description" | "url")} className="w-full">
                   <TabsList className="grid w-full grid-cols-2 mb-4">
                     <TabsTrigger value="description">Job Description</TabsTrigger>
                     <TabsTrigger value="url">Job URL</TabsTrigger>
                   </TabsList>
                   <TabsContent value="description" className="space-y-4">
+                    {importedJob && (
+                      <div className="flex items-center justify-between text-xs text-slate-600 bg-slate-50 p-2 rounded-md border border-slate-200">
+                        <span className="truncate">
+                          Imported from <span className="font-medium">{JOB_SOURCE_LABELS[importedJob.source]}</span> • {importedJob.url}
+                        </span>
+                        <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setImportedJob(null)}>
+                          Dismiss
+                        </Button>
+                      </div>
+                    )}
                     <Textarea
                       placeholder="Paste the complete job description here... Include requirements, responsibilities, and qualifications."
                       className="min-h-[240px] resize-none"
@@ -293,15 +706,20 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                         placeholder="https://example.com/job-posting"
                         value={jobUrl}
                         onChange={(e) => setJobUrl(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") importJobFromUrl(); }}
                         className="flex-1"
                       />
-                      <Button variant="outline" size="icon">
-                        <LinkIcon className="w-4 h-4" />
+                      <Button variant="outline" size="icon" onClick={importJobFromUrl} disabled={isImportingJob || !jobUrl.trim()} title="Import job description">
+                        {isImportingJob ? <Loader2 className="w-4 h-4 animate-spin" /> : <LinkIcon className="w-4 h-4" />}
                       </Button>
                     </div>
-                    <p className="text-xs text-slate-500">
-                      We'll automatically extract the job description from the URL
-                    </p>
+                    {jobImportError ? (
+                      <p className="text-xs text-red-600">{jobImportError}</p>
+                    ) : (
+                      <p className="text-xs text-slate-500">
+                        We'll extract the job description from the URL and fill it in for you to review
+                      </p>
+                    )}
                   </TabsContent>
                 </Tabs>
               </CardContent>
@@ -310,13 +728,22 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
             <Card className="shadow-lg border-slate-200">
               <CardHeader className="bg-gradient-to-r from-blue-50 to-purple-50">
                 <CardTitle className="text-xl">Upload Resume</CardTitle>
-                <CardDescription>Upload your base LaTeX resume file (.tex)</CardDescription>
+                <CardDescription>Upload your base LaTeX resume (.tex or a zipped project), or import a PDF, Word or Markdown resume</CardDescription>
               </CardHeader>
               <CardContent className="pt-6">
-                <div className="border-2 border-dashed border-slate-300 rounded-xl p-12 text-center hover:border-blue-400 hover:bg-blue-50/50 transition-all cursor-pointer group">
+                <div
+                  onDragOver={handleDragOver}
+                  onDragEnter={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  className={cn(
+                    "border-2 border-dashed rounded-xl p-12 text-center hover:border-blue-400 hover:bg-blue-50/50 transition-all cursor-pointer group",
+                    isDragging ? "border-blue-500 bg-blue-50" : uploadError ? "border-red-300" : "border-slate-300",
+                  )}
+                >
                   <Input
                     type="file"
-                    accept=".tex"
+                    accept={`.tex,.zip,${IMPORT_ACCEPT}`}
                     onChange={handleFileUpload}
                     className="hidden"
                     id="resume-upload"
@@ -326,91 +753,213 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                       <Upload className="w-8 h-8 text-blue-600" />
                     </div>
                     <p className="text-base font-medium text-slate-700 mb-2">
-                      {resumeFile ? (
-                        <span className="text-blue-600">{resumeFile.name}</span>
+                      {isImportingResume ? (
+                        <span className="inline-flex items-center gap-2 text-blue-600">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Reading resume...
+                        </span>
+                      ) : isDragging ? (
+                        <span className="text-blue-600">Drop your resume here</span>
+                      ) : resumeFile ? (
+                        <span className="text-blue-600">
+                          {project ? `${project.name} (${projectFileCount(project)} files)` : resumeFile.name}
+                        </span>
                       ) : (
                         "Click to upload or drag and drop"
                       )}
                     </p>
-                    <p className="text-sm text-slate-500">LaTeX files (.tex) only • Max 10MB</p>
+                    <p className="text-sm text-slate-500">
+                      LaTeX (.tex or .zip project), PDF, Word (.docx) or Markdown (.md) • Max {MAX_UPLOAD_BYTES / (1024 * 1024)}MB
+                    </p>
                   </label>
                 </div>
-                {lastSavedResume && (
-                  <div className="mt-4 text-sm text-slate-600 text-left max-w-xl mx-auto">
-                    <div className="flex items-center justify-between bg-slate-50 p-3 rounded-md border border-slate-200">
-                      <div>
-                        <div className="font-medium text-slate-800">Last saved resume</div>
-                        <div className="text-xs text-slate-500">{lastSavedResume.name} • {new Date(lastSavedResume.savedAt).toLocaleString()}</div>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Button size="sm" variant="outline" onClick={() => {
-                          // Re-create File and set as current
-                          try {
-                            const f = new File([lastSavedResume.content], lastSavedResume.name, { type: "text/plain" });
-                            setResumeFile(f);
-                          } catch (err) {
-                            // ignore
-                          }
-                          setOriginalContent(lastSavedResume.content);
-                        }}>
-                          Use Saved
-                        </Button>
-                        <Button size="sm" variant="ghost" onClick={clearLastSavedResume}>
-                          Clear
-                        </Button>
-                      </div>
-                    </div>
+                <div className="mt-2 flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
+                  <input
+                    type="file"
+                    multiple
+                    onChange={handleFolderUpload}
+                    className="hidden"
+                    id="project-upload"
+                    {...({ webkitdirectory: "" } as React.InputHTMLAttributes<HTMLInputElement>)}
+                  />
+                  <label htmlFor="project-upload" className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline cursor-pointer">
+                    <FolderOpen className="w-3 h-3" />
+                    Or choose a project folder (main .tex with \input files and a custom .cls)
+                  </label>
+                  <button type="button" onClick={() => setShowTemplates(true)} className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline">
+                    <LayoutTemplate className="w-3 h-3" />
+                    {originalContent ? "Change template" : "Start from a template"}
+                  </button>
+                </div>
+                {uploadError && (
+                  <div role="alert" className="mt-3 flex items-start gap-2 text-sm text-red-700 bg-red-50 p-3 rounded-md border border-red-200">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>{uploadError}</span>
                   </div>
                 )}
+                {uploadNotes.length > 0 && !uploadError && (
+                  <p className="mt-3 text-xs text-amber-700 text-center">{uploadNotes.join(" ")}</p>
+                )}
+                {parsedResume && (
+                  <p className="mt-3 text-xs text-slate-500 text-center">
+                    Recognised {parsedResume.contact.name ? <span className="font-medium text-slate-700">{parsedResume.contact.name}</span> : "resume"}
+                    {" • "}{parsedResume.sections.length} sections • {allBullets(parsedResume).length} bullets
+                  </p>
+                )}
+                {persistEnabled && (
+                  <ResumeLibrary
+                    resumes={library}
+                    versions={versions}
+                    activeId={activeResumeId}
+                    onUse={selectResume}
+                    onOpenVersion={openSavedVersion}
+                    onChanged={reloadLibrary}
+                  />
+                )}
+                <ImportReviewDialog imported={pendingImport} onCancel={() => setPendingImport(null)} onConfirm={confirmImport} />
+                <TemplateGallery open={showTemplates} source={originalContent} onCancel={() => setShowTemplates(false)} onUse={applyTemplate} />
               </CardContent>
             </Card>
 
+            {parsedResume && (
+              <Card className="shadow-lg border-slate-200">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Lock className="w-4 h-4 text-slate-600" />
+                    Locked Regions
+                    {locks.length > 0 && <span className="text-sm font-normal text-slate-500">({locks.length})</span>}
+                  </CardTitle>
+                  <CardDescription>
+                    Tailoring never changes locked parts of your resume. Anything the model still changes there is restored and reported.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <LockPanel resume={parsedResume} locks={locks} onChange={changeLocks} disabled={isProcessing} />
+                </CardContent>
+              </Card>
+            )}
+
             {isProcessing && (
               <Card className="shadow-lg border-blue-200 bg-blue-50/50">
                 <CardContent className="pt-6">
                   <div className="space-y-3">
-                    <div className="flex justify-between text-sm font-medium">
-                      <span className="text-blue-900">Processing with Gemini AI...</span>
-                      <span className="text-blue-600">{progress}%</span>
+                    <div className="flex justify-between items-center text-sm font-medium">
+                      <span className="text-blue-900">Processing with {providerInfo.label}...</span>
+                      <div className="flex items-center gap-3">
+                        <span className="text-blue-600">{progress}%</span>
+                        <Button size="sm" variant="outline" onClick={cancelTailoring}>
+                          Cancel
+                        </Button>
+                      </div>
                     </div>
                     <Progress value={progress} className="h-2" />
                     <p className="text-xs text-blue-700">
-                      Analyzing job requirements and tailoring your resume...
+                      {!tailorProgress
+                        ? "Waiting for the model..."
+                        : `${tailorProgress.currentId ? `Rewriting ${tailorProgress.currentId}` : "Reviewing bullets"} • ${tailorProgress.rewritten} rewritten so far of ${tailorProgress.totalBullets} bullets${tailorProgress.attempt > 1 ? ` • attempt ${tailorProgress.attempt}` : ""}`}
                     </p>
+                    {tailorProgress && (
+                      <div className="h-72 rounded-md overflow-hidden border border-blue-200">
+                        <LatexCodeEditor ref={streamEditorRef} value={tailorProgress.preview} readOnly />
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             )}
 
-            {extractedSkills.length > 0 && !showEditor && (
+            {skillsJob && !showEditor && (
               <Card className="shadow-lg border-green-200 bg-green-50/50">
                 <CardHeader>
-                  <CardTitle className="text-lg text-green-900">Extracted Key Skills</CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg text-green-900">Extracted Key Skills</CardTitle>
+                    {!skillsAreStale && (
+                      <Button size="sm" variant="ghost" className="h-7 text-xs text-green-800" onClick={reanalyzeJob} disabled={isAnalyzing || isProcessing}>
+                        {isAnalyzing ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Target className="w-3 h-3 mr-1" />}
+                        Re-analyze
+                      </Button>
+                    )}
+                  </div>
                   <CardDescription className="text-green-700">
-                    Skills and requirements identified from the job posting
+                    Review these before tailoring: they are the keywords the rewrite will target. Click a skill to switch between
+                    required and preferred, pin the ones to emphasise, and remove any you can't back up.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {skillsAreStale && (
+                    <div className="flex items-center justify-between text-xs text-amber-800 bg-amber-50 p-2 rounded-md border border-amber-200">
+                      <span>The job description changed since these skills were extracted; tailoring will use them as they are.</span>
+                      <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={reanalyzeJob} disabled={isAnalyzing || isProcessing}>
+                        Re-analyze
+                      </Button>
+                    </div>
+                  )}
+                  <SkillEditor skills={extractedSkills} onChange={setExtractedSkills} disabled={isProcessing} />
+                </CardContent>
+              </Card>
+            )}
+
+            {atsComparison && !isProcessing && (
+              <Card className="shadow-lg border-slate-200">
+                <CardHeader>
+                  <CardTitle className="text-lg">ATS Keyword Match</CardTitle>
+                  <CardDescription>
+                    How well {tailoredContent ? "your original and tailored resumes cover" : "your resume covers"} the job's keywords, scored locally
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {extractedSkills.map((skill, index) => (
-                      <Badge key={index} variant="secondary" className="bg-white border-green-300 text-green-800 px-3 py-1">
-                        {skill}
-                      </Badge>
-                    ))}
-                  </div>
+                  <AtsReportCard before={atsComparison.before} after={tailoredContent ? atsComparison.after : undefined} />
                 </CardContent>
               </Card>
             )}
 
             <Button
               onClick={handleTailorResume}
-              disabled={isProcessing || !(resumeFile || originalContent) || (!jobDescription && !jobUrl)}
+              disabled={isProcessing || isAnalyzing || isImportingJob || !(resumeFile || originalContent) || (!jobDescription && !jobUrl)}
               className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 shadow-lg"
               size="lg"
             >
-              <Sparkles className="w-5 h-5 mr-2" />
-              {isProcessing ? "Tailoring Resume..." : "Tailor Resume with AI"}
+              {isAnalyzing ? (
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              ) : !jobDescription && jobUrl ? (
+                <Sparkles className="w-5 h-5 mr-2" />
+              ) : needsAnalysis ? (
+                <Target className="w-5 h-5 mr-2" />
+              ) : (
+                <Sparkles className="w-5 h-5 mr-2" />
+              )}
+              {isProcessing
+                ? "Tailoring Resume..."
+                : isAnalyzing
+                  ? "Analyzing Job..."
+                  : !jobDescription && jobUrl
+                    ? "Import Job Description"
+                    : needsAnalysis
+                      ? "Analyze Job"
+                      : "Tailor Resume with AI"}
             </Button>
+            {!needsAnalysis && !isProcessing && (
+              <p className="text-xs text-center text-slate-500">
+                {extractedSkills.length > 0
+                  ? `Tailoring will target the ${extractedSkills.length} skills above${extractedSkills.some((skill) => skill.pinned) ? ", pinned ones first" : ""}.`
+                  : "No skills are selected, so tailoring will use the job description's own keywords."}
+              </p>
+            )}
+            <Button variant="outline" onClick={openBatch} disabled={isProcessing || isAnalyzing || !originalContent} className="w-full">
+              <Layers className="w-4 h-4 mr-2" />
+              Batch Mode: Tailor for Many Jobs
+            </Button>
+
+            <CoverLetterCard
+              tone={coverLetterTone}
+              length={coverLetterLength}
+              onToneChange={setCoverLetterTone}
+              onLengthChange={setCoverLetterLength}
+              onGenerate={writeCoverLetter}
+              onOpen={coverLetter && coverLetter.jobDescription === jobDescription ? () => setShowCoverLetter(true) : undefined}
+              isGenerating={isWritingLetter}
+              disabled={isProcessing || !jobDescription.trim() || !originalContent}
+            />
           </div>
 
           {/* Enhanced Sidebar */}
@@ -423,8 +972,14 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                 </CardTitle>
               </CardHeader>
               <CardContent className="pt-6 space-y-6">
+                <ProviderSettings config={providerConfig} apiKey={apiKey} onChange={handleProviderChange} />
+
+                <Separator />
+
                 <div className="space-y-2">
-                  <Label htmlFor="api-key" className="text-sm font-semibold">Gemini API Key</Label>
+                  <Label htmlFor="api-key" className="text-sm font-semibold">
+                    {providerInfo.acceptsApiKey ? `${providerInfo.label} API Key` : "API Key"}
+                  </Label>
                   <Input
                     id="api-key"
                     type="password"
@@ -516,17 +1071,35 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                       id="persist-toggle"
                       type="checkbox"
                       checked={persistEnabled}
-                      onChange={(e) => {
+                      onChange={async (e) => {
                         const v = e.target.checked;
+                        if (!v) {
+                          // Applications are only loaded on their own page, so count them here.
+                          const applications = await listApplications().catch(() => []);
+                          const stored = [
+                            library.length > 0 && `${library.length} saved resumes with their tailored versions`,
+                            applications.length > 0 && `${applications.length} tracked applications`,
+                          ].filter(Boolean);
+                          if (stored.length > 0 && !confirm(`Disabling persistence deletes ${stored.join(" and ")} from this browser. Continue?`)) return;
+                        }
                         setPersistEnabled(v);
                         try {
                           if (v) localStorage.setItem("resume_wizard_persistence", '1');
                           else localStorage.setItem("resume_wizard_persistence", '0');
                           if (!v) {
-                            // clear stored resume/key when disabling persistence
-                            try { localStorage.removeItem("resume_wizard_last_resume"); } catch (e) {}
+                            // clear stored resumes/key when disabling persistence
+                            try { localStorage.removeItem(ACTIVE_RESUME_KEY); } catch (e) {}
                             try { localStorage.removeItem("resume_wizard_api_key_enc"); } catch (e) {}
-                            setLastSavedResume(null);
+                            clearLibrary().catch(() => undefined);
+                            clearApplications().catch(() => undefined);
+                            setLibrary([]);
+                            setVersions([]);
+                            setActiveResumeId(null);
+                            setOpenVersion(null);
+                          } else if (originalContent) {
+                            saveResume({ name: (resumeFile?.name || "Resume").replace(/\.tex$/i, ""), fileName: resumeFile?.name || "resume.tex", content: originalContent })
+                              .then((resume) => { selectResume(resume); return reloadLibrary(); })
+                              .catch(() => undefined);
                           }
                         } catch (err) {
                           // ignore
@@ -536,55 +1109,36 @@ IMPORTANT: Return the complete LaTeX document with all sections, properly format
                     />
                     <label htmlFor="persist-toggle" className="text-xs text-slate-600">Enable local persistence (resume & API key)</label>
                   </div>
-                  <p className="text-xs text-slate-500 leading-relaxed">
-                    Get your free API key from{" "}
-                    <a 
-                      href="https://makersuite.google.com/app/apikey" 
-                      target="_blank" 
-                      rel="noopener noreferrer" 
-                      className="text-blue-600 hover:underline font-medium"
-                    >
-                      Google AI Studio
-                    </a>
-                  </p>
+                  {!providerInfo.acceptsApiKey && (
+                    <p className="text-xs text-slate-500">
+                      {providerInfo.label} does not need an API key. A key saved here is kept for other providers.
+                    </p>
+                  )}
+                  {providerConfig.kind === "gemini" && (
+                    <p className="text-xs text-slate-500 leading-relaxed">
+                      Get your free API key from{" "}
+                      <a 
+                        href="https://makersuite.google.com/app/apikey" 
+                        target="_blank" 
+                        rel="noopener noreferrer" 
+                        className="text-blue-600 hover:underline font-medium"
+                      >
+                        Google AI Studio
+                      </a>
+                    </p>
+                  )}
                 </div>
                 
                 <Separator />
                 
-                <div className="space-y-3">
-                  <Label className="text-sm font-semibold">Tailoring Strength</Label>
-                  <div className="grid grid-cols-3 gap-2">
-                    <Button 
-                      variant={tailoringStrength === "light" ? "default" : "outline"} 
-                      size="sm"
-                      onClick={() => setTailoringStrength("light")}
-                      className="text-xs"
-                    >
-                      Light
-                    </Button>
-                    <Button 
-                      variant={tailoringStrength === "medium" ? "default" : "outline"} 
-                      size="sm"
-                      onClick={() => setTailoringStrength("medium")}
-                      className="text-xs"
-                    >
-                      Medium
-                    </Button>
-                    <Button 
-                      variant={tailoringStrength === "strong" ? "default" : "outline"} 
-                      size="sm"
-                      onClick={() => setTailoringStrength("strong")}
-                      className="text-xs"
-                    >
-                      Strong
-                    </Button>
-                  </div>
-                  <p className="text-xs text-slate-500">
-                    {tailoringStrength === "light" && "Subtle adjustments to match job requirements"}
-                    {tailoringStrength === "medium" && "Balanced customization with key optimizations"}
-                    {tailoringStrength === "strong" && "Comprehensive tailoring for maximum impact"}
-                  </p>
-                </div>
+                <PresetPicker
+                  presets={allPresets}
+                  active={activePreset}
+                  sectionTitles={sectionTitles}
+                  onSelect={selectPreset}
+                  onCustomChange={updateCustomPresets}
+                />
+                <PromptTemplateEditor />
               </CardContent>
             </Card>
 
@@ -14,13 +14,28 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
+interface DatePickerWithRangeProps
+  extends React.HTMLAttributes<HTMLDivElement> {
+  // Passing onValueChange makes the picker controlled by `value`.
+  value?: DateRange;
+  onValueChange?: (range: DateRange | undefined) => void;
+  placeholder?: string;
+}
+
 export default function DatePickerWithRange({
   className,
-}: React.HTMLAttributes<HTMLDivElement>) {
-  const [date, setDate] = React.useState<DateRange | undefined>({
+  value,
+  onValueChange,
+  placeholder = "Pick a date",
+}: DatePickerWithRangeProps) {
+  const [internalDate, setInternalDate] = React.useState<
+    DateRange | undefined
+  >({
     from: new Date(2022, 0, 20),
     to: addDays(new Date(2022, 0, 20), 20),
   });
+  const date = onValueChange ? value : internalDate;
+  const setDate = onValueChange || setInternalDate;
 
   return (
     <div className={cn("grid gap-2", className)}>
@@ -45,7 +60,7 @@ export default function DatePickerWithRange({
                 format(date.from, "LLL dd, y")
               )
             ) : (
-              <span>Pick a date</span>
+              <span>{placeholder}</span>
             )}
           </Button>
         </PopoverTrigger>
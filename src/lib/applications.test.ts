@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { safeJobUrl } from "./applications";
+
+describe("safeJobUrl", () => {
+  it("keeps http and https addresses", () => {
+    expect(safeJobUrl(" https://jobs.example.com/123 ")).toBe("https://jobs.example.com/123");
+    expect(safeJobUrl("http://example.com")).toBe("http://example.com/");
+  });
+
+  it("refuses other schemes and text that is not a URL", () => {
+    expect(safeJobUrl("javascript:alert(1)")).toBeNull();
+    expect(safeJobUrl("JavaScript:alert(1)")).toBeNull();
+    expect(safeJobUrl("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeJobUrl("jobs.example.com/123")).toBeNull();
+    expect(safeJobUrl("")).toBeNull();
+  });
+});
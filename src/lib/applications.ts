@@ -0,0 +1,69 @@
+// Job applications tracked in IndexedDB. Each entry keeps a copy of the .tex
+// that was sent, so later edits to the linked library version don't change it.
+
+import { clearStore, createId, getAll, put, remove } from "./db";
+
+export type ApplicationStatus = "saved" | "applied" | "interview" | "offer" | "rejected";
+
+export const APPLICATION_STATUSES: { value: ApplicationStatus; label: string; className: string }[] = [
+  { value: "saved", label: "Saved", className: "bg-slate-100 text-slate-700 border-slate-200" },
+  { value: "applied", label: "Applied", className: "bg-blue-100 text-blue-800 border-blue-200" },
+  { value: "interview", label: "Interview", className: "bg-amber-100 text-amber-800 border-amber-200" },
+  { value: "offer", label: "Offer", className: "bg-green-100 text-green-800 border-green-200" },
+  { value: "rejected", label: "Rejected", className: "bg-red-100 text-red-800 border-red-200" },
+];
+
+export interface Application {
+  id: string;
+  company: string;
+  role: string;
+  jobUrl: string;
+  jobDescription: string;
+  // Date the application was sent (ms since epoch).
+  appliedAt: number;
+  status: ApplicationStatus;
+  notes: string;
+  // Library version the resume came from, if it still exists.
+  versionId?: string;
+  texCode: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ApplicationInput = Omit<Application, "id" | "createdAt" | "updatedAt">;
+
+export function emptyApplication(): ApplicationInput {
+  return { company: "", role: "", jobUrl: "", jobDescription: "", appliedAt: Date.now(), status: "applied", notes: "", texCode: "" };
+}
+
+// Job links are opened from the tracker, so only web addresses are kept;
+// anything else (javascript:, data:, ...) is treated as no link.
+export function safeJobUrl(url: string) {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.toString() : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export async function listApplications() {
+  return (await getAll<Application>("applications")).sort((a, b) => b.appliedAt - a.appliedAt);
+}
+
+export function createApplication(input: ApplicationInput) {
+  const now = Date.now();
+  return put<Application>("applications", { ...input, id: createId(), createdAt: now, updatedAt: now });
+}
+
+export function updateApplication(application: Application) {
+  return put<Application>("applications", { ...application, updatedAt: Date.now() });
+}
+
+export function deleteApplication(id: string) {
+  return remove("applications", id);
+}
+
+export function clearApplications() {
+  return clearStore("applications");
+}
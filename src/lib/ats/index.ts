@@ -0,0 +1,8 @@
+// Local ATS-style keyword scoring: no LLM calls, so it is free to run on
+// every edit.
+
+export type { AtsComparison, AtsKeyword, AtsReport, KeywordMatch } from "./score";
+export { buildKeywords, compareResumes, extractJobKeywords, scoreResume, scoreText } from "./score";
+export { stem } from "./stem";
+export { SYNONYM_GROUPS } from "./synonyms";
+export { latexToText, tokenize } from "./text";
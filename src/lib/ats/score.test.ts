@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { scoreText } from "./score";
+import { SYNONYM_GROUPS } from "./synonyms";
+
+const ALL_SKILLS = SYNONYM_GROUPS.map((group) => ({ term: group[0], required: false }));
+
+function matched(text: string) {
+  return scoreText(text, ALL_SKILLS).matched.map((m) => m.keyword.term);
+}
+
+describe("scoreText", () => {
+  it("matches spellings and abbreviations of a skill", () => {
+    expect(matched("Ran k8s clusters backed by Postgres")).toEqual(["PostgreSQL", "Kubernetes"]);
+  });
+
+  it("does not match related words as the skill", () => {
+    expect(matched("built go-to-market dashboards with containers and led the team; used github")).toEqual([]);
+  });
+
+  it("matches short aliases only as written", () => {
+    expect(matched("Meet at 5 pm to go over the ai tools")).toEqual([]);
+    expect(matched("Services written in Go")).toEqual(["Go"]);
+    expect(matched("Shipped AI and ML features")).toEqual(["Machine Learning", "Artificial Intelligence"]);
+  });
+
+  it("matches REST only as written or by its longer spellings", () => {
+    expect(matched("Covered for the rest of the team")).toEqual([]);
+    expect(matched("Designed REST endpoints")).toEqual(["REST"]);
+    expect(matched("Built a RESTful service")).toEqual(["REST"]);
+  });
+});
@@ -0,0 +1,209 @@
+import { stem } from "./stem";
+import { EXACT_CASE_TERMS, SYNONYM_GROUPS } from "./synonyms";
+import { isStopword, latexToText, tokenize } from "./text";
+
+export interface AtsKeyword {
+  term: string;
+  required: boolean;
+}
+
+export interface KeywordMatch {
+  keyword: AtsKeyword;
+  found: boolean;
+  // The spelling that matched when it differs from the keyword (a synonym).
+  matchedAs?: string;
+}
+
+export interface AtsReport {
+  // Weighted keyword coverage, 0-100. Required keywords count double.
+  score: number;
+  matched: KeywordMatch[];
+  missing: KeywordMatch[];
+  missingRequired: AtsKeyword[];
+}
+
+export interface AtsComparison {
+  keywords: AtsKeyword[];
+  before: AtsReport;
+  after: AtsReport;
+  delta: number;
+}
+
+const MAX_PHRASE_WORDS = 4;
+const MAX_JOB_KEYWORDS = 30;
+const REQUIRED_WEIGHT = 2;
+const SHORT_TERM_LENGTH = 2;
+// The tokenizer's pattern without lower-casing, so "go-to-market" stays one word.
+const WORD_RE = /[A-Za-z0-9][A-Za-z0-9+#]*(?:[./-][A-Za-z0-9+#]+)*|\.[A-Za-z]+/g;
+
+const REQUIRED_CUE = /\b(requirements?|required|must|minimum|qualifications|what you('ll)? need|you have|you bring)\b/i;
+const PREFERRED_CUE = /\b(preferred|nice[- ]to[- ]have|bonus|plus|desirable|ideally|good to have)\b/i;
+
+function normalizePhrase(phrase: string) {
+  return tokenize(phrase).map(stem).join(" ");
+}
+
+interface Variant {
+  key: string;
+  label: string;
+}
+
+interface PhraseSet {
+  phrases: Set<string>;
+  // Tokens as written, for the short aliases that must match exactly.
+  words: Set<string>;
+}
+
+const synonymIndex = new Map<string, number>();
+SYNONYM_GROUPS.forEach((group, index) => {
+  for (const variant of group) synonymIndex.set(normalizePhrase(variant), index);
+});
+
+function toVariant(label: string): Variant {
+  return { key: normalizePhrase(label), label };
+}
+
+function variantsOf(term: string) {
+  const group = synonymIndex.get(normalizePhrase(term));
+  if (group === undefined) return [toVariant(term)];
+  return SYNONYM_GROUPS[group].map(toVariant);
+}
+
+// Every run of 1-4 stemmed tokens in the text, for phrase lookups.
+function phraseSet(text: string): PhraseSet {
+  const tokens = tokenize(text).map(stem);
+  const phrases = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = 1; n <= MAX_PHRASE_WORDS && i + n <= tokens.length; n++) phrases.add(tokens.slice(i, i + n).join(" "));
+  }
+  return { phrases, words: new Set(text.match(WORD_RE) || []) };
+}
+
+// "Go", "AI" or "QA" would match everyday words in lower case, so terms this
+// short, and the few longer ones like "REST", only match a whole word spelled
+// the same way.
+function contains(set: PhraseSet, variant: Variant) {
+  if (!variant.key) return false;
+  const label = variant.label.trim();
+  if (label.length <= SHORT_TERM_LENGTH || EXACT_CASE_TERMS.has(label)) return set.words.has(label);
+  return set.phrases.has(variant.key);
+}
+
+// Lines of the posting that sit under a "requirements"-style heading, or say
+// "required"/"must" themselves, excluding "preferred"/"nice to have" ones.
+function requiredText(jobText: string) {
+  let mode: "required" | "preferred" | "none" = "none";
+  const lines: string[] = [];
+  for (const line of jobText.split(/\n+/)) {
+    const isHeading = line.trim().length < 60 && !/[.]$/.test(line.trim());
+    if (PREFERRED_CUE.test(line)) {
+      if (isHeading) mode = "preferred";
+      continue;
+    }
+    if (REQUIRED_CUE.test(line)) {
+      if (isHeading) mode = "required";
+      else lines.push(line);
+      continue;
+    }
+    if (mode === "required") lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+// Picks keywords out of a posting without an LLM: known skills from the
+// synonym table plus words and two-word phrases that repeat.
+export function extractJobKeywords(jobText: string, max = MAX_JOB_KEYWORDS): string[] {
+  const phrases = phraseSet(jobText);
+  const known: string[] = [];
+  for (const group of SYNONYM_GROUPS) {
+    if (group.some((variant) => contains(phrases, toVariant(variant)))) known.push(group[0]);
+  }
+
+  const tokens = tokenize(jobText);
+  const counts = new Map<string, { label: string; count: number }>();
+  const bump = (key: string, label: string) => {
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { label, count: 1 });
+  };
+  const useful = (token: string) => token.length >= 3 && !isStopword(token) && !/^\d+$/.test(token);
+  tokens.forEach((token, i) => {
+    if (!useful(token)) return;
+    bump(stem(token), token);
+    const next = tokens[i + 1];
+    if (next && useful(next)) bump(`${stem(token)} ${stem(next)}`, `${token} ${next}`);
+  });
+
+  const knownKeys = new Set(known.flatMap((term) => variantsOf(term).map((v) => v.key)));
+  const repeated = [...counts.entries()]
+    .filter(([key, entry]) => entry.count >= 2 && !knownKeys.has(key))
+    // Drop a word when it only ever appears inside a repeated phrase.
+    .filter(([key, entry], _i, all) => key.includes(" ") || !all.some(([other, o]) => other.includes(" ") && other.split(" ").includes(key) && o.count >= entry.count))
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([, entry]) => entry.label);
+
+  return [...known, ...repeated].slice(0, max);
+}
+
+// Combines the extracted skills with keywords found locally in the posting
+// and marks the ones the posting treats as required. Skills given as keywords
+// keep their own required flag.
+export function buildKeywords(jobText: string, skills: (string | AtsKeyword)[] = []): AtsKeyword[] {
+  const required = phraseSet(requiredText(jobText));
+  const all = phraseSet(jobText);
+  const preferredOnly = (term: string) => variantsOf(term).some((v) => contains(all, v)) && !variantsOf(term).some((v) => contains(required, v));
+  const hasRequiredSection = required.phrases.size > 0;
+
+  const seen = new Set<string>();
+  const keywords: AtsKeyword[] = [];
+  const add = (term: string, isRequired: () => boolean) => {
+    const key = variantsOf(term)[0].key;
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    keywords.push({ term, required: isRequired() });
+  };
+  // Extracted skills count as required unless the posting files them under
+  // "preferred"; local keywords only when they appear in a required part.
+  for (const skill of skills) {
+    if (typeof skill === "string") add(skill, () => !(hasRequiredSection && preferredOnly(skill)));
+    else add(skill.term, () => skill.required);
+  }
+  for (const term of extractJobKeywords(jobText)) add(term, () => variantsOf(term).some((v) => contains(required, v)));
+  return keywords;
+}
+
+export function scoreText(text: string, keywords: AtsKeyword[]): AtsReport {
+  const phrases = phraseSet(text);
+  const matched: KeywordMatch[] = [];
+  const missing: KeywordMatch[] = [];
+  let total = 0;
+  let earned = 0;
+  for (const keyword of keywords) {
+    const weight = keyword.required ? REQUIRED_WEIGHT : 1;
+    total += weight;
+    const hit = variantsOf(keyword.term).find((v) => contains(phrases, v));
+    if (hit) {
+      earned += weight;
+      matched.push({ keyword, found: true, matchedAs: normalizePhrase(hit.label) === normalizePhrase(keyword.term) ? undefined : hit.label });
+    } else {
+      missing.push({ keyword, found: false });
+    }
+  }
+  return {
+    score: total === 0 ? 0 : Math.round((earned / total) * 100),
+    matched,
+    missing,
+    missingRequired: missing.filter((m) => m.keyword.required).map((m) => m.keyword),
+  };
+}
+
+export function scoreResume(source: string, keywords: AtsKeyword[]) {
+  return scoreText(latexToText(source), keywords);
+}
+
+export function compareResumes(jobText: string, before: string, after: string, skills: (string | AtsKeyword)[] = []): AtsComparison {
+  const keywords = buildKeywords(jobText, skills);
+  const beforeReport = scoreResume(before, keywords);
+  const afterReport = scoreResume(after, keywords);
+  return { keywords, before: beforeReport, after: afterReport, delta: afterReport.score - beforeReport.score };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { stem } from "./stem";
+
+describe("stem", () => {
+  it.each([
+    ["deployments", "deployment"],
+    ["requirements", "requirement"],
+    ["managing", "managed"],
+    ["manages", "manager"],
+    ["developers", "development"],
+    ["abilities", "ability"],
+  ])("stems %s and %s alike", (a, b) => {
+    expect(stem(a)).toBe(stem(b));
+  });
+
+  it("leaves short tokens and tech names alone", () => {
+    expect(stem("aws")).toBe("aws");
+    expect(stem("node.js")).toBe("node.js");
+    expect(stem("ci/cd")).toBe("ci/cd");
+  });
+});
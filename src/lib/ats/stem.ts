@@ -0,0 +1,36 @@
+// A light suffix-stripping stemmer. It only needs to make "managed",
+// "managing" and "manages" meet, not to produce real words, and it leaves
+// short tokens and tech names (node.js, c++, ci/cd) alone.
+
+// Inflections come off first, then one derivational suffix, so
+// "deployments" and "deployment" both end at "deploy".
+const INFLECTIONS: [RegExp, string][] = [
+  [/ies$/, "y"],
+  [/ied$/, "y"],
+  [/(ss)es$/, "$1"],
+  [/([^aeiou])ing$/, "$1"],
+  [/([^aeiou])ed$/, "$1"],
+  [/([^su])s$/, "$1"],
+];
+
+const SUFFIXES: [RegExp, string][] = [
+  [/(ment|ness|ship|ity)$/, ""],
+  [/ation$/, "ate"],
+  [/er$/, ""],
+  [/ly$/, ""],
+];
+
+function strip(token: string, rules: [RegExp, string][]) {
+  const rule = rules.find(([pattern]) => pattern.test(token));
+  if (!rule) return token;
+  const next = token.replace(rule[0], rule[1]);
+  return next.length >= 3 ? next : token;
+}
+
+export function stem(token: string) {
+  if (token.length <= 3 || /[^a-z]/.test(token)) return token;
+  const result = strip(strip(token, INFLECTIONS), SUFFIXES);
+  // "managing" -> "manag", "manage" -> "manag": drop a trailing "e" too.
+  if (result.length > 4 && result.endsWith("e")) return result.slice(0, -1);
+  return result;
+}
@@ -0,0 +1,59 @@
+// Spellings and abbreviations ATS systems commonly treat as the same skill.
+// The first entry of each group is the display name. Related but different
+// skills (containers and Docker, GitHub and Git) stay apart. Aliases of one or
+// two letters match only a word written the same way, so "AI" is not "ai".
+export const SYNONYM_GROUPS: string[][] = [
+  ["JavaScript", "JS", "ecmascript", "es6"],
+  ["TypeScript"],
+  ["Node.js", "node", "nodejs"],
+  ["React", "react.js", "reactjs"],
+  ["Vue", "vue.js", "vuejs"],
+  ["Angular", "angularjs", "angular.js"],
+  ["Next.js", "nextjs"],
+  ["Python"],
+  ["Go", "golang"],
+  ["C#", "csharp", "c sharp"],
+  ["C++", "cpp"],
+  [".NET", "dotnet", "asp.net"],
+  ["PostgreSQL", "postgres", "psql"],
+  ["MySQL", "my sql"],
+  ["MongoDB", "mongo"],
+  ["SQL", "structured query language"],
+  ["NoSQL", "no sql"],
+  ["Kubernetes", "k8s"],
+  ["Docker"],
+  ["AWS", "amazon web services"],
+  ["GCP", "google cloud", "google cloud platform"],
+  ["Azure", "microsoft azure"],
+  ["CI/CD", "ci cd", "continuous integration", "continuous delivery", "continuous deployment"],
+  ["Machine Learning", "ML"],
+  ["Artificial Intelligence", "AI"],
+  ["Natural Language Processing", "nlp"],
+  ["Deep Learning", "DL"],
+  ["Large Language Models", "llm", "llms"],
+  ["REST", "restful", "rest api", "rest apis"],
+  ["GraphQL", "graph ql"],
+  ["UI/UX", "UI", "UX", "user experience", "user interface"],
+  ["Agile"],
+  ["Project Management"],
+  ["Product Management", "product manager"],
+  ["Quality Assurance", "QA"],
+  ["Test-Driven Development", "tdd"],
+  ["Object-Oriented Programming", "oop", "object oriented"],
+  ["Search Engine Optimization", "seo"],
+  ["Customer Relationship Management", "crm"],
+  ["Key Performance Indicators", "kpi", "kpis"],
+  ["Excel", "microsoft excel", "ms excel"],
+  ["Power BI", "powerbi"],
+  ["Tableau"],
+  ["Git"],
+  ["Linux"],
+  ["Terraform"],
+  ["Leadership"],
+  ["Communication"],
+  ["Collaboration"],
+];
+
+// Longer names that are also everyday words, so like the short aliases they
+// match only as written: "REST" but not "the rest of the team".
+export const EXACT_CASE_TERMS = new Set(["REST"]);
@@ -0,0 +1,36 @@
+import { toPlainText } from "../resume";
+
+// Words that carry no keyword value in job postings or resumes.
+const STOPWORDS = new Set(
+  (
+    "a about above after again all also an and any are as at be been being both but by can could did do does doing " +
+    "during each etc few for from further had has have having he her here hers him his how i if in into is it its " +
+    "just me more most my no nor not of off on once only or other our ours out over own per same she should so some " +
+    "such than that the their theirs them then there these they this those through to too under until up us very " +
+    "was we were what when where which while who whom why will with within would you your yours " +
+    // Posting boilerplate
+    "ability able across candidate candidates company day environment experience etc including job looking role " +
+    "strong team teams work working world years year plus new well using use used help join make must preferred " +
+    "required requirements responsibilities qualifications skills skill knowledge understanding excellent good great " +
+    "opportunity position apply applicants benefits salary ideal key will"
+  ).split(" "),
+);
+
+// Keeps characters that matter in tech names (c++, c#, .net, node.js, ci/cd).
+const TOKEN_RE = /[a-z0-9][a-z0-9+#]*(?:[./-][a-z0-9+#]+)*|\.[a-z]+/g;
+
+export function isStopword(token: string) {
+  return STOPWORDS.has(token);
+}
+
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(TOKEN_RE) || []).map((token) => token.replace(/[.]+$/, ""));
+}
+
+// The readable text of a LaTeX resume: the document body with markup removed.
+export function latexToText(source: string) {
+  const begin = source.indexOf("\\begin{document}");
+  const end = source.lastIndexOf("\\end{document}");
+  const body = begin === -1 ? source : source.slice(begin + "\\begin{document}".length, end === -1 ? undefined : end);
+  return toPlainText(body);
+}
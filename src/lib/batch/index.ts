@@ -0,0 +1,141 @@
+// Batch tailoring: one base resume against a list of jobs, run through a
+// concurrency- and rate-limited queue.
+
+import { compareResumes } from "../ats";
+import { findUnsupportedClaims } from "../factCheck";
+import { fetchJobPosting, formatJobPosting } from "../jobImport";
+import type { LLMProvider } from "../llm";
+import { extractSkills, toAtsKeywords } from "../skills";
+import { tailorResume, type TailorConstraints } from "../tailoring";
+import type { BatchJob } from "./parse";
+
+export type { BatchJob } from "./parse";
+export { parseCsv, parseJobList } from "./parse";
+export { createRateLimiter, rateLimited, runQueue, type RateLimiter } from "./queue";
+
+export type BatchStatus = "queued" | "importing" | "analyzing" | "tailoring" | "done" | "error" | "cancelled";
+
+export interface BatchResult {
+  job: BatchJob;
+  status: BatchStatus;
+  error?: string;
+  // From the job, or from the imported posting.
+  title?: string;
+  company?: string;
+  description?: string;
+  content?: string;
+  rewritten?: number;
+  scoreBefore?: number;
+  scoreAfter?: number;
+  // Facts the fact check could not find in the original.
+  claims?: number;
+}
+
+export interface BatchSettings {
+  source: string;
+  instructions: string;
+  temperature?: number;
+  constraints?: TailorConstraints;
+  tailorTemplate?: string;
+  skillsTemplate?: string;
+}
+
+export function emptyResult(job: BatchJob): BatchResult {
+  return { job, status: "queued", title: job.title, company: job.company, description: job.description };
+}
+
+// Imports (when only a URL is given), analyzes and tailors one job,
+// reporting each stage through onUpdate. Never throws: failures end up in
+// the result's status and error.
+export async function runBatchJob(
+  job: BatchJob,
+  provider: LLMProvider,
+  settings: BatchSettings,
+  onUpdate: (result: BatchResult) => void,
+  signal?: AbortSignal,
+): Promise<BatchResult> {
+  let result = emptyResult(job);
+  const update = (changes: Partial<BatchResult>) => {
+    result = { ...result, ...changes };
+    onUpdate(result);
+  };
+  try {
+    let description = job.description;
+    if (!description) {
+      update({ status: "importing" });
+      const posting = await fetchJobPosting(job.url!);
+      description = formatJobPosting(posting);
+      update({ description, title: job.title || posting.title, company: job.company || posting.company });
+    }
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+
+    update({ status: "analyzing" });
+    const skills = await extractSkills({ provider, jobDescription: description, promptTemplate: settings.skillsTemplate, signal });
+
+    update({ status: "tailoring" });
+    const tailored = await tailorResume({
+      provider,
+      source: settings.source,
+      jobDescription: description,
+      instructions: settings.instructions,
+      skills,
+      temperature: settings.temperature,
+      constraints: settings.constraints,
+      promptTemplate: settings.tailorTemplate,
+      signal,
+    });
+
+    const keywords = toAtsKeywords(skills);
+    const comparison = compareResumes(description, settings.source, tailored.content, keywords);
+    update({
+      status: "done",
+      content: tailored.content,
+      rewritten: tailored.applied.length,
+      scoreBefore: comparison.before.score,
+      scoreAfter: comparison.after.score,
+      claims: findUnsupportedClaims(settings.source, tailored.content, keywords).length,
+    });
+  } catch (err) {
+    if (signal?.aborted) update({ status: "cancelled" });
+    else update({ status: "error", error: err instanceof Error ? err.message : String(err) });
+  }
+  return result;
+}
+
+export function batchFileName(result: BatchResult, index: number) {
+  const name = [result.company, result.title].filter(Boolean).join("-").replace(/[^\w-]+/g, "_").slice(0, 60);
+  return `${String(index + 1).padStart(2, "0")}-${name || "job"}.tex`;
+}
+
+function csvCell(value: string | number | undefined) {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function batchSummaryCsv(results: BatchResult[]) {
+  const header = ["file", "company", "title", "url", "status", "score_before", "score_after", "bullets_rewritten", "facts_to_verify", "error"];
+  const rows = results.map((r, index) => [
+    r.content ? batchFileName(r, index) : "",
+    r.company,
+    r.title,
+    r.job.url,
+    r.status,
+    r.scoreBefore,
+    r.scoreAfter,
+    r.rewritten,
+    r.claims,
+    r.error,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+// Every finished .tex plus a summary.csv, as a zip.
+export async function buildBatchZip(results: BatchResult[]) {
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  results.forEach((result, index) => {
+    if (result.content) zip.file(batchFileName(result, index), result.content);
+  });
+  zip.file("summary.csv", batchSummaryCsv(results));
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseJobList } from "./parse";
+
+describe("parseCsv", () => {
+  it("keeps commas, quotes and newlines inside quoted fields", () => {
+    const csv = 'title,description\n"Engineer, Backend","Build APIs.\nWrite ""good"" tests."\n';
+    expect(parseCsv(csv)).toEqual([
+      ["title", "description"],
+      ["Engineer, Backend", 'Build APIs.\nWrite "good" tests.'],
+    ]);
+  });
+
+  it("reads CRLF line endings", () => {
+    expect(parseCsv('title,url\r\nEngineer,https://example.com/1\r\n"Multi\r\nline",https://example.com/2\r\n')).toEqual([
+      ["title", "url"],
+      ["Engineer", "https://example.com/1"],
+      ["Multi\r\nline", "https://example.com/2"],
+    ]);
+  });
+
+  it("detects semicolon and tab separators and skips blank rows", () => {
+    expect(parseCsv("title;company\nEngineer;Acme\n\n")).toEqual([["title", "company"], ["Engineer", "Acme"]]);
+    expect(parseCsv("title\tcompany\nEngineer\tAcme")).toEqual([["title", "company"], ["Engineer", "Acme"]]);
+  });
+});
+
+describe("parseJobList", () => {
+  const strip = (jobs: ReturnType<typeof parseJobList>) => jobs.map(({ id, ...job }) => job);
+
+  it("reads one URL per line", () => {
+    expect(strip(parseJobList("https://example.com/1\r\n\nhttps://example.com/2"))).toEqual([{ url: "https://example.com/1" }, { url: "https://example.com/2" }]);
+  });
+
+  it("maps CSV headers by their aliases", () => {
+    const jobs = parseJobList('Job Title,Employer,Link,JD\nEngineer,Acme,https://example.com/1,"Build, test"\nDesigner,Foo,,');
+    expect(strip(jobs)).toEqual([{ title: "Engineer", company: "Acme", url: "https://example.com/1", description: "Build, test" }]);
+  });
+
+  it("reads JSON arrays of objects, URLs and descriptions", () => {
+    const jobs = parseJobList(JSON.stringify({ jobs: [{ role: "Engineer", url: "https://example.com/1" }, "https://example.com/2", "Build APIs"] }));
+    expect(strip(jobs)).toEqual([{ title: "Engineer", url: "https://example.com/1" }, { url: "https://example.com/2" }, { description: "Build APIs" }]);
+  });
+
+  it("explains what is wrong with unusable input", () => {
+    expect(() => parseJobList("[not json")).toThrow("could not be parsed");
+    expect(() => parseJobList("title,company\nEngineer,Acme")).toThrow('"url" or "description" column');
+    expect(() => parseJobList("[]")).toThrow("No jobs");
+  });
+});
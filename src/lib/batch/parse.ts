@@ -0,0 +1,132 @@
+import { createId } from "../db";
+
+// One job in a batch. Either the description is given, or it is imported
+// from the URL when the job runs.
+export interface BatchJob {
+  id: string;
+  title?: string;
+  company?: string;
+  url?: string;
+  description?: string;
+}
+
+// Header names accepted for each field, compared case-insensitively.
+const COLUMN_ALIASES: Record<keyof Omit<BatchJob, "id">, string[]> = {
+  title: ["title", "role", "position", "job title", "job"],
+  company: ["company", "employer", "organization", "organisation"],
+  url: ["url", "link", "job url", "posting", "href"],
+  description: ["description", "job description", "jd", "text", "details"],
+};
+
+const URL_RE = /^https?:\/\/\S+$/i;
+
+// RFC 4180-style CSV: quoted fields may contain commas, quotes ("") and
+// newlines. Semicolon- and tab-separated files are detected from the header.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function fieldFor(header: string) {
+  const key = header.trim().toLowerCase();
+  return (Object.keys(COLUMN_ALIASES) as (keyof typeof COLUMN_ALIASES)[]).find((field) => COLUMN_ALIASES[field].includes(key));
+}
+
+function toJob(values: Partial<Record<keyof typeof COLUMN_ALIASES, unknown>>): BatchJob | null {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+  const job: BatchJob = {
+    id: createId(),
+    title: text(values.title),
+    company: text(values.company),
+    url: text(values.url),
+    description: text(values.description),
+  };
+  return job.url || job.description ? job : null;
+}
+
+function fromObject(item: unknown): BatchJob | null {
+  if (typeof item === "string") return URL_RE.test(item.trim()) ? toJob({ url: item }) : toJob({ description: item });
+  if (!item || typeof item !== "object") return null;
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(item)) {
+    const field = fieldFor(key);
+    if (field && values[field] === undefined) values[field] = value;
+  }
+  return toJob(values);
+}
+
+function fromCsv(text: string): BatchJob[] {
+  const [header, ...rows] = parseCsv(text);
+  const fields = header.map(fieldFor);
+  if (!fields.includes("url") && !fields.includes("description")) {
+    throw new Error('CSV needs a header row with a "url" or "description" column');
+  }
+  return rows.flatMap((row) => {
+    const values: Record<string, string> = {};
+    fields.forEach((field, index) => {
+      if (field && row[index] !== undefined) values[field] = row[index];
+    });
+    const job = toJob(values);
+    return job ? [job] : [];
+  });
+}
+
+// Reads a list of jobs pasted or imported by the user: a JSON array (of job
+// objects, URLs or descriptions), a CSV with a header row, or one URL per
+// line. Throws when nothing usable is found.
+export function parseJobList(text: string): BatchJob[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  let jobs: BatchJob[];
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error("The job list looks like JSON but could not be parsed");
+    }
+    const list = Array.isArray(data) ? data : (data as { jobs?: unknown }).jobs;
+    if (!Array.isArray(list)) throw new Error('JSON job lists must be an array, or an object with a "jobs" array');
+    jobs = list.map(fromObject).filter(Boolean);
+  } else {
+    const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    jobs = lines.every((line) => URL_RE.test(line)) ? lines.map((url) => toJob({ url })!) : fromCsv(trimmed);
+  }
+  if (jobs.length === 0) throw new Error("No jobs with a URL or description were found");
+  return jobs;
+}
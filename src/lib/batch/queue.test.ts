@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter, runQueue } from "./queue";
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spaces calls evenly over the minute", async () => {
+    const limiter = createRateLimiter(2);
+    const started: number[] = [];
+    const start = Date.now();
+    const calls = [1, 2, 3].map(() => limiter().then(() => started.push(Date.now() - start)));
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all(calls);
+    expect(started).toEqual([0, 30_000, 60_000]);
+  });
+
+  it("does not wait without a limit", async () => {
+    const limiter = createRateLimiter(0);
+    await limiter();
+    await limiter();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const limiter = createRateLimiter(1);
+    await limiter();
+    const controller = new AbortController();
+    const waiting = limiter(controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow("Aborted");
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("refuses an already aborted call without taking a slot", async () => {
+    const limiter = createRateLimiter(1);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(limiter(controller.signal)).rejects.toThrow("Aborted");
+    await limiter();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe("runQueue", () => {
+  it("runs every item with at most `concurrency` in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runQueue([1, 2, 3, 4, 5], 2, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      done.push(item);
+    });
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("keeps going after a failure", async () => {
+    const done: number[] = [];
+    await runQueue([1, 2, 3], 1, async (item) => {
+      if (item === 2) throw new Error("failed");
+      done.push(item);
+    });
+    expect(done).toEqual([1, 3]);
+  });
+
+  it("starts no more items once the signal aborts", async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    await runQueue([1, 2, 3, 4], 1, async (item) => {
+      started.push(item);
+      if (item === 2) controller.abort();
+    }, controller.signal);
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,52 @@
+import type { LLMProvider } from "../llm";
+import { delay } from "../utils";
+
+// Spaces calls out so no more than `perMinute` start in any minute. Zero or
+// less means no limit.
+export function createRateLimiter(perMinute: number) {
+  const interval = perMinute > 0 ? 60_000 / perMinute : 0;
+  let next = 0;
+  return async (signal?: AbortSignal) => {
+    // A cancelled call must not take a slot from the ones after it.
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    if (interval === 0) return;
+    const now = Date.now();
+    const start = Math.max(now, next);
+    next = start + interval;
+    if (start > now) await delay(start - now, signal);
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// Wraps a provider so every model call waits for the limiter first.
+export function rateLimited(provider: LLMProvider, limiter: RateLimiter): LLMProvider {
+  return {
+    ...provider,
+    async generate(prompt, options = {}) {
+      await limiter(options.signal);
+      return provider.generate(prompt, options);
+    },
+    async *stream(prompt, options = {}) {
+      await limiter(options.signal);
+      yield* provider.stream(prompt, options);
+    },
+  };
+}
+
+// Runs `worker` over the items with at most `concurrency` in flight. Items
+// left when the signal aborts are not started; failures don't stop the rest.
+export async function runQueue<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) {
+  let index = 0;
+  const lane = async () => {
+    while (index < items.length && !signal?.aborted) {
+      const item = items[index++];
+      try {
+        await worker(item);
+      } catch (err) {
+        // the worker reports its own errors
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+}
@@ -0,0 +1,70 @@
+import { latexToText } from "../ats";
+import type { LLMProvider } from "../llm";
+import { parseResume } from "../resume";
+import type { Skill } from "../skills";
+import { requestModelJson } from "../tailoring";
+import type { CoverLetterLength, CoverLetterTone } from "./options";
+import { buildCoverLetterPrompt } from "./prompt";
+import { coverLetterTexToText, renderCoverLetterTex, type CoverLetterRecipient } from "./render";
+import { CoverLetterContentSchema, type CoverLetterContent } from "./schema";
+
+export type { CoverLetterContent } from "./schema";
+export type { CoverLetterLength, CoverLetterTone } from "./options";
+export type { CoverLetterRecipient } from "./render";
+export { CoverLetterContentSchema } from "./schema";
+export { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, DEFAULT_LENGTH, DEFAULT_TONE } from "./options";
+export { buildCoverLetterPrompt } from "./prompt";
+export { coverLetterTexToText, renderCoverLetterTex } from "./render";
+
+export interface CoverLetterRequest {
+  provider: LLMProvider;
+  // The candidate's resume (LaTeX): the letter's only source of facts, and
+  // where the letterhead's name and contact details come from.
+  source: string;
+  jobDescription: string;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  skills?: Skill[];
+  recipient?: CoverLetterRecipient;
+  // Cover letter template; the built-in default when omitted.
+  promptTemplate?: string;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+}
+
+export interface CoverLetter {
+  content: CoverLetterContent;
+  tex: string;
+  text: string;
+  // Everything but the body paragraphs (letterhead, date, addressee, greeting
+  // and closing) as plain text, so the fact check doesn't flag it.
+  frame: string;
+}
+
+export async function generateCoverLetter({
+  provider,
+  source,
+  jobDescription,
+  tone,
+  length,
+  skills = [],
+  recipient = {},
+  promptTemplate,
+  maxAttempts = 3,
+  signal,
+}: CoverLetterRequest): Promise<CoverLetter> {
+  return requestModelJson({
+    prompt: buildCoverLetterPrompt(latexToText(source), jobDescription, tone, length, skills, promptTemplate),
+    schema: CoverLetterContentSchema,
+    description: "a valid cover letter",
+    maxAttempts,
+    send: (prompt) => provider.generate(prompt, { json: true, signal }),
+    map: (content) => {
+      const contact = parseResume(source).contact;
+      const date = new Date();
+      const tex = renderCoverLetterTex(content, contact, recipient, date);
+      const frame = coverLetterTexToText(renderCoverLetterTex({ ...content, paragraphs: [] }, contact, recipient, date));
+      return { content, tex, text: coverLetterTexToText(tex), frame };
+    },
+  });
+}
@@ -0,0 +1,18 @@
+export type CoverLetterTone = "professional" | "enthusiastic" | "conversational" | "formal";
+export type CoverLetterLength = "short" | "medium" | "long";
+
+export const COVER_LETTER_TONES: { value: CoverLetterTone; label: string; instructions: string }[] = [
+  { value: "professional", label: "Professional", instructions: "Confident and professional: clear, direct sentences without clichés." },
+  { value: "enthusiastic", label: "Enthusiastic", instructions: "Warm and enthusiastic about the role and the company, while staying specific and credible." },
+  { value: "conversational", label: "Conversational", instructions: "Friendly and conversational, as if written to a future teammate; plain words, no jargon." },
+  { value: "formal", label: "Formal", instructions: "Formal and reserved, suitable for traditional industries, government and academia." },
+];
+
+export const COVER_LETTER_LENGTHS: { value: CoverLetterLength; label: string; paragraphs: number; words: number }[] = [
+  { value: "short", label: "Short", paragraphs: 3, words: 200 },
+  { value: "medium", label: "Medium", paragraphs: 4, words: 300 },
+  { value: "long", label: "Long", paragraphs: 5, words: 400 },
+];
+
+export const DEFAULT_TONE: CoverLetterTone = "professional";
+export const DEFAULT_LENGTH: CoverLetterLength = "medium";
@@ -0,0 +1,32 @@
+import { PROMPT_DEFINITIONS, renderTemplate } from "../prompts";
+import type { Skill } from "../skills";
+import { describeTargetSkills } from "../tailoring/prompt";
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, type CoverLetterLength, type CoverLetterTone } from "./options";
+
+// Renders the cover letter template (see src/lib/prompts); the reply format
+// is fixed because CoverLetterContentSchema parses it.
+export function buildCoverLetterPrompt(
+  resumeText: string,
+  jobDescription: string,
+  tone: CoverLetterTone,
+  length: CoverLetterLength,
+  skills: Skill[] = [],
+  template = PROMPT_DEFINITIONS.coverLetter.defaultTemplate,
+) {
+  const lengthOption = COVER_LETTER_LENGTHS.find((option) => option.value === length)!;
+  const body = renderTemplate(template, {
+    jobDescription,
+    resume: resumeText,
+    skills: skills.length ? describeTargetSkills(skills) : "None reviewed; use the keywords in the job description.",
+    tone: COVER_LETTER_TONES.find((option) => option.value === tone)!.instructions,
+    length: `${lengthOption.paragraphs} paragraphs, about ${lengthOption.words} words in total`,
+  });
+  return `${body}
+
+REPLY FORMAT:
+- Plain text only: no LaTeX, no markdown, no placeholders such as [Company]
+- Leave out the letterhead, date, addresses and signature name; they are added automatically
+
+Return ONLY a JSON object of this shape, with no explanations and no markdown formatting:
+{"greeting": "<e.g. Dear Hiring Manager,>", "paragraphs": ["<paragraph>", "..."], "closing": "<e.g. Sincerely,>"}`;
+}
@@ -0,0 +1,59 @@
+import { format } from "date-fns";
+import { escapeLatex, toPlainText, type ContactInfo } from "../resume";
+import type { CoverLetterContent } from "./schema";
+
+export interface CoverLetterRecipient {
+  company?: string;
+  title?: string;
+}
+
+const PREAMBLE = `\\documentclass[11pt]{article}
+\\usepackage[hidelinks]{hyperref}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{0.8em}
+\\pagestyle{empty}`;
+
+// A plain article so the letter compiles anywhere and previews with latex.js.
+// Paragraphs from the model are plain text and are escaped here.
+export function renderCoverLetterTex(content: CoverLetterContent, sender: ContactInfo, recipient: CoverLetterRecipient = {}, date = new Date()) {
+  const contactLine = [sender.email, sender.phone, sender.location, ...sender.links].filter(Boolean).map(escapeLatex).join(" $|$ ");
+  const letterhead = [sender.name ? `{\\Large\\textbf{${escapeLatex(sender.name)}}}` : "", contactLine].filter(Boolean).join("\\\\\n");
+  const addressee = ["Hiring Team", recipient.company].filter(Boolean).map((line) => escapeLatex(line!)).join("\\\\\n");
+  const subject = recipient.title ? `\\textbf{Re: ${escapeLatex(recipient.title)}}\n\n` : "";
+  const signature = [escapeLatex(content.closing), escapeLatex(sender.name)].filter(Boolean).join("\\\\\n");
+  return `${PREAMBLE}
+
+\\begin{document}
+
+${letterhead ? `${letterhead}\n\n` : ""}${format(date, "MMMM d, yyyy")}
+
+${addressee}
+
+${subject}${escapeLatex(content.greeting)}
+
+${content.paragraphs.map(escapeLatex).join("\n\n")}
+
+${signature}
+
+\\end{document}
+`;
+}
+
+// Plain-text version of a (possibly hand-edited) letter: one block per
+// LaTeX paragraph, with forced line breaks kept.
+export function coverLetterTexToText(tex: string) {
+  const begin = tex.indexOf("\\begin{document}");
+  const end = tex.lastIndexOf("\\end{document}");
+  const body = begin === -1 ? tex : tex.slice(begin + "\\begin{document}".length, end === -1 ? undefined : end);
+  return body
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      paragraph
+        .split(/\\\\(?:\[[^\]]*\])?/)
+        .map(toPlainText)
+        .filter(Boolean)
+        .join("\n"),
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+// Shape the model must return for a cover letter. The model only writes the
+// text; the letterhead, date and recipient block are added when rendering.
+
+export const CoverLetterContentSchema = z.object({
+  greeting: z.string().trim().min(1).catch("Dear Hiring Manager,"),
+  paragraphs: z.array(z.string().trim().min(1)).min(1),
+  closing: z.string().trim().min(1).catch("Sincerely,"),
+});
+
+export type CoverLetterContent = z.infer<typeof CoverLetterContentSchema>;
@@ -0,0 +1,89 @@
+// Small promise wrapper around the app's IndexedDB database. Object stores are
+// declared in STORES; adding one means bumping DB_VERSION.
+
+const DB_NAME = "resume_wizard";
+const DB_VERSION = 2;
+
+interface StoreSchema {
+  keyPath: string;
+  indexes?: string[];
+}
+
+export type StoreName = "resumes" | "versions" | "applications";
+
+const STORES: Record<StoreName, StoreSchema> = {
+  resumes: { keyPath: "id" },
+  versions: { keyPath: "id", indexes: ["baseId"] },
+  applications: { keyPath: "id" },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (const [name, schema] of Object.entries(STORES)) {
+        const store = db.objectStoreNames.contains(name) ? tx.objectStore(name) : db.createObjectStore(name, { keyPath: schema.keyPath });
+        for (const index of schema.indexes || []) {
+          if (!store.indexNames.contains(index)) store.createIndex(index, index);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Could not open the local database"));
+  });
+  // Allow a retry after a failed open (e.g. blocked by another tab).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return toPromise(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export function getAll<T>(name: StoreName): Promise<T[]> {
+  return withStore(name, "readonly", (store) => store.getAll()) as Promise<T[]>;
+}
+
+export function getAllByIndex<T>(name: StoreName, index: string, key: IDBValidKey): Promise<T[]> {
+  return withStore(name, "readonly", (store) => store.index(index).getAll(key)) as Promise<T[]>;
+}
+
+export function getOne<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(name, "readonly", (store) => store.get(key)) as Promise<T | undefined>;
+}
+
+export async function put<T>(name: StoreName, value: T): Promise<T> {
+  await withStore(name, "readwrite", (store) => store.put(value));
+  return value;
+}
+
+export async function remove(name: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(name, "readwrite", (store) => store.delete(key));
+}
+
+export async function clearStore(name: StoreName): Promise<void> {
+  await withStore(name, "readwrite", (store) => store.clear());
+}
+
+export function createId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, diffWords, mergeHunks, toSideBySideRows } from "./diff";
+
+const OLD = ["one", "two", "three", "four", "five"].join("\n");
+
+describe("diffLines", () => {
+  it("has no hunks for equal texts", () => {
+    expect(diffLines(OLD, OLD).hunks).toEqual([]);
+  });
+
+  it("groups changed, added and removed lines into hunks", () => {
+    const diff = diffLines(OLD, ["one", "TWO", "three", "five", "six"].join("\n"));
+    expect(diff.hunks).toEqual([
+      { oldStart: 1, oldLines: ["two"], newStart: 1, newLines: ["TWO"] },
+      { oldStart: 3, oldLines: ["four"], newStart: 3, newLines: [] },
+      { oldStart: 5, oldLines: [], newStart: 4, newLines: ["six"] },
+    ]);
+  });
+
+  it("treats a missing trailing newline as a change to the last line", () => {
+    const diff = diffLines(`${OLD}\n`, OLD);
+    expect(diff.hunks).toEqual([{ oldStart: 5, oldLines: [""], newStart: 5, newLines: [] }]);
+  });
+
+  it("ignores CRLF line endings", () => {
+    expect(diffLines(OLD.replace(/\n/g, "\r\n"), OLD).hunks).toEqual([]);
+  });
+});
+
+describe("toSideBySideRows", () => {
+  it("pairs removed and added lines and numbers both sides", () => {
+    const rows = toSideBySideRows(diffLines("a\nb\nc", "a\nB\nB2\nc"));
+    expect(rows.map((row) => [row.type, row.left?.number, row.right?.number, row.hunkIndex])).toEqual([
+      ["equal", 1, 1, undefined],
+      ["changed", 2, 2, 0],
+      ["added", undefined, 3, 0],
+      ["equal", 3, 4, undefined],
+    ]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks only the changed words and keeps the text intact", () => {
+    const { left, right } = diffWords("Built a \\textbf{fast} API", "Built a \\textbf{faster} REST API");
+    expect(left.map((s) => s.text).join("")).toBe("Built a \\textbf{fast} API");
+    expect(right.map((s) => s.text).join("")).toBe("Built a \\textbf{faster} REST API");
+    expect(left.filter((s) => s.changed).map((s) => s.text)).toEqual(["fast"]);
+    expect(right.filter((s) => s.changed).map((s) => s.text)).toEqual(["faster", "REST "]);
+  });
+});
+
+describe("mergeHunks", () => {
+  const NEW = ["one", "TWO", "three", "five", "six"].join("\n");
+  const diff = diffLines(OLD, NEW);
+
+  it("gives the new text when every hunk is accepted or undecided", () => {
+    expect(mergeHunks(diff, { 0: "accepted", 1: "accepted", 2: "accepted" })).toBe(NEW);
+    expect(mergeHunks(diff, {})).toBe(NEW);
+  });
+
+  it("gives the old text when every hunk is rejected", () => {
+    expect(mergeHunks(diff, { 0: "rejected", 1: "rejected", 2: "rejected" })).toBe(OLD);
+  });
+
+  it("applies mixed decisions hunk by hunk", () => {
+    expect(mergeHunks(diff, { 0: "accepted", 1: "rejected", 2: "rejected" })).toBe(["one", "TWO", "three", "four", "five"].join("\n"));
+    expect(mergeHunks(diff, { 0: "rejected", 2: "accepted" })).toBe(["one", "two", "three", "five", "six"].join("\n"));
+  });
+
+  it("keeps adjacent hunks apart", () => {
+    // Removing "b" and adding "C2" are two hunks with one line between them.
+    const adjacent = diffLines("a\nb\nc\nd", "a\nc\nC2\nd");
+    expect(adjacent.hunks).toHaveLength(2);
+    expect(mergeHunks(adjacent, { 0: "rejected", 1: "accepted" })).toBe("a\nb\nc\nC2\nd");
+    expect(mergeHunks(adjacent, { 0: "accepted", 1: "rejected" })).toBe("a\nc\nd");
+  });
+
+  it.each([
+    ["with", "\n"],
+    ["without", ""],
+  ])("keeps the file's ending %s a trailing newline", (_label, ending) => {
+    const merged = diffLines(`${OLD}${ending}`, `${NEW}${ending}`);
+    expect(mergeHunks(merged, { 0: "rejected" })).toBe(`${["one", "two", "three", "five", "six"].join("\n")}${ending}`);
+    expect(mergeHunks(merged, { 0: "rejected", 1: "rejected", 2: "rejected" })).toBe(`${OLD}${ending}`);
+  });
+
+  it("reverts a removed trailing newline when that hunk is rejected", () => {
+    const merged = diffLines(`${OLD}\n`, `${OLD.replace("two", "TWO")}`);
+    expect(mergeHunks(merged, { 0: "accepted", 1: "rejected" })).toBe(`${OLD.replace("two", "TWO")}\n`);
+  });
+});
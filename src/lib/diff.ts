@@ -0,0 +1,220 @@
+// Line- and word-level diffing for comparing the original and tailored LaTeX.
+// Uses Myers' O(ND) algorithm, which stays fast for resume-sized inputs where
+// most lines are unchanged.
+
+export type EditType = "equal" | "insert" | "delete";
+
+export interface Edit {
+  type: EditType;
+  // Index into `a` for equal/delete, into `b` for insert.
+  aIndex: number;
+  bIndex: number;
+}
+
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = max === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script.
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ type: "equal", aIndex: x, bIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: "insert", aIndex: x, bIndex: --y });
+      else edits.push({ type: "delete", aIndex: --x, bIndex: y });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    edits.push({ type: "equal", aIndex: x, bIndex: y });
+  }
+  return edits.reverse();
+}
+
+export interface Hunk {
+  // Zero-based line index in the old text where the hunk starts, and how many
+  // old lines it replaces.
+  oldStart: number;
+  oldLines: string[];
+  newStart: number;
+  newLines: string[];
+}
+
+export interface LineDiff {
+  oldLines: string[];
+  newLines: string[];
+  edits: Edit[];
+  hunks: Hunk[];
+}
+
+export function splitLines(text: string) {
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+export function diffLines(oldText: string, newText: string): LineDiff {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const edits = diffSequences(oldLines, newLines);
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let oldPos = 0;
+  let newPos = 0;
+  for (const edit of edits) {
+    if (edit.type === "equal") {
+      current = null;
+      oldPos = edit.aIndex + 1;
+      newPos = edit.bIndex + 1;
+      continue;
+    }
+    if (!current) {
+      current = { oldStart: oldPos, oldLines: [], newStart: newPos, newLines: [] };
+      hunks.push(current);
+    }
+    if (edit.type === "delete") {
+      current.oldLines.push(oldLines[edit.aIndex]);
+      oldPos = edit.aIndex + 1;
+    } else {
+      current.newLines.push(newLines[edit.bIndex]);
+      newPos = edit.bIndex + 1;
+    }
+  }
+  return { oldLines, newLines, edits, hunks };
+}
+
+export interface DiffCell {
+  number: number;
+  text: string;
+}
+
+export type RowType = "equal" | "changed" | "removed" | "added";
+
+export interface DiffRow {
+  type: RowType;
+  left?: DiffCell;
+  right?: DiffCell;
+  // Index into LineDiff.hunks for non-equal rows.
+  hunkIndex?: number;
+}
+
+// Lays a line diff out as side-by-side rows. Within a hunk, removed and added
+// lines are paired up in order so edited lines sit next to each other.
+export function toSideBySideRows(diff: LineDiff): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  const pushEqualUntil = (oldEnd: number) => {
+    while (oldPos < oldEnd) {
+      rows.push({
+        type: "equal",
+        left: { number: oldPos + 1, text: diff.oldLines[oldPos] },
+        right: { number: newPos + 1, text: diff.newLines[newPos] },
+      });
+      oldPos++;
+      newPos++;
+    }
+  };
+
+  diff.hunks.forEach((hunk, hunkIndex) => {
+    pushEqualUntil(hunk.oldStart);
+    const pairs = Math.max(hunk.oldLines.length, hunk.newLines.length);
+    for (let i = 0; i < pairs; i++) {
+      const left = i < hunk.oldLines.length ? { number: hunk.oldStart + i + 1, text: hunk.oldLines[i] } : undefined;
+      const right = i < hunk.newLines.length ? { number: hunk.newStart + i + 1, text: hunk.newLines[i] } : undefined;
+      rows.push({ type: left && right ? "changed" : left ? "removed" : "added", left, right, hunkIndex });
+    }
+    oldPos = hunk.oldStart + hunk.oldLines.length;
+    newPos = hunk.newStart + hunk.newLines.length;
+  });
+  pushEqualUntil(diff.oldLines.length);
+  return rows;
+}
+
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+// Splits on whitespace and LaTeX punctuation while keeping the delimiters, so
+// joining the tokens reproduces the line exactly.
+function tokenize(line: string) {
+  return line.split(/(\s+|[{}[\]()\\$&%,.;:|])/).filter((token) => token !== "");
+}
+
+function mergeSegments(segments: WordSegment[]) {
+  const merged: WordSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.changed === segment.changed) last.text += segment.text;
+    else merged.push({ ...segment });
+  }
+  return merged;
+}
+
+export function diffWords(oldLine: string, newLine: string): { left: WordSegment[]; right: WordSegment[] } {
+  const a = tokenize(oldLine);
+  const b = tokenize(newLine);
+  const left: WordSegment[] = [];
+  const right: WordSegment[] = [];
+  for (const edit of diffSequences(a, b)) {
+    if (edit.type === "equal") {
+      left.push({ text: a[edit.aIndex], changed: false });
+      right.push({ text: b[edit.bIndex], changed: false });
+    } else if (edit.type === "delete") {
+      left.push({ text: a[edit.aIndex], changed: true });
+    } else {
+      right.push({ text: b[edit.bIndex], changed: true });
+    }
+  }
+  return { left: mergeSegments(left), right: mergeSegments(right) };
+}
+
+export type HunkDecision = "accepted" | "rejected";
+
+// Rebuilds the new text with every rejected hunk reverted to its old lines.
+// Hunks without a decision keep the new version.
+export function mergeHunks(diff: LineDiff, decisions: Record<number, HunkDecision>) {
+  const output: string[] = [];
+  let newPos = 0;
+  diff.hunks.forEach((hunk, index) => {
+    output.push(...diff.newLines.slice(newPos, hunk.newStart));
+    output.push(...(decisions[index] === "rejected" ? hunk.oldLines : hunk.newLines));
+    newPos = hunk.newStart + hunk.newLines.length;
+  });
+  output.push(...diff.newLines.slice(newPos));
+  return output.join("\n");
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { findUnsupportedClaims } from "./factCheck";
+
+const doc = (body: string) => `\\documentclass{article}\n\\begin{document}\n${body}\n\\end{document}\n`;
+const ORIGINAL = doc("\\item Built reports for the sales team");
+
+describe("findUnsupportedClaims", () => {
+  it("does not treat related words as new skills", () => {
+    const claims = findUnsupportedClaims(ORIGINAL, doc("\\item Built reports with containers for the sales team"), ["Docker"]);
+    expect(claims).toEqual([]);
+  });
+
+  it("reports a skill once, not again as a name", () => {
+    const claims = findUnsupportedClaims(ORIGINAL, doc("\\item Built Tableau and Tableau-style reports for the sales team"), ["Tableau"]);
+    expect(claims.map((claim) => `${claim.kind}:${claim.text}`)).toEqual(["skill:Tableau"]);
+  });
+});
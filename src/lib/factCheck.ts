@@ -0,0 +1,104 @@
+// Flags facts in a tailored resume that the original never mentions: new
+// names (employers, schools, products), numbers, dates and skills. Only lines
+// that changed are checked, and a fact counts as supported when it appears
+// anywhere in the original, so moving a detail between bullets is fine.
+
+import { latexToText, scoreText, tokenize, type AtsKeyword } from "./ats";
+import { diffLines } from "./diff";
+import { toPlainText } from "./resume";
+
+export type ClaimKind = "name" | "number" | "date" | "skill";
+
+export interface UnsupportedClaim {
+  kind: ClaimKind;
+  text: string;
+  // 1-based line in the tailored source.
+  line: number;
+  // The changed line as plain text.
+  context: string;
+}
+
+export const CLAIM_LABELS: Record<ClaimKind, string> = {
+  name: "New name",
+  number: "New number",
+  date: "New date",
+  skill: "New skill",
+};
+
+const NUMBER_RE = /\$?\d[\d,]*(?:\.\d+)?\s?(?:%|\+|[kmb]\b|x\b)?/gi;
+const MONTHS = "Jan(uary)?|Feb(ruary)?|Mar(ch)?|Apr(il)?|May|June?|July?|Aug(ust)?|Sep(t(ember)?)?|Oct(ober)?|Nov(ember)?|Dec(ember)?";
+const MONTH_RE = new RegExp(`\\b(${MONTHS})\\b`, "g");
+const MONTH_WORD_RE = new RegExp(`^(${MONTHS})$`);
+// Capitalised words, acronyms and names like "GraphQL" or "AT&T".
+const CAPITALISED_RE = /[A-Z][\w&+#.-]*[\w+#]|[A-Z]/g;
+const YEAR_RE = /^(19|20)\d\d$/;
+
+function normalizeNumber(text: string) {
+  return text.toLowerCase().replace(/[$,\s]/g, "");
+}
+
+// Sentence-initial words are capitalised anyway ("Led", "Built"), so they only
+// count as names when they have capitals past the first letter.
+function isSentenceStart(text: string, index: number) {
+  const before = text.slice(0, index).trimEnd();
+  return before === "" || /[.!?:;•–—-]$/.test(before);
+}
+
+// `supporting` is extra plain text that also counts as a source, such as the
+// job description for a cover letter.
+export function findUnsupportedClaims(original: string, tailored: string, skills: (string | AtsKeyword)[] = [], supporting = ""): UnsupportedClaim[] {
+  const originalText = `${latexToText(original)} ${supporting}`.trim();
+  const originalWords = new Set(tokenize(originalText));
+  const originalNumbers = new Set((originalText.match(NUMBER_RE) || []).map(normalizeNumber));
+  const originalMonths = new Set((originalText.match(MONTH_RE) || []).map((m) => m.slice(0, 3).toLowerCase()));
+  // Only the reviewed skills: the whole synonym table would flag everyday
+  // words that merely relate to a skill.
+  const keywords: AtsKeyword[] = skills.map((skill) => (typeof skill === "string" ? { term: skill, required: false } : skill));
+  const originalSkills = new Set(scoreText(originalText, keywords).matched.map((m) => m.keyword.term.toLowerCase()));
+
+  const claims: UnsupportedClaim[] = [];
+  const seen = new Set<string>();
+  const add = (kind: ClaimKind, text: string, line: number, context: string) => {
+    const key = `${kind}:${text.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    claims.push({ kind, text, line, context });
+  };
+
+  const diff = diffLines(original, tailored);
+  for (const hunk of diff.hunks) {
+    hunk.newLines.forEach((raw, i) => {
+      const text = toPlainText(raw).trim();
+      if (!text) return;
+      const line = hunk.newStart + i + 1;
+
+      for (const match of text.match(NUMBER_RE) || []) {
+        const value = normalizeNumber(match);
+        if (!/\d/.test(value) || originalNumbers.has(value) || originalNumbers.has(value.replace(/[%+kmbx]$/, ""))) continue;
+        add(YEAR_RE.test(value) ? "date" : "number", match.trim(), line, text);
+      }
+      for (const match of text.match(MONTH_RE) || []) {
+        if (!originalMonths.has(match.slice(0, 3).toLowerCase())) add("date", match, line, text);
+      }
+
+      const newSkills = scoreText(text, keywords).matched.filter((m) => !originalSkills.has(m.keyword.term.toLowerCase()));
+      const skillWords = new Set<string>();
+      for (const match of newSkills) {
+        add("skill", match.keyword.term, line, text);
+        for (const word of tokenize(match.matchedAs || match.keyword.term)) skillWords.add(word);
+      }
+
+      for (const match of text.matchAll(CAPITALISED_RE)) {
+        const word = match[0];
+        const hasInnerCapital = /[A-Z]/.test(word.slice(1));
+        if ((isSentenceStart(text, match.index!) && !hasInnerCapital) || word === "I") continue;
+        const tokens = tokenize(word);
+        if (tokens.length === 0 || tokens.every((t) => originalWords.has(t) || skillWords.has(t))) continue;
+        // "Tableau-style" after a "Tableau" skill claim is the same fact.
+        if (tokens.some((t) => t.split(/[./-]/).some((part) => skillWords.has(part)))) continue;
+        if (!MONTH_WORD_RE.test(word)) add("name", word, line, text);
+      }
+    });
+  }
+  return claims.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,75 @@
+import { escapeLatex, escapeUrl } from "../resume";
+import type { ImportedLine } from "./structure";
+
+const BLOCK_TAGS = new Set(["P", "H1", "H2", "H3", "H4", "H5", "H6", "LI"]);
+
+// Inline Word formatting that mammoth keeps (bold, italics, links) as LaTeX.
+function inlineToLatex(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeLatex(node.textContent || "");
+  if (!(node instanceof Element)) return "";
+  const inner = [...node.childNodes].map(inlineToLatex).join("");
+  if (!inner.trim()) return inner;
+  switch (node.tagName) {
+    case "STRONG":
+    case "B":
+      return `\\textbf{${inner}}`;
+    case "EM":
+    case "I":
+      return `\\textit{${inner}}`;
+    case "A": {
+      const href = node.getAttribute("href");
+      return href && !href.startsWith("#") ? `\\href{${escapeUrl(href)}}{${inner}}` : inner;
+    }
+    case "BR":
+      return " ";
+    default:
+      return inner;
+  }
+}
+
+function isAllBold(element: Element) {
+  const text = element.textContent?.trim() || "";
+  const bold = [...element.querySelectorAll("strong, b")].map((el) => el.textContent || "").join("").trim();
+  return text.length > 0 && bold.length >= text.length * 0.9;
+}
+
+function blockToLine(element: Element, bullet: boolean): ImportedLine {
+  const level = /^H(\d)$/.exec(element.tagName);
+  // Nested lists are read as their own items.
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll("ul, ol").forEach((list) => list.remove());
+  return {
+    text: (clone.textContent || "").replace(/\s+/g, " ").trim(),
+    latex: inlineToLatex(clone).replace(/\s+/g, " ").trim(),
+    heading: level ? Math.min(Number(level[1]), 3) : undefined,
+    bullet,
+    bold: !level && isAllBold(clone),
+  };
+}
+
+// Word documents go through mammoth's semantic HTML: headings, paragraphs,
+// list items and table rows, in document order.
+export async function docxToLines(data: ArrayBuffer): Promise<{ lines: ImportedLine[]; messages: string[] }> {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.convertToHtml({ arrayBuffer: data });
+  const doc = new DOMParser().parseFromString(`<body>${result.value}</body>`, "text/html");
+  const lines: ImportedLine[] = [];
+  const walk = (parent: Element) => {
+    for (const child of [...parent.children]) {
+      if (child.tagName === "TABLE") {
+        // Layout tables: one line per row, cells separated like "a | b".
+        for (const row of child.querySelectorAll("tr")) {
+          const cells = [...row.querySelectorAll("td, th")].map((cell) => (cell.textContent || "").replace(/\s+/g, " ").trim()).filter(Boolean);
+          if (cells.length) lines.push({ text: cells.join(" | ") });
+        }
+      } else if (BLOCK_TAGS.has(child.tagName)) {
+        lines.push(blockToLine(child, child.tagName === "LI"));
+        child.querySelectorAll(":scope > ul, :scope > ol").forEach(walk);
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(doc.body);
+  return { lines, messages: result.messages.filter((m) => m.type === "error").map((m) => m.message) };
+}
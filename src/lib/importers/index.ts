@@ -0,0 +1,63 @@
+// Importers for resumes that aren't LaTeX yet: PDF (text extraction), Word
+// (.docx) and Markdown. Each is reduced to lines, structured into ResumeData
+// and rendered with a template after the user has reviewed what was found.
+
+import { docxToLines } from "./docx";
+import { markdownToLines } from "./markdown";
+import { pdfToLines } from "./pdf";
+import { structureLines, type StructuredImport } from "./structure";
+
+export type { ImportedLine, StructuredImport } from "./structure";
+export { structureLines } from "./structure";
+export { markdownToLines } from "./markdown";
+
+export type ImportFormat = "pdf" | "docx" | "markdown";
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; extensions: string[]; mimeTypes: string[] }> = {
+  pdf: { label: "PDF", extensions: [".pdf"], mimeTypes: ["application/pdf"] },
+  docx: { label: "Word", extensions: [".docx"], mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"] },
+  markdown: { label: "Markdown", extensions: [".md", ".markdown"], mimeTypes: ["text/markdown", "text/x-markdown"] },
+};
+
+export const IMPORT_ACCEPT = Object.values(IMPORT_FORMATS)
+  .flatMap((format) => format.extensions)
+  .join(",");
+
+export interface ResumeImport extends StructuredImport {
+  format: ImportFormat;
+  fileName: string;
+  lineCount: number;
+}
+
+export function detectImportFormat(file: File): ImportFormat | null {
+  const name = file.name.toLowerCase();
+  for (const [format, info] of Object.entries(IMPORT_FORMATS) as [ImportFormat, (typeof IMPORT_FORMATS)[ImportFormat]][]) {
+    if (info.extensions.some((ext) => name.endsWith(ext)) || info.mimeTypes.includes(file.type)) return format;
+  }
+  return null;
+}
+
+// `format` overrides detection by name, e.g. after sniffing the file's bytes.
+export async function importResumeFile(file: File, format = detectImportFormat(file)): Promise<ResumeImport> {
+  if (!format) throw new Error(`${file.name} is not a PDF, Word (.docx) or Markdown file`);
+  let lines;
+  const warnings: string[] = [];
+  try {
+    if (format === "markdown") {
+      lines = markdownToLines(await file.text());
+    } else if (format === "docx") {
+      const result = await docxToLines(await file.arrayBuffer());
+      lines = result.lines;
+      warnings.push(...result.messages);
+    } else {
+      lines = await pdfToLines(await file.arrayBuffer());
+    }
+  } catch (err) {
+    throw new Error(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (lines.length === 0) {
+    throw new Error(format === "pdf" ? `${file.name} has no text to extract; scanned PDFs need OCR first` : `${file.name} is empty`);
+  }
+  const structured = structureLines(lines);
+  return { ...structured, warnings: [...warnings, ...structured.warnings], format, fileName: file.name, lineCount: lines.length };
+}
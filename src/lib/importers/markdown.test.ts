@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { markdownToLines } from "./markdown";
+
+describe("markdownToLines", () => {
+  it("turns emphasis, code and links into LaTeX and plain text", () => {
+    const [line] = markdownToLines("- **Led** a *team* using `C#` ([site](https://ex.com/a_b#top))");
+    expect(line.bullet).toBe(true);
+    expect(line.latex).toBe("\\textbf{Led} a \\textit{team} using \\texttt{C\\#} (\\href{https://ex.com/a_b\\#top}{site})");
+    expect(line.text).toBe("Led a team using C# (https://ex.com/a_b#top)");
+  });
+
+  it("percent-encodes the braces and backslashes \\href can't take in an address", () => {
+    const [line] = markdownToLines("[docs](https://ex.com/{id}/a\\b?q=50%&x=1~2#end)");
+    expect(line.latex).toBe("\\href{https://ex.com/\\%7Bid\\%7D/a\\%5Cb?q=50\\%&x=1~2\\#end}{docs}");
+    expect(line.latex.split("{").length).toBe(line.latex.split("}").length);
+  });
+
+  it("reads headings and skips rules and comments", () => {
+    const lines = markdownToLines("# Jane Doe\n\n---\n<!-- note -->\n## Experience\r\nPlain line\\");
+    expect(lines.map((line) => [line.text, line.heading])).toEqual([
+      ["Jane Doe", 1],
+      ["Experience", 2],
+      ["Plain line", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { escapeLatex, escapeUrl } from "../resume";
+import type { ImportedLine } from "./structure";
+
+const INLINE_RE = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|\b_(.+?)_\b|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const LIST_RE = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+// Markdown emphasis, code and links as LaTeX; everything else is escaped.
+function inlineToLatex(text: string) {
+  let out = "";
+  let last = 0;
+  for (const match of text.matchAll(INLINE_RE)) {
+    out += escapeLatex(text.slice(last, match.index));
+    const [, strong, strong2, em, em2, code, label, url] = match;
+    if (strong || strong2) out += `\\textbf{${inlineToLatex(strong || strong2)}}`;
+    else if (em || em2) out += `\\textit{${inlineToLatex(em || em2)}}`;
+    else if (code) out += `\\texttt{${escapeLatex(code)}}`;
+    else out += `\\href{${escapeUrl(url)}}{${inlineToLatex(label)}}`;
+    last = match.index! + match[0].length;
+  }
+  return out + escapeLatex(text.slice(last));
+}
+
+// Links keep their label, unless the label is a word like "LinkedIn" and the
+// address is the useful part.
+function inlineToText(text: string) {
+  return text.replace(INLINE_RE, (_, strong, strong2, em, em2, code, label, url) => {
+    if (label !== undefined) return /[.@]/.test(label) ? label : url.replace(/^(mailto|tel):/i, "");
+    return strong || strong2 || em || em2 || code;
+  });
+}
+
+export function markdownToLines(markdown: string): ImportedLine[] {
+  const lines: ImportedLine[] = [];
+  for (const raw of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    let text = raw.trim();
+    if (!text || /^([-*_]\s*){3,}$/.test(text) || text.startsWith("<!--")) continue;
+    const heading = /^(#{1,6})\s+/.exec(text);
+    const bullet = LIST_RE.test(raw);
+    if (heading) text = text.slice(heading[0].length);
+    else if (bullet) text = text.replace(LIST_RE, "");
+    // A trailing double space or backslash is a Markdown line break.
+    text = text.replace(/\\$/, "").trim();
+    lines.push({
+      text: inlineToText(text),
+      latex: inlineToLatex(text),
+      heading: heading ? Math.min(heading[1].length, 3) : undefined,
+      bullet,
+      bold: /^(\*\*|__).+(\*\*|__)$/.test(text),
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,79 @@
+import type { ImportedLine } from "./structure";
+
+interface PdfLine {
+  y: number;
+  x: number;
+  size: number;
+  text: string;
+  // Left edge of the text after a bullet glyph, for spotting wrapped lines.
+  bulletTextX?: number;
+}
+
+// Items closer than this (in font sizes) belong to the same word group; a
+// wider gap is usually a right-aligned date or location.
+const COLUMN_GAP = 2;
+const BULLET_GLYPH_RE = /^[•●▪■◦○‣⁃∙·–-]$/;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+}
+
+// Rebuilds lines from pdf.js text items by their baseline, then guesses
+// headings from font size: PDFs have no structure of their own.
+export async function pdfToLines(data: ArrayBuffer): Promise<ImportedLine[]> {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = (await import("pdfjs-dist/build/pdf.worker.min.mjs?url")).default;
+  }
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const lines: PdfLine[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageLines: { y: number; items: { x: number; end: number; size: number; str: string }[] }[] = [];
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str.trim()) continue;
+        const [, , , d, x, y] = item.transform as number[];
+        const size = Math.abs(d) || item.height;
+        let line = pageLines.find((l) => Math.abs(l.y - y) <= size * 0.4);
+        if (!line) {
+          line = { y, items: [] };
+          pageLines.push(line);
+        }
+        line.items.push({ x, end: x + item.width, size, str: item.str });
+      }
+      pageLines.sort((a, b) => b.y - a.y);
+      for (const { y, items } of pageLines) {
+        items.sort((a, b) => a.x - b.x);
+        const size = Math.max(...items.map((item) => item.size));
+        let text = "";
+        let prevEnd = items[0].x;
+        let bulletTextX: number | undefined;
+        items.forEach((item, i) => {
+          const gap = item.x - prevEnd;
+          if (i > 0) text += gap > size * COLUMN_GAP ? "\t" : gap > size * 0.15 && !text.endsWith(" ") && !item.str.startsWith(" ") ? " " : "";
+          if (i === 1 && BULLET_GLYPH_RE.test(items[0].str.trim())) bulletTextX = item.x;
+          text += item.str;
+          prevEnd = item.end;
+        });
+        if (bulletTextX === undefined && /^[•●▪■◦○‣⁃∙·]\s/.test(text)) bulletTextX = items[0].x + size;
+        lines.push({ y: pageNumber * 10000 - y, x: items[0].x, size, text: text.replace(/ {2,}/g, " ").trim(), bulletTextX });
+      }
+    }
+  } finally {
+    pdf.destroy();
+  }
+
+  const bodySize = median(lines.map((line) => line.size));
+  let lastBulletTextX: number | undefined;
+  return lines.map((line, index): ImportedLine => {
+    const bullet = line.bulletTextX !== undefined;
+    const continuation = !bullet && lastBulletTextX !== undefined && Math.abs(line.x - lastBulletTextX) <= line.size * 0.5;
+    if (bullet) lastBulletTextX = line.bulletTextX;
+    else if (!continuation) lastBulletTextX = undefined;
+    const heading = index === 0 && line.size >= bodySize * 1.3 ? 1 : line.size >= bodySize * 1.12 ? 2 : undefined;
+    return { text: line.text, heading, bullet, continuation };
+  });
+}
@@ -0,0 +1,201 @@
+import { escapeLatex } from "../resume";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection } from "../templates";
+
+// Turns the lines of a non-LaTeX resume into ResumeData. Every importer
+// reduces its format to ImportedLines first; what the format knows for sure
+// (Markdown headings, Word list items, PDF font sizes) comes in as flags and
+// the rest is guessed from the text.
+
+export interface ImportedLine {
+  text: string;
+  // The same text as LaTeX, when the source has formatting worth keeping.
+  latex?: string;
+  // 1 for the document title, 2 for section headings, 3 for entry headings.
+  heading?: number;
+  bullet?: boolean;
+  bold?: boolean;
+  // A wrapped continuation of the line before.
+  continuation?: boolean;
+}
+
+export interface StructuredImport {
+  data: ResumeData;
+  // Things the user should check in the review step.
+  warnings: string[];
+}
+
+const KNOWN_SECTIONS = [
+  "summary",
+  "professional summary",
+  "profile",
+  "objective",
+  "about me",
+  "experience",
+  "work experience",
+  "professional experience",
+  "employment",
+  "employment history",
+  "education",
+  "projects",
+  "personal projects",
+  "skills",
+  "technical skills",
+  "core competencies",
+  "certifications",
+  "certificates",
+  "awards",
+  "honors",
+  "honors & awards",
+  "publications",
+  "leadership",
+  "volunteer",
+  "volunteering",
+  "activities",
+  "interests",
+  "languages",
+  "references",
+];
+
+const BULLET_PREFIX_RE = /^\s*[•●▪■◦○‣⁃∙·*–—-]\s+/;
+const EMAIL_RE = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE_RE = /\+?\(?\d[\d\s().-]{7,}\d/;
+const LINK_RE = /^(https?:\/\/)?(www\.)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i;
+const DATE_RE = /\b(19|20)\d{2}\b|\bpresent\b|\bcurrent\b/i;
+// "Austin, TX", "Berlin, Germany", "Remote".
+const LOCATION_RE = /^([A-Z][A-Za-z .'-]{1,30},\s*([A-Z]{2}|[A-Z][a-z]+( [A-Z][a-z]+)?)|[Rr]emote|[Hh]ybrid)$/;
+// Separators between the parts of a header or entry line.
+const PART_SPLIT_RE = /\s*(?:\||•|·|◦|⋅|\t|\s{3,}|\s[–—]\s|\s-\s)\s*/;
+
+function normalizeHeading(text: string) {
+  return text.toLowerCase().replace(/[:\s]+$/, "").replace(/\s+/g, " ").trim();
+}
+
+// Level-1 headings after the name are sections too: some resumes use them
+// for everything.
+function isSectionHeading(line: ImportedLine) {
+  if (line.bullet) return false;
+  if (line.heading === 1 || line.heading === 2) return true;
+  const text = line.text.trim();
+  if (KNOWN_SECTIONS.includes(normalizeHeading(text))) return true;
+  // Short all-caps lines such as "WORK HISTORY".
+  const words = text.split(/\s+/);
+  return words.length <= 4 && /[A-Z]{3}/.test(text) && text === text.toUpperCase() && !/\d/.test(text);
+}
+
+function toLatex(line: ImportedLine) {
+  return line.latex?.trim() || escapeLatex(line.text.replace(BULLET_PREFIX_RE, "").trim());
+}
+
+function splitParts(text: string) {
+  return text
+    .split(PART_SPLIT_RE)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// Spreads "Role | Company | City, ST | 2020 – Present" style parts over the
+// entry's fields, filling whichever are still empty.
+function fillEntry(entry: ResumeDataEntry, line: ImportedLine) {
+  const parts = splitParts(line.text);
+  // A date range like "2020 - Present" is split by the dash; join it back.
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (DATE_RE.test(parts[i]) && DATE_RE.test(parts[i + 1]) && parts[i].length < 12 && parts[i + 1].length < 12) {
+      parts.splice(i, 2, `${parts[i]} -- ${parts[i + 1]}`);
+    }
+  }
+  for (const part of parts) {
+    const value = escapeLatex(part);
+    if (!entry.date && DATE_RE.test(part) && part.length <= 40) entry.date = value;
+    else if (!entry.location && LOCATION_RE.test(part) && (entry.title || parts.length > 1)) entry.location = value;
+    else if (!entry.title) entry.title = value;
+    else if (!entry.organization) entry.organization = value;
+    else entry.title = `${entry.title}, ${value}`;
+  }
+}
+
+function emptyEntry(): ResumeDataEntry {
+  return { title: "", organization: "", location: "", date: "", bullets: [] };
+}
+
+export function structureLines(input: ImportedLine[]): StructuredImport {
+  const lines = input.filter((line) => line.text.trim());
+  const warnings: string[] = [];
+  const contact = { name: "", email: "", phone: "", location: "", links: [] as string[] };
+  const sections: ResumeDataSection[] = [];
+
+  // Everything before the first section heading is the header.
+  let index = 0;
+  while (index < lines.length && !(isSectionHeading(lines[index]) && (contact.name || lines[index].heading !== 1))) {
+    const line = lines[index++];
+    if (!contact.name && (line.heading === 1 || !EMAIL_RE.test(line.text))) {
+      contact.name = escapeLatex(line.text.replace(/^#+\s*/, "").trim());
+      continue;
+    }
+    for (const part of splitParts(line.text)) {
+      const email = EMAIL_RE.exec(part)?.[0];
+      if (email && !contact.email) contact.email = escapeLatex(email);
+      else if (LINK_RE.test(part) && !email) contact.links.push(escapeLatex(part));
+      else if (PHONE_RE.test(part) && !contact.phone) contact.phone = escapeLatex(PHONE_RE.exec(part)![0].trim());
+      else if (LOCATION_RE.test(part) && !contact.location) contact.location = escapeLatex(part);
+    }
+  }
+
+  let section: ResumeDataSection | null = null;
+  let entry: ResumeDataEntry | null = null;
+  // Where the last bullet went, so wrapped lines can be joined to it.
+  let lastBullets: string[] | null = null;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (isSectionHeading(line)) {
+      const title = line.text.replace(/[:\s]+$/, "").trim();
+      section = { title: escapeLatex(title.toUpperCase() === title ? title.charAt(0) + title.slice(1).toLowerCase() : title), text: "", entries: [], bullets: [] };
+      sections.push(section);
+      entry = null;
+      lastBullets = null;
+      continue;
+    }
+    const text = toLatex(line);
+    const continues = line.continuation || (!line.bullet && !line.heading && /^[a-z(]/.test(line.text.trim()));
+    if (lastBullets && lastBullets.length && continues) {
+      lastBullets[lastBullets.length - 1] += ` ${text}`;
+      continue;
+    }
+    if (line.bullet || BULLET_PREFIX_RE.test(line.text)) {
+      lastBullets = entry ? entry.bullets : section.bullets;
+      lastBullets.push(text);
+      continue;
+    }
+    lastBullets = null;
+    const short = line.text.length <= 100 && !/[.!?]$/.test(line.text.trim());
+    const looksLikeHeading = line.heading === 3 || line.bold || (short && DATE_RE.test(line.text));
+    if (looksLikeHeading) {
+      // A second heading line before any bullets completes the same entry.
+      if (entry && entry.bullets.length === 0 && !(entry.organization && entry.date)) fillEntry(entry, line);
+      else {
+        entry = emptyEntry();
+        fillEntry(entry, line);
+        section.entries.push(entry);
+      }
+      continue;
+    }
+    if (entry && entry.bullets.length === 0 && !entry.organization) {
+      fillEntry(entry, line);
+      continue;
+    }
+    // Free text: a summary paragraph, or "Languages: Java, Python" lines.
+    if (section.entries.length === 0 && section.bullets.length === 0 && !/:/.test(line.text)) section.text = section.text ? `${section.text} ${text}` : text;
+    else {
+      section.bullets.push(text);
+      lastBullets = section.bullets;
+    }
+  }
+
+  if (!contact.name) warnings.push("No name was found at the top of the resume.");
+  if (!contact.email) warnings.push("No email address was found.");
+  if (sections.length === 0) warnings.push("No section headings were recognised, so the resume could not be split into sections.");
+  for (const s of sections) {
+    if (!s.text && s.entries.length === 0 && s.bullets.length === 0) warnings.push(`The "${s.title}" section is empty.`);
+  }
+  return { data: { contact, sections }, warnings };
+}
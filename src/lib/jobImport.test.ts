@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { extractJobPosting, formatJobPosting, normalizeJobUrl } from "./jobImport";
+
+const jsonLd = (data: unknown) => `<html><head><script type="application/ld+json">${JSON.stringify(data)}</script></head><body><p>Page chrome</p></body></html>`;
+
+describe("extractJobPosting", () => {
+  it("reads a schema.org JobPosting, including one inside a @graph", () => {
+    const posting = {
+      "@type": "JobPosting",
+      title: "Data Engineer",
+      hiringOrganization: { "@type": "Organization", name: "Acme" },
+      jobLocation: [{ address: { addressLocality: "Denver", addressRegion: "CO", addressCountry: { name: "US" } } }],
+      description: "<p>Build pipelines.</p><ul><li>Python</li><li>SQL</li></ul>",
+    };
+    const expected = {
+      url: "https://careers.acme.com/1",
+      source: "jsonld",
+      title: "Data Engineer",
+      company: "Acme",
+      location: "Denver, CO, US",
+      description: "Build pipelines.\n\n• Python\n• SQL",
+    };
+    expect(extractJobPosting(jsonLd(posting), "https://careers.acme.com/1")).toEqual(expected);
+    expect(extractJobPosting(jsonLd({ "@graph": [{ "@type": "WebPage" }, posting] }), "https://careers.acme.com/1")).toEqual(expected);
+  });
+
+  it("labels JSON-LD from Workday and skips postings without a description", () => {
+    const html = jsonLd({ "@type": ["JobPosting"], title: "Analyst", description: "Crunch numbers" });
+    expect(extractJobPosting(html, "https://acme.wd5.myworkdayjobs.com/x").source).toBe("workday");
+    expect(extractJobPosting(jsonLd({ "@type": "JobPosting", title: "Analyst" }), "https://example.com/").source).toBe("generic");
+  });
+
+  it("reads a Greenhouse posting", () => {
+    const html = `<div class="job__title"><h1>Backend Engineer</h1></div>
+      <span class="company-name">at Initech</span>
+      <div class="job__location">Remote</div>
+      <div class="job__description"><p>You will own the billing service.</p><p>Requirements:</p><ul><li>Go</li></ul></div>`;
+    expect(extractJobPosting(html, "https://job-boards.greenhouse.io/initech/jobs/1")).toEqual({
+      url: "https://job-boards.greenhouse.io/initech/jobs/1",
+      source: "greenhouse",
+      title: "Backend Engineer",
+      company: "Initech",
+      location: "Remote",
+      description: "You will own the billing service.\n\nRequirements:\n\n• Go",
+    });
+  });
+
+  it("reads a Lever posting from its description sections", () => {
+    const html = `<div class="posting-page">
+      <div class="posting-headline"><h2>Product Designer</h2><div class="posting-categories"><div class="location">Berlin</div></div></div>
+      <div data-qa="job-description"><p>Design the editor.</p></div>
+      <div class="section-wrapper"><div class="section"><h3>What you bring</h3><ul><li>Figma</li></ul></div></div>
+    </div>`;
+    expect(extractJobPosting(html, "https://jobs.lever.co/acme/1")).toEqual({
+      url: "https://jobs.lever.co/acme/1",
+      source: "lever",
+      title: "Product Designer",
+      location: "Berlin",
+      description: "Design the editor.\n\nWhat you bring\n\n• Figma",
+    });
+  });
+
+  it("falls back to the main content without the page chrome", () => {
+    const html = `<title>Jobs</title><nav>Home | About</nav><main><h1>Support Lead</h1><p>Help customers.</p></main><footer>© Acme</footer>`;
+    const posting = extractJobPosting(html, "https://example.com/jobs/1");
+    expect(posting).toMatchObject({ source: "generic", title: "Support Lead", description: "Support Lead\n\nHelp customers." });
+    expect(formatJobPosting(posting)).toBe("Support Lead\n\nSupport Lead\n\nHelp customers.");
+  });
+});
+
+describe("normalizeJobUrl", () => {
+  it("adds https to a bare address", () => {
+    expect(normalizeJobUrl(" jobs.lever.co/acme/1 ")).toBe("https://jobs.lever.co/acme/1");
+  });
+});
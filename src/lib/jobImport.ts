@@ -0,0 +1,216 @@
+// Job posting import: fetches a posting through a small CORS proxy, strips
+// page boilerplate and recognises common ATS layouts (Greenhouse, Lever and
+// anything publishing a schema.org JobPosting, which covers Workday).
+
+export type JobSource = "jsonld" | "greenhouse" | "lever" | "workday" | "generic";
+
+export interface JobPosting {
+  url: string;
+  source: JobSource;
+  title?: string;
+  company?: string;
+  location?: string;
+  description: string;
+}
+
+export const JOB_SOURCE_LABELS: Record<JobSource, string> = {
+  jsonld: "JobPosting metadata",
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+  workday: "Workday",
+  generic: "Page content",
+};
+
+// `{url}` is replaced with the encoded posting URL; without a placeholder the
+// URL is appended as a `url` query parameter. The default points at the proxy
+// served by the Vite dev/preview server (see vite.config.ts).
+const DEFAULT_PROXY = "/api/fetch-job?url={url}";
+
+export function getJobProxyTemplate() {
+  return (import.meta as any).env?.VITE_JOB_PROXY_URL || DEFAULT_PROXY;
+}
+
+export function buildProxyUrl(template: string, url: string) {
+  const encoded = encodeURIComponent(url);
+  if (template.includes("{url}")) return template.replace("{url}", encoded);
+  return `${template}${template.includes("?") ? "&" : "?"}url=${encoded}`;
+}
+
+export function normalizeJobUrl(input: string) {
+  const trimmed = input.trim();
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  const parsed = new URL(withScheme);
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error("Only http(s) job URLs are supported");
+  return parsed.toString();
+}
+
+export async function fetchJobPosting(input: string, proxyTemplate = getJobProxyTemplate()): Promise<JobPosting> {
+  const url = normalizeJobUrl(input);
+  const res = await fetch(buildProxyUrl(proxyTemplate, url));
+  if (!res.ok) throw new Error(`Could not fetch the job posting (${res.status})`);
+  const html = await res.text();
+  const posting = extractJobPosting(html, url);
+  if (!posting.description.trim()) throw new Error("No job description found on that page");
+  return posting;
+}
+
+export function extractJobPosting(html: string, url: string): JobPosting {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const host = safeHostname(url);
+
+  const fromJsonLd = extractJsonLd(doc);
+  if (fromJsonLd) {
+    return { url, source: /workday/i.test(host) ? "workday" : "jsonld", ...fromJsonLd };
+  }
+
+  if (/greenhouse\.io$/i.test(host) || doc.querySelector("#app_body, .job__description")) {
+    const body = doc.querySelector(".job__description, #content, #app_body");
+    if (body) {
+      return {
+        url,
+        source: "greenhouse",
+        title: textOf(doc.querySelector(".job__title h1, .app-title, h1")),
+        company: textOf(doc.querySelector(".company-name")).replace(/^at\s+/i, "") || undefined,
+        location: textOf(doc.querySelector(".job__location, .location")) || undefined,
+        description: htmlToText(body),
+      };
+    }
+  }
+
+  if (/lever\.co$/i.test(host) || doc.querySelector(".posting-page, .posting-headline")) {
+    const sections = Array.from(doc.querySelectorAll('[data-qa="job-description"], .posting-page .section-wrapper .section'));
+    if (sections.length > 0) {
+      return {
+        url,
+        source: "lever",
+        title: textOf(doc.querySelector(".posting-headline h2")) || undefined,
+        location: textOf(doc.querySelector(".posting-categories .location, .posting-categories .sort-by-time")) || undefined,
+        description: sections.map(htmlToText).filter(Boolean).join("\n\n"),
+      };
+    }
+  }
+
+  stripBoilerplate(doc);
+  const main = doc.querySelector("main, article, [role='main']") || largestTextBlock(doc) || doc.body;
+  return {
+    url,
+    source: "generic",
+    title: textOf(doc.querySelector("h1")) || doc.title || undefined,
+    description: main ? htmlToText(main) : "",
+  };
+}
+
+function safeHostname(url: string) {
+  try { return new URL(url).hostname; } catch (e) { return ""; }
+}
+
+function textOf(el: Element | null) {
+  return el ? (el.textContent || "").replace(/\s+/g, " ").trim() : "";
+}
+
+function extractJsonLd(doc: Document): Omit<JobPosting, "url" | "source"> | null {
+  const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'));
+  for (const script of scripts) {
+    let data: any;
+    try { data = JSON.parse(script.textContent || ""); } catch (e) { continue; }
+    const posting = findJobPosting(data);
+    if (!posting || !posting.description) continue;
+    const descriptionDoc = new DOMParser().parseFromString(String(posting.description), "text/html");
+    const place = Array.isArray(posting.jobLocation) ? posting.jobLocation[0] : posting.jobLocation;
+    const address = place?.address || {};
+    const location = [address.addressLocality, address.addressRegion, address.addressCountry?.name || address.addressCountry]
+      .filter((part) => typeof part === "string" && part)
+      .join(", ");
+    return {
+      title: posting.title || undefined,
+      company: posting.hiringOrganization?.name || undefined,
+      location: location || undefined,
+      description: htmlToText(descriptionDoc.body),
+    };
+  }
+  return null;
+}
+
+function findJobPosting(data: any): any {
+  if (!data || typeof data !== "object") return null;
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const found = findJobPosting(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  const type = data["@type"];
+  if (type === "JobPosting" || (Array.isArray(type) && type.includes("JobPosting"))) return data;
+  return findJobPosting(data["@graph"]);
+}
+
+const BOILERPLATE_SELECTOR = [
+  "script", "style", "noscript", "template", "svg", "iframe", "form",
+  "nav", "header", "footer", "aside",
+  "[role='navigation']", "[role='banner']", "[role='contentinfo']", "[aria-hidden='true']",
+].join(", ");
+
+const BOILERPLATE_PATTERN = /cookie|consent|newsletter|subscribe|share|social|breadcrumb|related|similar-jobs|sidebar/i;
+
+function stripBoilerplate(doc: Document) {
+  doc.querySelectorAll(BOILERPLATE_SELECTOR).forEach((el) => el.remove());
+  doc.querySelectorAll("[class], [id]").forEach((el) => {
+    const marker = `${el.getAttribute("class") || ""} ${el.id || ""}`;
+    if (BOILERPLATE_PATTERN.test(marker)) el.remove();
+  });
+}
+
+// Falls back to the element whose own paragraphs and list items hold the most
+// text, which on most career pages is the description container.
+function largestTextBlock(doc: Document): Element | null {
+  let best: Element | null = null;
+  let bestScore = 0;
+  doc.querySelectorAll("div, section").forEach((el) => {
+    const score = Array.from(el.children)
+      .filter((child) => /^(P|UL|OL|H2|H3|H4)$/.test(child.tagName))
+      .reduce((sum, child) => sum + (child.textContent || "").length, 0);
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+const BLOCK_TAGS = new Set(["P", "DIV", "SECTION", "ARTICLE", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "TABLE", "TR", "BLOCKQUOTE"]);
+
+export function htmlToText(root: Element): string {
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push((node.textContent || "").replace(/\s+/g, " "));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    if (/^(SCRIPT|STYLE|NOSCRIPT|TEMPLATE)$/.test(el.tagName)) return;
+    if (el.tagName === "BR") {
+      parts.push("\n");
+      return;
+    }
+    if (el.tagName === "LI") parts.push("\n• ");
+    else if (BLOCK_TAGS.has(el.tagName)) parts.push("\n\n");
+    el.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(el.tagName)) parts.push("\n\n");
+  };
+  walk(root);
+  return parts
+    .join("")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function formatJobPosting(posting: JobPosting) {
+  const heading = [posting.title, posting.company && `at ${posting.company}`].filter(Boolean).join(" ");
+  const lines = [heading, posting.location].filter(Boolean);
+  return lines.length > 0 ? `${lines.join("\n")}\n\n${posting.description}` : posting.description;
+}
@@ -0,0 +1,168 @@
+// Turns LaTeX problems into structured diagnostics that point at source
+// lines: a quick local lint (braces, environments, packages), latex.js
+// preview errors and pdfTeX logs from the WebAssembly engine. The editor
+// also reports fact-check warnings (see factCheck.ts) in the same shape.
+
+import { lineOfOffset, maskComments } from "./resume/latex";
+
+export type DiagnosticSeverity = "error" | "warning";
+export type DiagnosticOrigin = "lint" | "preview" | "pdf" | "facts";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  origin: DiagnosticOrigin;
+  message: string;
+  // 1-based; 0 when the position is unknown.
+  line: number;
+  column?: number;
+  command?: string;
+  hint?: string;
+}
+
+// Packages the latex.js HTML preview cannot load. The PDF engine handles them.
+const PREVIEW_UNSUPPORTED_PACKAGES = new Set([
+  "fontawesome", "fontawesome5", "titlesec", "enumitem", "fancyhdr", "marvosym", "tabularx", "geometry",
+  "fullpage", "babel", "fontspec", "moderncv", "academicons",
+]);
+
+const HINTS = {
+  unbalanced: "Unbalanced braces usually come from a rewritten bullet; compare it with the original in the Diff tab.",
+  undefined: "Check the spelling, or define it with \\newcommand. Models sometimes invent macros that the template does not define.",
+  environment: "Every \\begin{...} needs a matching \\end{...} in the same order.",
+  previewPackage: "The HTML preview does not support this package. Use the PDF preview, or ignore this for the final PDF.",
+  missingFile: "The engine could not find this file. Custom .cls/.sty files must be uploaded with the resume.",
+};
+
+function positionOf(source: string, offset: number) {
+  const line = lineOfOffset(source, offset);
+  const column = offset - source.lastIndexOf("\n", offset - 1);
+  return { line, column };
+}
+
+export function lintLatex(source: string): Diagnostic[] {
+  const masked = maskComments(source);
+  const diagnostics: Diagnostic[] = [];
+
+  const openBraces: number[] = [];
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      openBraces.push(i);
+    } else if (ch === "}") {
+      if (openBraces.length === 0) {
+        diagnostics.push({ severity: "error", origin: "lint", message: "Unmatched closing brace", ...positionOf(source, i), command: "}", hint: HINTS.unbalanced });
+      } else {
+        openBraces.pop();
+      }
+    }
+  }
+  for (const offset of openBraces) {
+    diagnostics.push({ severity: "error", origin: "lint", message: "Opening brace is never closed", ...positionOf(source, offset), command: "{", hint: HINTS.unbalanced });
+  }
+
+  const envRe = /\\(begin|end)\s*\{([^{}]+)\}/g;
+  const envStack: { name: string; offset: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = envRe.exec(masked))) {
+    const name = match[2].trim();
+    if (match[1] === "begin") {
+      envStack.push({ name, offset: match.index });
+      continue;
+    }
+    const open = envStack.pop();
+    if (!open) {
+      diagnostics.push({ severity: "error", origin: "lint", message: `\\end{${name}} without a matching \\begin`, ...positionOf(source, match.index), command: `\\end{${name}}`, hint: HINTS.environment });
+    } else if (open.name !== name) {
+      diagnostics.push({
+        severity: "error",
+        origin: "lint",
+        message: `\\begin{${open.name}} on line ${lineOfOffset(source, open.offset)} is closed by \\end{${name}}`,
+        ...positionOf(source, match.index),
+        command: `\\end{${name}}`,
+        hint: HINTS.environment,
+      });
+    }
+  }
+  for (const open of envStack) {
+    diagnostics.push({ severity: "error", origin: "lint", message: `\\begin{${open.name}} is never closed`, ...positionOf(source, open.offset), command: `\\begin{${open.name}}`, hint: HINTS.environment });
+  }
+
+  const packageRe = /\\usepackage\s*(\[[^\]]*\])?\s*\{([^{}]+)\}/g;
+  while ((match = packageRe.exec(masked))) {
+    for (const name of match[2].split(",").map((p) => p.trim())) {
+      if (PREVIEW_UNSUPPORTED_PACKAGES.has(name)) {
+        diagnostics.push({ severity: "warning", origin: "lint", message: `Package "${name}" is not available in the HTML preview`, ...positionOf(source, match.index), command: `\\usepackage{${name}}`, hint: HINTS.previewPackage });
+      }
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+}
+
+// Finds the first use of a command in the source, for errors that name the
+// command but carry no position.
+function locateCommand(source: string, command: string) {
+  const masked = maskComments(source);
+  const escaped = command.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const found = new RegExp(`${escaped}(?![a-zA-Z@])`).exec(masked);
+  return found ? positionOf(source, found.index) : { line: 0, column: undefined };
+}
+
+// `lineOffset` is the number of lines the preview prepended when wrapping a
+// body-only fragment in a document.
+export function diagnoseLatexJsError(err: any, source: string, lineOffset = 0): Diagnostic {
+  const message = String(err?.message || err);
+  const location = err?.location?.start;
+  const unknown = /unknown (macro|environment)[:\s]+\\?([a-zA-Z@*]+)/i.exec(message);
+  const pkg = /package[^"'`]*["'`]([\w-]+)["'`]?/i.exec(message);
+
+  let command: string | undefined;
+  let hint: string | undefined;
+  let position = location ? { line: Math.max(location.line - lineOffset, 0), column: location.column } : { line: 0, column: undefined };
+  if (unknown) {
+    command = unknown[1].toLowerCase() === "environment" ? `\\begin{${unknown[2]}}` : `\\${unknown[2]}`;
+    hint = HINTS.undefined;
+    if (!location) position = locateCommand(source, command);
+  } else if (pkg) {
+    command = `\\usepackage{${pkg[1]}}`;
+    hint = HINTS.previewPackage;
+    if (!location) position = locateCommand(source, "\\usepackage");
+  } else if (/expected|found/i.test(message)) {
+    hint = HINTS.unbalanced;
+  }
+  return { severity: "error", origin: "preview", message, ...position, command, hint };
+}
+
+// Parses pdfTeX's log: each error starts with "! message" and is followed by
+// an "l.<line> <context>" line whose last token is usually the culprit.
+export function diagnoseTexLog(log: string): Diagnostic[] {
+  const lines = log.split("\n");
+  const diagnostics: Diagnostic[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith("! ")) continue;
+    const message = lines[i].slice(2).trim();
+    let line = 0;
+    let command: string | undefined;
+    for (let j = i + 1; j < Math.min(lines.length, i + 12); j++) {
+      const at = /^l\.(\d+)\s?(.*)$/.exec(lines[j]);
+      if (at) {
+        line = Number(at[1]);
+        command = /(\\[a-zA-Z@]+)\s*$/.exec(at[2])?.[1];
+        break;
+      }
+    }
+    let hint: string | undefined;
+    const missingFile = /File `([^']+)' not found/.exec(message);
+    if (/Undefined control sequence/i.test(message)) hint = HINTS.undefined;
+    else if (/Missing [{}] inserted|Extra \}|Runaway argument|File ended while scanning/i.test(message)) hint = HINTS.unbalanced;
+    else if (/\\begin\{[^}]*\} ended by|\\end\{/.test(message)) hint = HINTS.environment;
+    else if (missingFile) {
+      hint = HINTS.missingFile;
+      command = missingFile[1];
+    }
+    diagnostics.push({ severity: "error", origin: "pdf", message, line, command, hint });
+  }
+  return diagnostics;
+}
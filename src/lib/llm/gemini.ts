@@ -0,0 +1,66 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { fetchJson } from "./http";
+import type { GenerateOptions, LLMProvider, ProviderConfig } from "./types";
+
+const GEMINI_API = "https://generativelanguage.googleapis.com/v1beta";
+
+export function createGeminiProvider(config: ProviderConfig): LLMProvider {
+  const genAI = new GoogleGenerativeAI(config.apiKey || "");
+  let resolvedModel: string | null = config.model || null;
+
+  const listModels = async () => {
+    const data = await fetchJson<{ models?: { name: string; supportedGenerationMethods?: string[] }[] }>(
+      `${GEMINI_API}/models`,
+      { headers: { "x-goog-api-key": config.apiKey || "" } },
+    );
+    return (data.models || [])
+      .filter((m) => (m.supportedGenerationMethods || []).includes("generateContent"))
+      .map((m) => m.name.replace(/^models\//, ""));
+  };
+
+  // Choose a model dynamically when none is configured. Many users see 404 for
+  // hard-coded model names because their API/account doesn't have access to
+  // that specific model or the API version differs. Try to list available
+  // models and pick a Gemini model; fall back to the env/default value if
+  // listing fails.
+  const resolveModel = async () => {
+    if (resolvedModel) return resolvedModel;
+    const fallback = (import.meta as any).env?.VITE_GA_MODEL || "gemini-2.5-flash";
+    try {
+      const models = await listModels();
+      resolvedModel = models.includes(fallback) ? fallback : models.find((m) => /gemini/i.test(m)) || models[0] || fallback;
+    } catch (listErr) {
+      // eslint-disable-next-line no-console
+      console.warn("Could not list models:", listErr);
+      resolvedModel = fallback;
+    }
+    return resolvedModel;
+  };
+
+  const getModel = async (options: GenerateOptions) =>
+    genAI.getGenerativeModel({
+      model: await resolveModel(),
+      generationConfig: {
+        temperature: options.temperature,
+        responseMimeType: options.json ? "application/json" : undefined,
+      },
+    });
+
+  return {
+    kind: "gemini",
+    listModels,
+    async generate(prompt, options = {}) {
+      const model = await getModel(options);
+      const result = await model.generateContent(prompt, { signal: options.signal });
+      return result.response.text();
+    },
+    async *stream(prompt, options = {}) {
+      const model = await getModel(options);
+      const result = await model.generateContentStream(prompt, { signal: options.signal });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+  };
+}
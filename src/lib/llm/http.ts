@@ -0,0 +1,72 @@
+// Small fetch helpers shared by the HTTP-based adapters.
+
+// Error messages reach the UI, so leave out the query string, where some APIs
+// take credentials.
+function displayUrl(url: string) {
+  return url.replace(/[?#].*$/, "");
+}
+
+export async function fetchJson<T = any>(url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    let detail = "";
+    try { detail = await res.text(); } catch (e) {}
+    throw new Error(`Request to ${displayUrl(url)} failed (${res.status})${detail ? `: ${detail.slice(0, 300)}` : ""}`);
+  }
+  return res.json() as Promise<T>;
+}
+
+export async function postStream(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    let detail = "";
+    try { detail = await res.text(); } catch (e) {}
+    throw new Error(`Request to ${displayUrl(url)} failed (${res.status})${detail ? `: ${detail.slice(0, 300)}` : ""}`);
+  }
+  return res.body;
+}
+
+// Splits a byte stream into text lines. Used for both NDJSON (Ollama) and
+// server-sent events (OpenAI-compatible, llama.cpp).
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        if (line) yield line;
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yields the `data:` payloads of a server-sent event stream, stopping at [DONE].
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (!line.startsWith("data:")) continue;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") return;
+    if (data) yield data;
+  }
+}
+
+export function joinUrl(base: string, path: string) {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
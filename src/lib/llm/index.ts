@@ -0,0 +1,106 @@
+import { createGeminiProvider } from "./gemini";
+import { createLlamaCppProvider } from "./llamacpp";
+import { createMockProvider } from "./mock";
+import { createOllamaProvider } from "./ollama";
+import { createOpenAIProvider } from "./openai";
+import type { LLMProvider, ProviderConfig, ProviderInfo, ProviderKind } from "./types";
+
+export type { GenerateOptions, LLMProvider, ProviderConfig, ProviderInfo, ProviderKind } from "./types";
+
+export const PROVIDERS: Record<ProviderKind, ProviderInfo> = {
+  gemini: {
+    kind: "gemini",
+    label: "Google Gemini",
+    requiresApiKey: true,
+    acceptsApiKey: true,
+    defaultBaseUrl: "",
+    defaultModel: "",
+    description: "Hosted Gemini models via Google AI Studio.",
+  },
+  openai: {
+    kind: "openai",
+    label: "OpenAI-compatible",
+    requiresApiKey: false,
+    acceptsApiKey: true,
+    defaultBaseUrl: "https://api.openai.com/v1",
+    defaultModel: "gpt-4o-mini",
+    description: "OpenAI or any server exposing /chat/completions (vLLM, LM Studio, gateways).",
+  },
+  ollama: {
+    kind: "ollama",
+    label: "Ollama (local)",
+    requiresApiKey: false,
+    acceptsApiKey: false,
+    defaultBaseUrl: "http://localhost:11434",
+    defaultModel: "llama3.1",
+    description: "Self-hosted models served by Ollama.",
+  },
+  llamacpp: {
+    kind: "llamacpp",
+    label: "llama.cpp server (local)",
+    requiresApiKey: false,
+    acceptsApiKey: false,
+    defaultBaseUrl: "http://localhost:8080",
+    defaultModel: "",
+    description: "Self-hosted model served by llama.cpp's llama-server.",
+  },
+  mock: {
+    kind: "mock",
+    label: "Mock (offline)",
+    requiresApiKey: false,
+    acceptsApiKey: false,
+    defaultBaseUrl: "",
+    defaultModel: "mock-echo",
+    description: "Echoes your resume back without calling any model. Useful for testing the flow offline.",
+  },
+};
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { kind: "gemini", model: "", baseUrl: "" };
+
+const STORAGE_KEY = "resume_wizard_provider";
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const info = PROVIDERS[config.kind];
+  const resolved: ProviderConfig = {
+    ...config,
+    model: config.model || info.defaultModel,
+    baseUrl: config.baseUrl || info.defaultBaseUrl,
+  };
+  switch (resolved.kind) {
+    case "gemini":
+      return createGeminiProvider(resolved);
+    case "openai":
+      return createOpenAIProvider(resolved);
+    case "ollama":
+      return createOllamaProvider(resolved);
+    case "llamacpp":
+      return createLlamaCppProvider(resolved);
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown provider: ${(resolved as ProviderConfig).kind}`);
+  }
+}
+
+// The provider choice is not secret, so it is stored in plain localStorage.
+// API keys keep going through the encrypted storage in Home.
+export function loadProviderConfig(): ProviderConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PROVIDER_CONFIG;
+    const parsed = JSON.parse(raw) as Partial<ProviderConfig>;
+    if (!parsed.kind || !(parsed.kind in PROVIDERS)) return DEFAULT_PROVIDER_CONFIG;
+    return { kind: parsed.kind, model: parsed.model || "", baseUrl: parsed.baseUrl || "" };
+  } catch (err) {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+}
+
+export function saveProviderConfig(config: ProviderConfig) {
+  try {
+    const { kind, model, baseUrl } = config;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ kind, model, baseUrl }));
+  } catch (err) {
+    // ignore localStorage errors
+  }
+}
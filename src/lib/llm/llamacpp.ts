@@ -0,0 +1,41 @@
+import { fetchJson, joinUrl, postStream, readSseData } from "./http";
+import type { GenerateOptions, LLMProvider, ProviderConfig } from "./types";
+
+// Adapter for the llama.cpp HTTP server (`llama-server`) native /completion
+// endpoint. The server runs a single model, so `model` is informational only.
+export function createLlamaCppProvider(config: ProviderConfig): LLMProvider {
+  const requestBody = (prompt: string, options: GenerateOptions, stream: boolean) => ({
+    prompt,
+    stream,
+    temperature: options.temperature,
+    // An empty object schema constrains sampling to any valid JSON object.
+    json_schema: options.json ? { type: "object" } : undefined,
+    // -1 lets the server generate until the end-of-sequence token.
+    n_predict: -1,
+  });
+
+  return {
+    kind: "llamacpp",
+    async listModels() {
+      const data = await fetchJson<{ data?: { id: string }[] }>(joinUrl(config.baseUrl, "v1/models"));
+      return (data.data || []).map((m) => m.id);
+    },
+    async generate(prompt, options = {}) {
+      const data = await fetchJson<{ content?: string }>(joinUrl(config.baseUrl, "completion"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody(prompt, options, false)),
+        signal: options.signal,
+      });
+      return data.content || "";
+    },
+    async *stream(prompt, options = {}) {
+      const body = await postStream(joinUrl(config.baseUrl, "completion"), requestBody(prompt, options, true), {}, options.signal);
+      for await (const data of readSseData(body)) {
+        const parsed = JSON.parse(data);
+        if (parsed.content) yield parsed.content;
+        if (parsed.stop) return;
+      }
+    },
+  };
+}
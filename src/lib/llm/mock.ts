@@ -0,0 +1,68 @@
+import { delay } from "../utils";
+import type { GenerateOptions, LLMProvider } from "./types";
+
+// Offline adapter for trying the whole flow without a network or API key.
+// Replies are derived from the prompt itself: skill-extraction requests get a
+// canned skill list, cover letter requests a canned letter, other JSON
+// requests an empty result (no changes), prompts
+// that embed a LaTeX document get that document back, anything else gets a
+// comma-separated skill list.
+
+const CANNED_SKILLS = "Communication, Problem Solving, Teamwork, Git, SQL";
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 15;
+
+const EMPTY_JSON_REPLY = JSON.stringify({ rewrites: [] });
+const SKILLS_JSON_REPLY = JSON.stringify({
+  skills: [
+    { name: "SQL", category: "tool", required: true },
+    { name: "Git", category: "tool", required: true },
+    { name: "Problem Solving", category: "hard_skill", required: true },
+    { name: "Communication", category: "soft_skill", required: true },
+    { name: "Teamwork", category: "soft_skill", required: false },
+    { name: "2+ years of software development", category: "experience", required: true, years: 2 },
+  ],
+});
+
+const COVER_LETTER_JSON_REPLY = JSON.stringify({
+  greeting: "Dear Hiring Manager,",
+  paragraphs: [
+    "I am excited to apply for this role. My experience matches the problems your team is working on.",
+    "In my recent work I have shipped features end to end, worked closely with other teams and kept quality high.",
+    "I would welcome the chance to talk about how I can help. Thank you for your time and consideration.",
+  ],
+  closing: "Sincerely,",
+});
+
+export function mockReply(prompt: string, options: GenerateOptions = {}) {
+  if (options.json) {
+    if (prompt.includes('{"skills": [')) return SKILLS_JSON_REPLY;
+    if (prompt.includes('{"greeting": ')) return COVER_LETTER_JSON_REPLY;
+    return EMPTY_JSON_REPLY;
+  }
+  const start = prompt.indexOf("\\documentclass");
+  const endMarker = "\\end{document}";
+  const end = prompt.indexOf(endMarker, start);
+  if (start !== -1 && end !== -1) return prompt.slice(start, end + endMarker.length);
+  return CANNED_SKILLS;
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    kind: "mock",
+    async listModels() {
+      return ["mock-echo"];
+    },
+    async generate(prompt, options: GenerateOptions = {}) {
+      await delay(CHUNK_DELAY_MS, options.signal);
+      return mockReply(prompt, options);
+    },
+    async *stream(prompt, options: GenerateOptions = {}) {
+      const reply = mockReply(prompt, options);
+      for (let i = 0; i < reply.length; i += CHUNK_SIZE) {
+        await delay(CHUNK_DELAY_MS, options.signal);
+        yield reply.slice(i, i + CHUNK_SIZE);
+      }
+    },
+  };
+}
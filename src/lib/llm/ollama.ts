@@ -0,0 +1,40 @@
+import { fetchJson, joinUrl, postStream, readLines } from "./http";
+import type { GenerateOptions, LLMProvider, ProviderConfig } from "./types";
+
+// Adapter for a local Ollama server using its native /api endpoints.
+export function createOllamaProvider(config: ProviderConfig): LLMProvider {
+  const requestBody = (prompt: string, options: GenerateOptions, stream: boolean) => ({
+    model: config.model,
+    prompt,
+    stream,
+    format: options.json ? "json" : undefined,
+    options: options.temperature === undefined ? undefined : { temperature: options.temperature },
+  });
+
+  return {
+    kind: "ollama",
+    async listModels() {
+      const data = await fetchJson<{ models?: { name: string }[] }>(joinUrl(config.baseUrl, "api/tags"));
+      return (data.models || []).map((m) => m.name);
+    },
+    async generate(prompt, options = {}) {
+      const data = await fetchJson<{ response?: string }>(joinUrl(config.baseUrl, "api/generate"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(requestBody(prompt, options, false)),
+        signal: options.signal,
+      });
+      return data.response || "";
+    },
+    async *stream(prompt, options = {}) {
+      const body = await postStream(joinUrl(config.baseUrl, "api/generate"), requestBody(prompt, options, true), {}, options.signal);
+      // Ollama streams newline-delimited JSON objects, one per token batch.
+      for await (const line of readLines(body)) {
+        const parsed = JSON.parse(line);
+        if (parsed.error) throw new Error(parsed.error);
+        if (parsed.response) yield parsed.response;
+        if (parsed.done) return;
+      }
+    },
+  };
+}
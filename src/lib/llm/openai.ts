@@ -0,0 +1,41 @@
+import { fetchJson, joinUrl, postStream, readSseData } from "./http";
+import type { GenerateOptions, LLMProvider, ProviderConfig } from "./types";
+
+// Adapter for any server speaking the OpenAI chat completions API (OpenAI,
+// Azure-style gateways, vLLM, LM Studio, llama.cpp's /v1 endpoints, ...).
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  const requestBody = (prompt: string, options: GenerateOptions, stream: boolean) => ({
+    model: config.model,
+    messages: [{ role: "user", content: prompt }],
+    temperature: options.temperature,
+    response_format: options.json ? { type: "json_object" } : undefined,
+    stream,
+  });
+
+  return {
+    kind: "openai",
+    async listModels() {
+      const data = await fetchJson<{ data?: { id: string }[] }>(joinUrl(config.baseUrl, "models"), { headers });
+      return (data.data || []).map((m) => m.id);
+    },
+    async generate(prompt, options = {}) {
+      const data = await fetchJson<{ choices?: { message?: { content?: string } }[] }>(joinUrl(config.baseUrl, "chat/completions"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(requestBody(prompt, options, false)),
+        signal: options.signal,
+      });
+      return data.choices?.[0]?.message?.content || "";
+    },
+    async *stream(prompt, options = {}) {
+      const body = await postStream(joinUrl(config.baseUrl, "chat/completions"), requestBody(prompt, options, true), headers, options.signal);
+      for await (const data of readSseData(body)) {
+        const parsed = JSON.parse(data);
+        const delta = parsed.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// Shared types for the pluggable LLM provider layer. Every adapter exposes the
+// same small surface so the tailoring flow never needs to know which backend
+// (hosted or self-hosted) it is talking to.
+
+export type ProviderKind = "gemini" | "openai" | "ollama" | "llamacpp" | "mock";
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  // Empty string means "let the adapter pick a sensible default".
+  model: string;
+  // Only used by HTTP adapters (OpenAI-compatible, Ollama, llama.cpp).
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface GenerateOptions {
+  temperature?: number;
+  signal?: AbortSignal;
+  // Ask the backend to constrain output to a JSON object where it supports it.
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Yields text deltas as they arrive; concatenating them gives the full reply.
+  stream(prompt: string, options?: GenerateOptions): AsyncGenerator<string>;
+  listModels(): Promise<string[]>;
+}
+
+export interface ProviderInfo {
+  kind: ProviderKind;
+  label: string;
+  requiresApiKey: boolean;
+  // Providers that accept a key but work without one (e.g. a local OpenAI-compatible server).
+  acceptsApiKey: boolean;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  description: string;
+}
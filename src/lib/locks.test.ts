@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { enforceLocks, lineRangeLock, type LockedRange } from "./locks";
+
+const ORIGINAL = ["line 1", "line 2", "line 3", "line 4", "line 5", "line 6"].join("\n");
+
+function lock(startLine: number, endLine: number): LockedRange {
+  return { id: `${startLine}-${endLine}`, label: `Lines ${startLine}-${endLine}`, startLine, endLine };
+}
+
+function edit(changes: Record<number, string>) {
+  return ORIGINAL.split("\n").map((line, index) => changes[index + 1] ?? line).join("\n");
+}
+
+describe("enforceLocks", () => {
+  it("reverts edits inside a lock and keeps edits outside it", () => {
+    const result = enforceLocks(ORIGINAL, edit({ 1: "LINE 1", 3: "LINE 3", 6: "LINE 6" }), [lock(3, 4)]);
+    expect(result.content).toBe(edit({ 1: "LINE 1", 6: "LINE 6" }));
+    expect(result.violations).toEqual([{ lock: lock(3, 4), original: ["line 3"], attempted: ["LINE 3"], line: 3 }]);
+  });
+
+  it("leaves the text alone without locks or without locked edits", () => {
+    const updated = edit({ 1: "LINE 1" });
+    expect(enforceLocks(ORIGINAL, updated, [])).toEqual({ content: updated, violations: [] });
+    expect(enforceLocks(ORIGINAL, updated, [lock(3, 4)])).toEqual({ content: updated, violations: [] });
+  });
+
+  it("reverts the whole of a hunk that crosses the edge of a lock", () => {
+    const result = enforceLocks(ORIGINAL, edit({ 2: "LINE 2", 3: "LINE 3" }), [lock(3, 4)]);
+    expect(result.content).toBe(ORIGINAL);
+    expect(result.violations[0].original).toEqual(["line 2", "line 3"]);
+  });
+
+  it("reverts lines added inside a lock but keeps lines added at its edges", () => {
+    const inside = ORIGINAL.replace("line 3\n", "line 3\nadded\n");
+    expect(enforceLocks(ORIGINAL, inside, [lock(3, 4)]).content).toBe(ORIGINAL);
+    const above = ORIGINAL.replace("line 3\n", "added\nline 3\n");
+    expect(enforceLocks(ORIGINAL, above, [lock(3, 4)]).content).toBe(above);
+    const below = ORIGINAL.replace("line 4\n", "line 4\nadded\n");
+    expect(enforceLocks(ORIGINAL, below, [lock(3, 4)]).content).toBe(below);
+  });
+
+  it("reverts removed locked lines", () => {
+    const result = enforceLocks(ORIGINAL, ORIGINAL.replace("line 4\n", ""), [lock(3, 4)]);
+    expect(result.content).toBe(ORIGINAL);
+  });
+
+  it("covers the end of the file with a lock that runs past it", () => {
+    const result = enforceLocks(ORIGINAL, `${edit({ 2: "LINE 2", 6: "LINE 6" })}\nline 7`, [lock(5, 99)]);
+    expect(result.content).toBe(edit({ 2: "LINE 2" }));
+    expect(result.violations.map((v) => v.line)).toEqual([6]);
+  });
+});
+
+describe("lineRangeLock", () => {
+  it("orders and clamps the range to the file", () => {
+    expect(lineRangeLock(99, 4, 6)).toMatchObject({ startLine: 4, endLine: 6, label: "Lines 4-6" });
+    expect(lineRangeLock(2, 2, 6)).toMatchObject({ startLine: 2, endLine: 2, label: "Line 2" });
+  });
+
+  it("rejects a range outside the file", () => {
+    expect(() => lineRangeLock(8, 9, 6)).toThrow("Lines 8-9 are not in the resume");
+  });
+});
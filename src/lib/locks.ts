@@ -0,0 +1,96 @@
+// Regions of the original resume that tailoring must leave untouched. Locks
+// are line ranges of the original source; section and header locks are
+// resolved to lines when they are created. Bullets inside a lock are never
+// offered to the model, and enforceLocks restores anything that still
+// changed inside one.
+
+import { diffLines, mergeHunks, type Hunk, type HunkDecision } from "./diff";
+import { createId } from "./db";
+import { toPlainText, type Resume, type ResumeSection } from "./resume";
+import { lineOfOffset } from "./resume/latex";
+
+export interface LineRange {
+  // 1-based and inclusive.
+  startLine: number;
+  endLine: number;
+}
+
+export interface LockedRange extends LineRange {
+  id: string;
+  label: string;
+  // Set for section locks, so the lock list can show which are on.
+  sectionId?: string;
+}
+
+export interface LockViolation {
+  lock: LockedRange;
+  // Lines of the original that were changed, and what they were changed to.
+  original: string[];
+  attempted: string[];
+  // 1-based first line of the change in the original.
+  line: number;
+}
+
+export const HEADER_LOCK_ID = "header";
+
+export function sectionLock(resume: Resume, section: ResumeSection): LockedRange | null {
+  if (!section.span) return null;
+  return {
+    id: createId(),
+    label: toPlainText(section.title) || "Untitled section",
+    sectionId: section.id,
+    startLine: lineOfOffset(resume.source, section.span.start),
+    endLine: lineOfOffset(resume.source, Math.max(section.span.start, section.span.end - 1)),
+  };
+}
+
+// Everything between \begin{document} and the first section: the name and
+// contact lines in every template we parse.
+export function headerLock(resume: Resume): LockedRange | null {
+  const begin = resume.source.indexOf("\\begin{document}");
+  const firstSection = resume.sections.find((section) => section.span);
+  const start = begin === -1 ? 0 : begin;
+  const end = firstSection ? firstSection.span!.start - 1 : resume.source.length - 1;
+  if (end <= start) return null;
+  return {
+    id: createId(),
+    label: "Header & contact details",
+    sectionId: HEADER_LOCK_ID,
+    startLine: lineOfOffset(resume.source, start),
+    endLine: lineOfOffset(resume.source, end),
+  };
+}
+
+export function lineRangeLock(startLine: number, endLine: number, lineCount: number): LockedRange {
+  const start = Math.max(1, Math.min(startLine, endLine));
+  const end = Math.min(lineCount, Math.max(startLine, endLine));
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) throw new Error(`Lines ${startLine}-${endLine} are not in the resume`);
+  return { id: createId(), label: start === end ? `Line ${start}` : `Lines ${start}-${end}`, startLine: start, endLine: end };
+}
+
+export function rangesOverlap(a: LineRange, b: LineRange) {
+  return a.startLine <= b.endLine && b.startLine <= a.endLine;
+}
+
+// Whether a diff hunk changes lines inside the lock. A pure insertion counts
+// when it lands strictly between two locked lines.
+function hunkTouches(hunk: Hunk, lock: LineRange) {
+  if (hunk.oldLines.length === 0) return hunk.oldStart >= lock.startLine && hunk.oldStart < lock.endLine;
+  return rangesOverlap({ startLine: hunk.oldStart + 1, endLine: hunk.oldStart + hunk.oldLines.length }, lock);
+}
+
+// Restores every locked region of `original` in `updated`, reverting whole
+// diff hunks that reach into a lock, and reports what was reverted.
+export function enforceLocks(original: string, updated: string, locks: LockedRange[]) {
+  if (locks.length === 0) return { content: updated, violations: [] as LockViolation[] };
+  const diff = diffLines(original, updated);
+  const decisions: Record<number, HunkDecision> = {};
+  const violations: LockViolation[] = [];
+  diff.hunks.forEach((hunk, index) => {
+    const lock = locks.find((l) => hunkTouches(hunk, l));
+    if (!lock) return;
+    decisions[index] = "rejected";
+    violations.push({ lock, original: hunk.oldLines, attempted: hunk.newLines, line: hunk.oldStart + 1 });
+  });
+  return { content: violations.length ? mergeHunks(diff, decisions) : updated, violations };
+}
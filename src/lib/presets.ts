@@ -0,0 +1,154 @@
+// Tailoring presets: the instructions, temperature and limits a run uses.
+// The three built-in presets replace the old light/medium/strong switch;
+// custom ones live in localStorage and can be shared as JSON files.
+
+import { z } from "zod";
+import { createId } from "./db";
+
+export const TailoringPresetSchema = z.object({
+  name: z.string().trim().min(1, "Preset name is required"),
+  instructions: z.string().trim().min(1, "Preset instructions are required"),
+  temperature: z.number().min(0).max(2).default(0.7),
+  // Section titles the model may rewrite; empty means every section.
+  editableSections: z.array(z.string().trim().min(1)).default([]),
+  // Longest a rewritten bullet may be, in visible characters.
+  maxBulletLength: z.number().int().positive().nullish(),
+  description: z.string().default(""),
+});
+
+export type TailoringPresetInput = z.input<typeof TailoringPresetSchema>;
+
+export interface TailoringPreset extends z.infer<typeof TailoringPresetSchema> {
+  id: string;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: TailoringPreset[] = [
+  {
+    id: "light",
+    name: "Light",
+    description: "Subtle adjustments to match job requirements",
+    instructions: "Make minimal, subtle changes to better align with the job requirements. Keep most of the original content intact.",
+    temperature: 0.3,
+    editableSections: [],
+    builtIn: true,
+  },
+  {
+    id: "medium",
+    name: "Medium",
+    description: "Balanced customization with key optimizations",
+    instructions: "Make moderate changes to highlight relevant experience and skills. Reword bullet points to match job requirements while maintaining authenticity.",
+    temperature: 0.5,
+    editableSections: [],
+    builtIn: true,
+  },
+  {
+    id: "strong",
+    name: "Strong",
+    description: "Comprehensive tailoring for maximum impact",
+    instructions: "Significantly optimize the resume for ATS and job requirements. Rewrite sections to strongly emphasize matching qualifications and use keywords from the job description.",
+    temperature: 0.8,
+    editableSections: [],
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_PRESET_ID = "medium";
+
+const STORAGE_KEY = "resume_wizard_presets";
+const ACTIVE_KEY = "resume_wizard_preset";
+
+function fromInput(input: TailoringPresetInput, id = createId()): TailoringPreset {
+  return { ...TailoringPresetSchema.parse(input), id };
+}
+
+// Custom presets only; the built-ins are always prepended.
+export function loadCustomPresets(): TailoringPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const stored = JSON.parse(raw) as unknown[];
+    return stored.flatMap((item) => {
+      const parsed = TailoringPresetSchema.safeParse(item);
+      const id = (item as { id?: unknown })?.id;
+      return parsed.success && typeof id === "string" ? [{ ...parsed.data, id }] : [];
+    });
+  } catch (err) {
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: TailoringPreset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter((preset) => !preset.builtIn)));
+  } catch (err) {
+    // ignore localStorage errors
+  }
+}
+
+export function loadActivePresetId() {
+  try {
+    return localStorage.getItem(ACTIVE_KEY) || DEFAULT_PRESET_ID;
+  } catch (err) {
+    return DEFAULT_PRESET_ID;
+  }
+}
+
+export function saveActivePresetId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (err) {
+    // ignore localStorage errors
+  }
+}
+
+export function findPreset(presets: TailoringPreset[], id: string) {
+  return presets.find((preset) => preset.id === id) || BUILT_IN_PRESETS.find((preset) => preset.id === DEFAULT_PRESET_ID)!;
+}
+
+// "Name", then "Name (2)", "Name (3)"... so imports never clash.
+export function uniquePresetName(name: string, presets: TailoringPreset[]) {
+  const taken = new Set(presets.map((preset) => preset.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+}
+
+// Validates a preset from the editor, keeping the id when editing.
+export function createPreset(input: TailoringPresetInput, id?: string): TailoringPreset {
+  const result = TailoringPresetSchema.safeParse(input);
+  if (!result.success) throw new Error(result.error.issues.map((issue) => issue.message).join("; "));
+  return { ...result.data, id: id || createId() };
+}
+
+export function exportPresets(presets: TailoringPreset[]) {
+  const data = presets.map(({ id: _id, builtIn: _builtIn, ...preset }) => preset);
+  return JSON.stringify({ version: 1, presets: data }, null, 2);
+}
+
+// Parses an exported file into new custom presets, renaming any whose name is
+// already taken. Throws with a readable message when the file is not valid.
+export function importPresets(json: string, existing: TailoringPreset[]): TailoringPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new Error("The file is not valid JSON");
+  }
+  // Export files hold {version, presets}; a bare list or a single preset is
+  // accepted too.
+  const file = data as { presets?: unknown };
+  const list = Array.isArray(data) ? data : file && typeof file === "object" && "presets" in file ? file.presets : [data];
+  const result = z.array(TailoringPresetSchema).min(1, "No presets found").safeParse(list);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Not a preset file: ${issue.path.length ? `preset ${issue.path.join(".")}: ` : ""}${issue.message}`);
+  }
+  const inputs = result.data;
+  const imported: TailoringPreset[] = [];
+  for (const input of inputs) {
+    imported.push(fromInput({ ...input, name: uniquePresetName(input.name, [...existing, ...imported]) }));
+  }
+  return imported;
+}
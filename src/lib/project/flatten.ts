@@ -0,0 +1,126 @@
+import type { LatexProject } from "./types";
+
+// A multi-file project is tailored as one document: every \input and
+// \include is replaced by the file it names, between marker comments that
+// record where the text came from. The markers are ordinary LaTeX comments,
+// so the flattened source still compiles, and unflattenProject uses them to
+// write each part back to its own file.
+//
+//   %%% rw:begin sections/experience.tex \input{sections/experience}
+//   ...contents of sections/experience.tex...
+//   %%% rw:end sections/experience.tex
+
+const MAX_DEPTH = 16;
+const INPUT_RE = /\\(input|include)\s*\{([^{}]+)\}/g;
+const MARKER_RE = /\n%%% rw:begin (\S+) ([^\n]*)\n|\n%%% rw:end (\S+)\n/g;
+
+export interface FlattenResult {
+  source: string;
+  // Project files that were inlined, in the order they were reached.
+  included: string[];
+  warnings: string[];
+}
+
+export interface UnflattenResult {
+  // New text for every file that appears in the flattened source.
+  files: Record<string, string>;
+  warnings: string[];
+}
+
+function dirname(path: string) {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+}
+
+// Resolves "a/../b/./c" style paths against the project root.
+export function joinPath(dir: string, path: string) {
+  const parts: string[] = [];
+  for (const part of `${dir}/${path}`.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+  return parts.join("/");
+}
+
+// Whether the match at `index` sits after an unescaped % on its line.
+function isCommented(text: string, index: number) {
+  const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+  return /(^|[^\\])%/.test(text.slice(lineStart, index));
+}
+
+// LaTeX looks names up relative to the main file's directory and adds .tex
+// when the name has no extension of its own.
+function resolveInput(project: LatexProject, name: string) {
+  const base = joinPath(dirname(project.mainFile), name.trim());
+  const candidates = /\.[a-z]+$/i.test(base) ? [base, `${base}.tex`] : [`${base}.tex`, base];
+  return candidates.find((path) => typeof project.files[path] === "string") || null;
+}
+
+export function flattenProject(project: LatexProject): FlattenResult {
+  const included: string[] = [];
+  const warnings: string[] = [];
+
+  const expand = (path: string, stack: string[]): string => {
+    const text = project.files[path] as string;
+    return text.replace(INPUT_RE, (command: string, kind: string, name: string, offset: number) => {
+      if (isCommented(text, offset)) return command;
+      const target = resolveInput(project, name);
+      if (!target) {
+        warnings.push(`${path}: \\${kind}{${name}} was not found in the project and was left as is.`);
+        return command;
+      }
+      if (stack.includes(target)) {
+        warnings.push(`${path}: \\${kind}{${name}} includes itself and was left as is.`);
+        return command;
+      }
+      if (stack.length >= MAX_DEPTH) {
+        warnings.push(`${path}: \\${kind}{${name}} is nested too deeply and was left as is.`);
+        return command;
+      }
+      if (!included.includes(target)) included.push(target);
+      const body = expand(target, [...stack, target]);
+      return `\n%%% rw:begin ${target} ${command.replace(/\n/g, " ")}\n${body}\n%%% rw:end ${target}\n`;
+    });
+  };
+
+  return { source: expand(project.mainFile, [project.mainFile]), included, warnings };
+}
+
+// Splits a flattened (and possibly edited) source back into its files. When
+// the markers no longer pair up, the whole source goes into the main file so
+// nothing is lost; it still compiles because the inlined text is all there.
+export function unflattenProject(project: LatexProject, flattened: string): UnflattenResult {
+  const frames: { path: string; command: string; text: string }[] = [{ path: project.mainFile, command: "", text: "" }];
+  const files: Record<string, string> = {};
+  const warnings: string[] = [];
+  let last = 0;
+  let broken = false;
+
+  for (const match of flattened.matchAll(MARKER_RE)) {
+    const top = frames[frames.length - 1];
+    top.text += flattened.slice(last, match.index);
+    last = match.index! + match[0].length;
+    if (match[1]) {
+      frames.push({ path: match[1], command: match[2], text: "" });
+      continue;
+    }
+    if (frames.length === 1 || top.path !== match[3]) {
+      broken = true;
+      break;
+    }
+    frames.pop();
+    if (files[top.path] !== undefined && files[top.path] !== top.text) {
+      warnings.push(`${top.path} is included more than once and the copies now differ; the last one was kept.`);
+    }
+    files[top.path] = top.text;
+    frames[frames.length - 1].text += top.command;
+  }
+
+  if (broken || frames.length > 1) {
+    warnings.push(`The markers that show which file each part came from were edited, so everything was saved into ${project.mainFile}.`);
+    return { files: { [project.mainFile]: flattened }, warnings };
+  }
+  files[project.mainFile] = frames[0].text + flattened.slice(last);
+  return { files, warnings };
+}
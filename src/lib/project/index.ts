@@ -0,0 +1,47 @@
+// Multi-file LaTeX resumes: a zip or folder becomes a virtual file tree, the
+// main file is flattened into one source for tailoring, and the edited
+// source is split back into its files when the project is exported.
+
+import { flattenProject, joinPath, unflattenProject } from "./flatten";
+import type { LatexProject } from "./types";
+
+export type { LatexProject } from "./types";
+export type { FlattenResult, UnflattenResult } from "./flatten";
+export type { LoadedProject, ProjectEntry } from "./load";
+export { flattenProject, unflattenProject } from "./flatten";
+export { MAX_PROJECT_BYTES, MAX_PROJECT_FILES, buildProject, collectDroppedFiles, findMainFile, readFolderProject, readZipProject } from "./load";
+
+export interface ProjectAsset {
+  path: string;
+  data: string | Uint8Array;
+}
+
+// The files a compile of the flattened source still needs (classes, styles,
+// images), with paths relative to the main file's directory.
+export function projectAssets(project: LatexProject): ProjectAsset[] {
+  const mainDir = project.mainFile.includes("/") ? project.mainFile.slice(0, project.mainFile.lastIndexOf("/") + 1) : "";
+  return Object.entries(project.files)
+    .filter(([path]) => path !== project.mainFile && path.startsWith(mainDir))
+    .map(([path, data]) => ({ path: path.slice(mainDir.length), data }));
+}
+
+export function projectFileCount(project: LatexProject) {
+  return Object.keys(project.files).length;
+}
+
+// The project with the edited flattened source written back into its files.
+export function applyFlattenedSource(project: LatexProject, flattened: string) {
+  const { files, warnings } = unflattenProject(project, flattened);
+  const changed: string[] = [];
+  for (const [path, text] of Object.entries(files)) {
+    if (project.files[path] !== text) changed.push(path);
+  }
+  return { project: { ...project, files: { ...project.files, ...files } }, changed, warnings };
+}
+
+export async function exportProjectZip(project: LatexProject) {
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  for (const [path, data] of Object.entries(project.files)) zip.file(joinPath(project.name, path), data);
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,201 @@
+import { decodeText } from "../upload";
+import type { LatexProject } from "./types";
+
+// Builds a LatexProject from a zip, a chosen folder or files dropped on the
+// page. Text files are decoded like single .tex uploads; anything else is
+// kept as bytes so it can go back into the exported zip untouched.
+
+export const MAX_PROJECT_FILES = 500;
+export const MAX_PROJECT_BYTES = 50 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = [".tex", ".cls", ".sty", ".bib", ".bst", ".bbx", ".cbx", ".clo", ".cfg", ".def", ".ltx", ".txt"];
+// Editor and OS clutter that should not end up in the project.
+const IGNORED_RE = /(^|\/)(__MACOSX|\.git|\.DS_Store|Thumbs\.db)(\/|$)|\.(aux|log|out|synctex\.gz|fls|fdb_latexmk)$/i;
+
+export interface ProjectEntry {
+  path: string;
+  data: ArrayBuffer;
+}
+
+export interface LoadedProject {
+  project: LatexProject;
+  // Non-blocking notes for the user, such as encoding conversions.
+  notes: string[];
+}
+
+function isTextFile(path: string) {
+  const lower = path.toLowerCase();
+  return TEXT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+// Zips of a folder usually wrap everything in that folder's name.
+function stripCommonFolder(paths: string[]) {
+  const first = paths[0].split("/")[0];
+  if (!paths.every((path) => path.startsWith(`${first}/`))) return "";
+  return `${first}/`;
+}
+
+function hasDocument(text: string) {
+  return /^[^%\n]*\\documentclass/m.test(text) && /^[^%\n]*\\begin\s*\{document\}/m.test(text);
+}
+
+// The file that has \documentclass and \begin{document}. When there are
+// several (e.g. a resume and a cover letter), the conventional names win,
+// then the one nearest the root.
+export function findMainFile(files: LatexProject["files"]) {
+  const candidates = Object.keys(files).filter((path) => path.toLowerCase().endsWith(".tex") && typeof files[path] === "string" && hasDocument(files[path] as string));
+  const rank = (path: string) => {
+    const name = path.split("/").pop()!.toLowerCase();
+    const preferred = ["main.tex", "resume.tex", "cv.tex"].indexOf(name);
+    return (preferred === -1 ? 3 : preferred) + path.split("/").length * 10;
+  };
+  return candidates.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))[0] || null;
+}
+
+export function buildProject(name: string, entries: ProjectEntry[]): LoadedProject {
+  const kept = entries.filter((entry) => !IGNORED_RE.test(entry.path));
+  if (kept.length === 0) throw new Error(`${name} has no files`);
+  if (kept.length > MAX_PROJECT_FILES) throw new Error(`${name} has ${kept.length} files; the limit is ${MAX_PROJECT_FILES}`);
+  const total = kept.reduce((sum, entry) => sum + entry.data.byteLength, 0);
+  if (total > MAX_PROJECT_BYTES) throw new Error(`${name} is ${Math.round(total / (1024 * 1024))}MB unpacked; the limit is ${MAX_PROJECT_BYTES / (1024 * 1024)}MB`);
+
+  const prefix = stripCommonFolder(kept.map((entry) => entry.path));
+  const files: LatexProject["files"] = {};
+  const notes: string[] = [];
+  for (const entry of kept) {
+    const path = entry.path.slice(prefix.length);
+    if (!isTextFile(path)) {
+      files[path] = new Uint8Array(entry.data);
+      continue;
+    }
+    const decoded = decodeText(entry.data);
+    files[path] = decoded.text;
+    notes.push(...decoded.notes.map((note) => `${path}: ${note}`));
+  }
+
+  const mainFile = findMainFile(files);
+  if (!mainFile) {
+    if (files["word/document.xml"] || files["[Content_Types].xml"]) throw new Error(`${name} is a Word document, not a LaTeX project; save it with a .docx extension to import it`);
+    throw new Error(`${name} has no .tex file with \\documentclass and \\begin{document}`);
+  }
+  return { project: { name: name.replace(/\.zip$/i, ""), mainFile, files }, notes };
+}
+
+interface ZipStream {
+  on(event: "data", listener: (chunk: Uint8Array) => void): ZipStream;
+  on(event: "end", listener: () => void): ZipStream;
+  on(event: "error", listener: (err: Error) => void): ZipStream;
+  pause(): ZipStream;
+  resume(): ZipStream;
+}
+
+interface ZipItem {
+  dir: boolean;
+  name: string;
+  // JSZip's record of the entry; uncompressedSize is what the zip claims.
+  _data?: { uncompressedSize?: number };
+  internalStream(type: "uint8array"): ZipStream;
+}
+
+function tooLargeError(name: string) {
+  return new Error(`${name} is larger than ${MAX_PROJECT_BYTES / (1024 * 1024)}MB, the limit for a project`);
+}
+
+// Unpacks one entry, stopping as soon as more than `limit` bytes come out:
+// the sizes a zip declares can be forged, so they are only a first check.
+function unzipEntry(item: ZipItem, limit: number, tooLarge: () => Error): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = item.internalStream("uint8array");
+    stream
+      .on("data", (chunk) => {
+        if (size > limit) return;
+        size += chunk.byteLength;
+        if (size > limit) {
+          stream.pause();
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => {
+        const data = new Uint8Array(size);
+        let offset = 0;
+        for (const chunk of chunks) {
+          data.set(chunk, offset);
+          offset += chunk.byteLength;
+        }
+        resolve(data.buffer);
+      })
+      .resume();
+  });
+}
+
+export async function readZipProject(file: File): Promise<LoadedProject> {
+  const { default: JSZip } = await import("jszip");
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch (err) {
+    throw new Error(`${file.name} is not a valid zip file`);
+  }
+  const items: ZipItem[] = [];
+  zip.forEach((_, item) => items.push(item as unknown as ZipItem));
+  const entries: ProjectEntry[] = [];
+  let total = 0;
+  for (const item of items) {
+    if (item.dir || IGNORED_RE.test(item.name)) continue;
+    if (entries.length >= MAX_PROJECT_FILES) throw new Error(`${file.name} has more than ${MAX_PROJECT_FILES} files`);
+    if (total + (item._data?.uncompressedSize || 0) > MAX_PROJECT_BYTES) throw tooLargeError(file.name);
+    const data = await unzipEntry(item, MAX_PROJECT_BYTES - total, () => tooLargeError(file.name));
+    total += data.byteLength;
+    entries.push({ path: item.name, data });
+  }
+  return buildProject(file.name, entries);
+}
+
+// Files from a folder picker carry their path in webkitRelativePath.
+// Sizes are known up front here, so a folder that is too large is refused
+// before anything is read.
+export async function readFolderProject(files: { path: string; file: File }[]): Promise<LoadedProject> {
+  const name = files[0]?.path.includes("/") ? files[0].path.split("/")[0] : "project";
+  const kept = files.filter(({ path }) => !IGNORED_RE.test(path));
+  if (kept.length > MAX_PROJECT_FILES) throw new Error(`${name} has ${kept.length} files; the limit is ${MAX_PROJECT_FILES}`);
+  if (kept.reduce((sum, { file }) => sum + file.size, 0) > MAX_PROJECT_BYTES) throw tooLargeError(name);
+  const entries = await Promise.all(kept.map(async ({ path, file }) => ({ path, data: await file.arrayBuffer() })));
+  return buildProject(name, entries);
+}
+
+function readAllEntries(reader: any): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const all: any[] = [];
+    // readEntries returns at most 100 entries per call.
+    const next = () =>
+      reader.readEntries((batch: any[]) => {
+        if (batch.length === 0) return resolve(all);
+        all.push(...batch);
+        next();
+      }, reject);
+    next();
+  });
+}
+
+async function walkEntry(entry: any, path: string, out: { path: string; file: File }[]) {
+  if (out.length > MAX_PROJECT_FILES) return;
+  if (entry.isFile) {
+    const file: File = await new Promise((resolve, reject) => entry.file(resolve, reject));
+    out.push({ path, file });
+    return;
+  }
+  for (const child of await readAllEntries(entry.createReader())) await walkEntry(child, `${path}/${child.name}`, out);
+}
+
+// Dropped folders only expose their contents through the entries API, which
+// must be asked for before the drop event returns; pass the entries in.
+export async function collectDroppedFiles(entries: any[]) {
+  const files: { path: string; file: File }[] = [];
+  for (const entry of entries) await walkEntry(entry, entry.name, files);
+  return files;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { MAX_PROJECT_BYTES, applyFlattenedSource, flattenProject, readFolderProject, unflattenProject, type LatexProject } from ".";
+
+const MAIN = "\\documentclass{article}\n\\begin{document}\n\\input{sections/header}\n\\include{sections/experience.tex}\n% \\input{sections/old}\n\\end{document}\n";
+const HEADER = "\\section{Header}\nJane Doe";
+const EXPERIENCE = "\\section{Experience}\n\\input{sections/job}\n";
+const JOB = "\\begin{itemize}\n\\item Built the billing service\n\\end{itemize}";
+
+function project(files: Record<string, string | Uint8Array> = {}): LatexProject {
+  return {
+    name: "resume",
+    mainFile: "main.tex",
+    files: { "main.tex": MAIN, "sections/header.tex": HEADER, "sections/experience.tex": EXPERIENCE, "sections/job.tex": JOB, "logo.png": new Uint8Array([1, 2]), ...files },
+  };
+}
+
+describe("flattenProject", () => {
+  it("inlines \\input and \\include recursively between markers", () => {
+    const { source, included, warnings } = flattenProject(project());
+    expect(included).toEqual(["sections/header.tex", "sections/experience.tex", "sections/job.tex"]);
+    expect(warnings).toEqual([]);
+    expect(source).toContain("%%% rw:begin sections/job.tex \\input{sections/job}\n\\begin{itemize}");
+    expect(source).toContain("Jane Doe\n%%% rw:end sections/header.tex");
+    expect(source).not.toMatch(/^\\input\{sections\/header\}/m);
+  });
+
+  it("leaves commented, missing and self-including inputs as they are", () => {
+    const { source, warnings } = flattenProject(project({ "sections/job.tex": "\\input{sections/job}\n\\input{missing}" }));
+    expect(source).toContain("% \\input{sections/old}");
+    expect(warnings).toEqual([
+      "sections/job.tex: \\input{sections/job} includes itself and was left as is.",
+      "sections/job.tex: \\input{missing} was not found in the project and was left as is.",
+    ]);
+  });
+
+  it("resolves names relative to the main file's folder", () => {
+    const nested: LatexProject = { name: "resume", mainFile: "cv/main.tex", files: { "cv/main.tex": "\\input{../shared/a}\n\\input{b}", "shared/a.tex": "A", "cv/b.tex": "B" } };
+    expect(flattenProject(nested).included).toEqual(["shared/a.tex", "cv/b.tex"]);
+  });
+});
+
+describe("unflattenProject", () => {
+  it("gives back every file unchanged when nothing was edited", () => {
+    const original = project();
+    const { files, warnings } = unflattenProject(original, flattenProject(original).source);
+    expect(warnings).toEqual([]);
+    expect(files).toEqual({ "main.tex": MAIN, "sections/header.tex": HEADER, "sections/experience.tex": EXPERIENCE, "sections/job.tex": JOB });
+  });
+
+  it("puts everything in the main file when the markers were edited", () => {
+    const original = project();
+    const flattened = flattenProject(original).source.replace("%%% rw:end sections/job.tex\n", "");
+    const { files, warnings } = unflattenProject(original, flattened);
+    expect(files).toEqual({ "main.tex": flattened });
+    expect(warnings[0]).toMatch(/everything was saved into main.tex/);
+  });
+});
+
+describe("applyFlattenedSource", () => {
+  it("writes an edit back into the file it came from", () => {
+    const original = project();
+    const edited = flattenProject(original).source.replace("Built the billing service", "Built and ran the billing service");
+    const result = applyFlattenedSource(original, edited);
+    expect(result.changed).toEqual(["sections/job.tex"]);
+    expect(result.project.files["sections/job.tex"]).toBe(JOB.replace("Built the billing service", "Built and ran the billing service"));
+    expect(result.project.files["main.tex"]).toBe(MAIN);
+    expect(result.project.files["logo.png"]).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it("writes main-file edits to the main file only", () => {
+    const original = project();
+    const edited = flattenProject(original).source.replace("\\begin{document}", "\\begin{document}\n\\pagestyle{empty}");
+    const result = applyFlattenedSource(original, edited);
+    expect(result.changed).toEqual(["main.tex"]);
+    expect(result.project.files["main.tex"]).toBe(MAIN.replace("\\begin{document}", "\\begin{document}\n\\pagestyle{empty}"));
+  });
+});
+
+describe("readFolderProject", () => {
+  it("refuses a folder over the size limit without reading it", async () => {
+    const unread = (size: number) => ({ size, arrayBuffer: () => Promise.reject(new Error("read")) }) as unknown as File;
+    const files = [
+      { path: "cv/main.tex", file: unread(10) },
+      { path: "cv/photo.png", file: unread(MAX_PROJECT_BYTES) },
+    ];
+    await expect(readFolderProject(files)).rejects.toThrow("cv is larger than 50MB, the limit for a project");
+  });
+
+  it("reads a folder under the limit", async () => {
+    const files = [{ path: "cv/main.tex", file: new File(["\\documentclass{article}\n\\begin{document}\nHi\n\\end{document}\n"], "main.tex") }];
+    expect((await readFolderProject(files)).project.mainFile).toBe("main.tex");
+  });
+});
@@ -0,0 +1,9 @@
+// A LaTeX resume split over several files, as uploaded in a zip or folder.
+export interface LatexProject {
+  name: string;
+  // Path of the file with \documentclass, relative to the project root.
+  mainFile: string;
+  // Every file by its path; text files as strings, everything else (images,
+  // fonts) as raw bytes.
+  files: Record<string, string | Uint8Array>;
+}
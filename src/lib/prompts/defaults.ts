@@ -0,0 +1,114 @@
+// The editable part of each prompt the app sends. The reply format (the JSON
+// shape and the rules the parser relies on) is appended by the prompt
+// builders and is not part of the template, so an edited template can't
+// break parsing.
+
+export type PromptTemplateId = "tailor" | "skills" | "coverLetter";
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  // Templates that leave out a required variable can't be saved.
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  defaultTemplate: string;
+}
+
+const TAILOR_TEMPLATE = `You are an expert resume writer specializing in ATS-friendly resumes.
+
+JOB DESCRIPTION:
+{{jobDescription}}
+
+TARGET KEYWORDS (reviewed by the candidate; prefer these over other terms from the job description):
+{{skills}}
+
+RESUME BULLETS (LaTeX, one JSON object per bullet, grouped by section and entry):
+{{resume}}
+
+INSTRUCTIONS:
+{{strength}}
+
+Your task:
+1. Analyze the job description and identify key requirements, skills, and keywords
+2. Rewrite only the bullets that should change to better match the job requirements
+3. Make them ATS-friendly by incorporating relevant keywords naturally
+4. Never invent bullets, sections, employers, degrees or metrics, and only add a keyword where the bullet's experience supports it`;
+
+const SKILLS_TEMPLATE = `You are an expert technical recruiter. Extract every skill and requirement from this job description.
+
+JOB DESCRIPTION:
+{{jobDescription}}
+
+Classify each item with one "category":
+- "hard_skill": technical or domain skills (e.g. "distributed systems", "financial modelling")
+- "tool": specific languages, frameworks, products and platforms (e.g. "Python", "Kubernetes", "Salesforce")
+- "soft_skill": interpersonal skills (e.g. "stakeholder communication")
+- "certification": certifications, licences and degrees (e.g. "AWS Solutions Architect", "CPA")
+- "experience": years-of-experience requirements; put the number in "years" (e.g. "5+ years of backend development", years 5)
+
+Set "required" to false for items the posting lists as preferred, a plus, a bonus or nice to have, and true otherwise.
+Use the posting's own wording for "name", keep names short, list each item once, and keep commas inside a name if the posting does.`;
+
+const COVER_LETTER_TEMPLATE = `You are an expert career coach writing a cover letter for the candidate below.
+
+JOB DESCRIPTION:
+{{jobDescription}}
+
+CANDIDATE'S RESUME (plain text):
+{{resume}}
+
+SKILLS TO HIGHLIGHT (reviewed by the candidate):
+{{skills}}
+
+TONE:
+{{tone}}
+
+LENGTH:
+{{length}}
+
+Your task:
+1. Open with the role and one specific reason the candidate fits it
+2. Connect two or three achievements from the resume to the job's most important requirements
+3. Close with a short, confident call to action
+4. Only use facts from the resume: never invent employers, titles, metrics, dates or skills`;
+
+export const PROMPT_DEFINITIONS: Record<PromptTemplateId, PromptDefinition> = {
+  tailor: {
+    id: "tailor",
+    label: "Resume tailoring",
+    description: "Rewrites the resume's bullets for the job.",
+    variables: [
+      { name: "jobDescription", description: "The job posting text", required: true },
+      { name: "resume", description: "The resume's bullets as JSON lines, grouped by section", required: true },
+      { name: "skills", description: "The reviewed skill list, pinned skills first" },
+      { name: "strength", description: "The selected preset's instructions" },
+    ],
+    defaultTemplate: TAILOR_TEMPLATE,
+  },
+  skills: {
+    id: "skills",
+    label: "Skill extraction",
+    description: "Pulls categorised skills and requirements out of the job posting.",
+    variables: [{ name: "jobDescription", description: "The job posting text", required: true }],
+    defaultTemplate: SKILLS_TEMPLATE,
+  },
+  coverLetter: {
+    id: "coverLetter",
+    label: "Cover letter",
+    description: "Writes a cover letter for the job from the resume.",
+    variables: [
+      { name: "jobDescription", description: "The job posting text", required: true },
+      { name: "resume", description: "The resume as plain text", required: true },
+      { name: "skills", description: "The reviewed skill list, pinned skills first" },
+      { name: "tone", description: "Instructions for the selected tone" },
+      { name: "length", description: "The selected length, in paragraphs and words" },
+    ],
+    defaultTemplate: COVER_LETTER_TEMPLATE,
+  },
+};
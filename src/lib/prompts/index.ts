@@ -0,0 +1,14 @@
+// Editable, versioned prompt templates with {{variable}} placeholders.
+
+export type { PromptDefinition, PromptTemplateId, PromptVariable } from "./defaults";
+export { PROMPT_DEFINITIONS } from "./defaults";
+export { renderTemplate, templateVariables } from "./render";
+export type { PromptHistory, PromptVersion } from "./store";
+export {
+  activatePromptVersion,
+  getPromptTemplate,
+  loadPromptHistory,
+  resetPromptTemplate,
+  savePromptVersion,
+  validatePromptTemplate,
+} from "./store";
@@ -0,0 +1,15 @@
+// `{{name}}` placeholders, with optional spaces inside the braces. Unknown
+// names are left in place so a typo shows up in the rendered prompt and in
+// validation instead of silently vanishing.
+
+const VARIABLE = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+export function templateVariables(template: string) {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE)) names.add(match[1]);
+  return [...names];
+}
+
+export function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(VARIABLE, (whole, name: string) => (name in values ? values[name] : whole));
+}
@@ -0,0 +1,94 @@
+// Edited prompt templates, kept in localStorage. Every save adds a numbered
+// version; any version (or the built-in default) can be made active again.
+
+import { PROMPT_DEFINITIONS, type PromptTemplateId } from "./defaults";
+import { templateVariables } from "./render";
+
+export interface PromptVersion {
+  version: number;
+  template: string;
+  savedAt: number;
+}
+
+export interface PromptHistory {
+  versions: PromptVersion[];
+  // Version in use; null means the built-in default.
+  active: number | null;
+}
+
+const STORAGE_KEY = "resume_wizard_prompts";
+const MAX_VERSIONS = 50;
+
+type StoredPrompts = Partial<Record<PromptTemplateId, PromptHistory>>;
+
+function loadAll(): StoredPrompts {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredPrompts) : {};
+  } catch (err) {
+    return {};
+  }
+}
+
+function saveHistory(id: PromptTemplateId, history: PromptHistory) {
+  const all = loadAll();
+  all[id] = history;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (err) {
+    throw new Error("Could not save the prompt template: browser storage is full or unavailable");
+  }
+}
+
+export function loadPromptHistory(id: PromptTemplateId): PromptHistory {
+  const history = loadAll()[id];
+  if (!history || !Array.isArray(history.versions)) return { versions: [], active: null };
+  const active = history.versions.some((v) => v.version === history.active) ? history.active : null;
+  return { versions: history.versions, active };
+}
+
+// The template a run should use: the active saved version, or the default.
+export function getPromptTemplate(id: PromptTemplateId) {
+  const history = loadPromptHistory(id);
+  return history.versions.find((v) => v.version === history.active)?.template ?? PROMPT_DEFINITIONS[id].defaultTemplate;
+}
+
+// Problems that would stop the template from working: required variables
+// left out and names that aren't variables at all.
+export function validatePromptTemplate(id: PromptTemplateId, template: string) {
+  const definition = PROMPT_DEFINITIONS[id];
+  const used = templateVariables(template);
+  const known = new Set(definition.variables.map((v) => v.name));
+  const problems: string[] = [];
+  for (const variable of definition.variables) {
+    if (variable.required && !used.includes(variable.name)) problems.push(`Missing required variable {{${variable.name}}}`);
+  }
+  for (const name of used) {
+    if (!known.has(name)) problems.push(`Unknown variable {{${name}}}`);
+  }
+  return problems;
+}
+
+// Saves the template as a new version and makes it active.
+export function savePromptVersion(id: PromptTemplateId, template: string): PromptHistory {
+  const problems = validatePromptTemplate(id, template);
+  if (problems.length) throw new Error(problems.join("; "));
+  const history = loadPromptHistory(id);
+  const version = Math.max(0, ...history.versions.map((v) => v.version)) + 1;
+  const versions = [...history.versions, { version, template, savedAt: Date.now() }].slice(-MAX_VERSIONS);
+  const next = { versions, active: version };
+  saveHistory(id, next);
+  return next;
+}
+
+export function activatePromptVersion(id: PromptTemplateId, version: number | null): PromptHistory {
+  const history = loadPromptHistory(id);
+  const next = { ...history, active: history.versions.some((v) => v.version === version) ? version : null };
+  saveHistory(id, next);
+  return next;
+}
+
+// Goes back to the built-in default; saved versions are kept.
+export function resetPromptTemplate(id: PromptTemplateId) {
+  return activatePromptVersion(id, null);
+}
@@ -0,0 +1,133 @@
+// Small resumes in the layouts the parser supports, shared by the tests.
+
+export const JAKE_RESUME = String.raw`\documentclass[letterpaper,11pt]{article}
+\usepackage[hidelinks]{hyperref}
+\newcommand{\resumeItem}[1]{\item\small{{#1 \vspace{-2pt}}}}
+\newcommand{\resumeSubheading}[4]{
+  \vspace{-2pt}\item
+    \begin{tabular*}{0.97\textwidth}[t]{l@{\extracolsep{\fill}}r}
+      \textbf{#1} & #2 \\
+      \textit{\small#3} & \textit{\small #4} \\
+    \end{tabular*}\vspace{-7pt}
+}
+\newcommand{\resumeSubHeadingListStart}{\begin{itemize}[leftmargin=0.15in, label={}]}
+\newcommand{\resumeSubHeadingListEnd}{\end{itemize}}
+\newcommand{\resumeItemListStart}{\begin{itemize}}
+\newcommand{\resumeItemListEnd}{\end{itemize}\vspace{-5pt}}
+
+\begin{document}
+
+\begin{center}
+    \textbf{\Huge \scshape Jake Ryan} \\ \vspace{1pt}
+    \small 123-456-7890 $|$ \href{mailto:jake@su.edu}{\underline{jake@su.edu}} $|$
+    \href{https://github.com/jake}{\underline{github.com/jake}}
+\end{center}
+
+%-----------EDUCATION-----------
+\section{Education}
+  \resumeSubHeadingListStart
+    \resumeSubheading
+      {Southwestern University}{Georgetown, TX}
+      {Bachelor of Arts in Computer Science}{Aug. 2018 -- May 2021}
+  \resumeSubHeadingListEnd
+
+\section{Experience}
+  \resumeSubHeadingListStart
+    \resumeSubheading
+      {Undergraduate Research Assistant}{June 2020 -- Present}
+      {Texas A\&M University}{College Station, TX}
+      \resumeItemListStart
+        \resumeItem{Developed a REST API using FastAPI and PostgreSQL}
+        % \resumeItem{Commented out}
+        \resumeItem{Explored ways to visualize GitHub collaboration in a classroom}
+      \resumeItemListEnd
+  \resumeSubHeadingListEnd
+
+\section{Summary}
+Backend engineer with 5 years of \textbf{Python} experience.
+
+\end{document}
+`;
+
+export const MODERNCV_RESUME = String.raw`\documentclass[11pt,a4paper]{moderncv}
+\moderncvstyle{classic}
+\name{John}{Doe}
+\email{john@doe.org}
+\phone[mobile]{+1~(234)~567~890}
+\social[linkedin]{john.doe}
+
+\begin{document}
+\makecvtitle
+
+\section{Experience}
+\cventry{2019--Now}{Engineer}{ACME}{Berlin}{}{
+\begin{itemize}
+\item Built the billing service
+\item Shipped \emph{reports}, 30\% faster
+\end{itemize}}
+\cventry{2015--2019}{Intern}{Foo GmbH}{Paris}{}{Did an internship}
+
+\section{Languages}
+\cvitem{German}{Native}
+
+\end{document}
+`;
+
+export const AWESOME_CV_RESUME = String.raw`\documentclass[11pt,a4paper]{awesome-cv}
+\name{Claud D.}{Park}
+\position{Software Architect}
+\address{Seoul, Korea}
+\mobile{(+82) 10-9030-1843}
+\email{posquit0.bj@gmail.com}
+\github{posquit0}
+
+\begin{document}
+\makecvheader
+
+\cvsection{Experience}
+\begin{cventries}
+  \cventry
+    {Software Architect} % Job title
+    {Omnious. Co., Ltd.} % Organization
+    {Seoul, S.Korea} % Location
+    {Jun. 2017 - May. 2018} % Date(s)
+    {
+      \begin{cvitems}
+        \item {Provisioned an easily managable hybrid infrastructure}
+        \item {Deployed the services with Kubernetes}
+      \end{cvitems}
+    }
+\end{cventries}
+
+\end{document}
+`;
+
+export const ARTICLE_RESUME = String.raw`\documentclass[11pt]{article}
+\usepackage[margin=0.8in]{geometry}
+\usepackage[hidelinks]{hyperref}
+
+\begin{document}
+
+\begin{center}
+{\LARGE \textbf{Maria Lopez}} \\[4pt]
+Denver, CO $|$ maria.lopez@example.com $|$ 555-123-4567 $|$ \href{https://mlopez.dev}{mlopez.dev}
+\end{center}
+
+\section*{Summary}
+Data analyst who turns messy spreadsheets into dashboards.
+
+\section*{Experience}
+\textbf{Data Analyst} \hfill 2021 -- Present \\
+\textit{Acme Analytics} \hfill Denver, CO
+\begin{itemize}
+  \item Built weekly sales dashboards in Tableau
+  \item Automated reporting with Python, saving 6 hours a week
+\end{itemize}
+
+\section*{Skills}
+\begin{itemize}
+  \item SQL, Python, Tableau, Excel
+\end{itemize}
+
+\end{document}
+`;
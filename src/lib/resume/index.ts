@@ -0,0 +1,14 @@
+export type { BulletKind, ContactInfo, EntryField, EntryKind, Resume, ResumeBullet, ResumeEntry, ResumeSection, SourceSpan } from "./types";
+export { parseResume } from "./parse";
+export { serializeResume } from "./serialize";
+export { escapeLatex, escapeUrl, toPlainText } from "./latex";
+
+import type { Resume, ResumeBullet } from "./types";
+
+export function allBullets(resume: Resume): ResumeBullet[] {
+  return resume.sections.flatMap((section) => [...section.bullets, ...section.entries.flatMap((entry) => entry.bullets)]);
+}
+
+export function findSectionOfBullet(resume: Resume, bulletId: string) {
+  return resume.sections.find((section) => bulletId === section.id || bulletId.startsWith(`${section.id}.`));
+}
@@ -0,0 +1,131 @@
+// Low-level LaTeX scanning helpers shared by the resume parser and other
+// source-level tools. Everything works on offsets into the original string.
+
+export interface Group {
+  content: string;
+  // Offsets of the content, excluding the delimiters.
+  start: number;
+  end: number;
+  // Offset just after the closing delimiter.
+  next: number;
+}
+
+// Replaces comments with spaces so offsets stay aligned with the original
+// source while `%` lines no longer look like commands.
+export function maskComments(source: string) {
+  return source.replace(/(^|[^\\])(%.*)$/gm, (_m, prefix: string, comment: string) => prefix + " ".repeat(comment.length));
+}
+
+export function skipWhitespace(source: string, pos: number) {
+  while (pos < source.length && /\s/.test(source[pos])) pos++;
+  return pos;
+}
+
+// Reads a balanced `{...}` (or `[...]`) group starting at `pos`, skipping
+// leading whitespace. Returns null when no group starts there.
+export function readGroup(source: string, pos: number, open = "{", close = "}"): Group | null {
+  const start = skipWhitespace(source, pos);
+  if (source[start] !== open) return null;
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === open) depth++;
+    else if (ch === close) {
+      depth--;
+      if (depth === 0) return { content: source.slice(start + 1, i), start: start + 1, end: i, next: i + 1 };
+    }
+  }
+  return null;
+}
+
+// Reads up to `max` consecutive brace groups, skipping one optional `[...]`
+// argument first.
+export function readArguments(source: string, pos: number, max: number) {
+  const optional = readGroup(source, pos, "[", "]");
+  let cursor = optional ? optional.next : pos;
+  const args: Group[] = [];
+  while (args.length < max) {
+    const group = readGroup(source, cursor);
+    if (!group) break;
+    args.push(group);
+    cursor = group.next;
+  }
+  return { args, next: cursor };
+}
+
+// Index where brace depth first goes negative, i.e. where a fragment cut out of
+// a larger group stops being balanced. Returns `text.length` if it never does.
+export function balancedPrefixLength(text: string) {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth < 0) return i;
+    }
+  }
+  return text.length;
+}
+
+export function lineOfOffset(source: string, offset: number) {
+  let line = 1;
+  for (let i = 0; i < offset && i < source.length; i++) if (source[i] === "\n") line++;
+  return line;
+}
+
+const DROP_WITH_ARGUMENT = /\\(vspace|hspace|setlength|addtolength|label|phantom|includegraphics|fontsize|color)\*?(\[[^\]]*\])?(\{[^{}]*\})+/g;
+
+// Best-effort conversion of a LaTeX fragment to readable plain text, used for
+// prompts, scoring and comparison. Not a renderer.
+export function toPlainText(latex: string) {
+  return maskComments(latex)
+    .replace(/\\href\{[^{}]*\}/g, "")
+    .replace(DROP_WITH_ARGUMENT, " ")
+    .replace(/\$\|\$/g, "|")
+    .replace(/\\\\(\[[^\]]*\])?/g, " ")
+    .replace(/\\([&%$#_{}])/g, "$1")
+    .replace(/\\(textbar)\b/g, "|")
+    .replace(/~/g, " ")
+    .replace(/---?/g, "–")
+    .replace(/\\[a-zA-Z@]+\*?(\[[^\]]*\])?/g, " ")
+    .replace(/[{}$]/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;:)])/g, "$1")
+    .replace(/\(\s+/g, "(")
+    .trim();
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  "$": "\\$",
+  "#": "\\#",
+  "_": "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+export function escapeLatex(text: string) {
+  return text.replace(/[\\&%$#_{}~^]/g, (ch) => LATEX_SPECIALS[ch]);
+}
+
+// \href reads its URL almost verbatim: only % and # need a backslash. Braces,
+// backslashes and spaces can't be written there at all, so they are
+// percent-encoded, which browsers read as the same address.
+export function escapeUrl(url: string) {
+  return url
+    .replace(/[\\{}\s]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`)
+    .replace(/([%#])/g, "\\$1");
+}
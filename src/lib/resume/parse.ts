@@ -0,0 +1,333 @@
+import { balancedPrefixLength, maskComments, readArguments, readGroup, skipWhitespace, toPlainText, type Group } from "./latex";
+import type { ContactInfo, EntryField, EntryKind, Resume, ResumeBullet, ResumeEntry, ResumeSection, SourceSpan } from "./types";
+
+// Parser for the resume templates we see most: Jake's resume
+// (\resumeSubheading, \resumeItem), moderncv (\cventry, \cvitem, \name,
+// \email, ...), awesome-cv (\cvsection, 5-argument \cventry) and plain
+// article resumes built from \section and itemize.
+
+const SECTION_RE = /\\(section|cvsection)\*?\s*(?=[{[])/g;
+const ENTRY_RE = /\\(resumeSubheading|resumeSubSubheading|resumeProjectHeading|cventry|cvitem)\b/g;
+const BULLET_RE = /\\(resumeItem|resumeSubItem|item)\b/g;
+// Anything that ends the text of a plain \item.
+const ITEM_END_RE = /\\item\b|\\resumeItem\b|\\resumeSubItem\b|\\(begin|end)\s*\{|\\resume\w*List(Start|End)\b/g;
+const DATE_RE = /\b(19|20)\d{2}\b|present|current|now/i;
+
+export function parseResume(source: string): Resume {
+  const masked = maskComments(source);
+  const beginDoc = masked.search(/\\begin\{document\}/);
+  const bodyStart = beginDoc === -1 ? 0 : beginDoc + "\\begin{document}".length;
+  const endDoc = masked.search(/\\end\{document\}/);
+  const bodyEnd = endDoc === -1 ? masked.length : endDoc;
+
+  const sectionStarts: { title: Group; start: number }[] = [];
+  SECTION_RE.lastIndex = bodyStart;
+  let match: RegExpExecArray | null;
+  while ((match = SECTION_RE.exec(masked)) && match.index < bodyEnd) {
+    const { args } = readArguments(masked, match.index + match[0].length, 1);
+    if (args[0]) sectionStarts.push({ title: args[0], start: match.index });
+  }
+
+  const headerEnd = sectionStarts.length > 0 ? sectionStarts[0].start : bodyEnd;
+  const contact = parseContact(source, masked, bodyStart, headerEnd);
+
+  const sections = sectionStarts.map(({ title, start }, index): ResumeSection => {
+    const end = index + 1 < sectionStarts.length ? sectionStarts[index + 1].start : bodyEnd;
+    const id = `s${index + 1}`;
+    const entries = parseEntries(source, masked, title.next, end, id);
+    const looseEnd = entries.length > 0 ? entries[0].span!.start : end;
+    let bullets = parseBullets(source, masked, title.next, looseEnd, id);
+    if (entries.length === 0 && bullets.length === 0) bullets = parseParagraph(source, masked, title.next, end, id);
+    return {
+      id,
+      title: title.content,
+      titleSpan: { start: title.start, end: title.end },
+      entries,
+      bullets,
+      span: { start, end },
+    };
+  });
+
+  return { source, contact, sections };
+}
+
+// Unbraced text between offsets, as a Group so it can be treated like an
+// argument; null when there is none.
+function textGroup(masked: string, start: number, end: number): Group | null {
+  while (start < end && /\s/.test(masked[start])) start++;
+  while (end > start && /\s/.test(masked[end - 1])) end--;
+  return end > start ? { content: masked.slice(start, end), start, end, next: end } : null;
+}
+
+// Article entry headings: a bold title with the date pushed right by \hfill,
+// optionally followed by an italic organization and location on the next line.
+// A bold label without \hfill ("\textbf{Languages}: Java") is not an entry.
+const LINE_ENTRY_RE = /^[ \t]*\\textbf\s*(?=\{)/gm;
+
+function findLineEntries(masked: string, start: number, end: number) {
+  const found: { kind: EntryKind; start: number; args: Group[]; argsEnd: number }[] = [];
+  LINE_ENTRY_RE.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = LINE_ENTRY_RE.exec(masked)) && match.index < end) {
+    const title = readGroup(masked, match.index + match[0].length);
+    if (!title) continue;
+    const lineEnd = (from: number) => {
+      const newline = masked.indexOf("\n", from);
+      return Math.min(newline === -1 ? end : newline, end);
+    };
+    let cursor = title.next;
+    let stop = lineEnd(cursor);
+    const first = /^[ \t]*\\hfill\b/.exec(masked.slice(cursor, stop));
+    const breakAt = masked.slice(cursor, stop).search(/\\\\/);
+    const date = first ? textGroup(masked, cursor + first[0].length, breakAt === -1 ? stop : cursor + breakAt) : null;
+    const args: (Group | null)[] = [title, date];
+    cursor = breakAt === -1 ? stop : cursor + breakAt + 2;
+    const second = /^\s*\\textit\s*(?=\{)/.exec(masked.slice(cursor, end));
+    if (breakAt !== -1 && second) {
+      const organization = readGroup(masked, cursor + second[0].length);
+      if (organization) {
+        stop = lineEnd(organization.next);
+        const hfill = /^[ \t]*\\hfill\b/.exec(masked.slice(organization.next, stop));
+        args.push(organization, hfill ? textGroup(masked, organization.next + hfill[0].length, stop) : null);
+        cursor = stop;
+      }
+    }
+    if (!first && args.length === 2) continue;
+    found.push({ kind: "line", start: match.index, args: args.map((arg) => arg || { content: "", start: cursor, end: cursor, next: cursor }), argsEnd: cursor });
+    LINE_ENTRY_RE.lastIndex = Math.max(cursor, match.index + match[0].length);
+  }
+  return found;
+}
+
+function parseEntries(source: string, masked: string, start: number, end: number, sectionId: string): ResumeEntry[] {
+  let found: { kind: EntryKind; start: number; args: Group[]; argsEnd: number }[] = [];
+  ENTRY_RE.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = ENTRY_RE.exec(masked)) && match.index < end) {
+    const kind = entryKind(match[1]);
+    const { args, next } = readArguments(masked, match.index + match[0].length, kind === "cventry" ? 6 : kind === "subheading" ? 4 : 2);
+    if (args.length === 0) continue;
+    found.push({ kind, start: match.index, args, argsEnd: next });
+    ENTRY_RE.lastIndex = next;
+  }
+  if (found.length === 0) found = findLineEntries(masked, start, end);
+
+  return found.map((entry, index) => {
+    const entryEnd = index + 1 < found.length ? found[index + 1].start : end;
+    const id = `${sectionId}.e${index + 1}`;
+    const fields = mapEntryFields(entry.kind, entry.args);
+    const values: Record<EntryField, string> = { title: "", organization: "", location: "", date: "", description: "" };
+    const fieldSpans: Partial<Record<EntryField, SourceSpan>> = {};
+    for (const [field, group] of Object.entries(fields) as [EntryField, Group][]) {
+      // Missing parts of a line entry are empty placeholders.
+      if (!group || group.end <= group.start) continue;
+      values[field] = source.slice(group.start, group.end);
+      fieldSpans[field] = { start: group.start, end: group.end };
+    }
+    // Bullets may live inside an argument (moderncv/awesome-cv descriptions)
+    // or after the heading (Jake's \resumeItemListStart ... End).
+    let bullets = parseBullets(source, masked, entry.args[0].start, entryEnd, id);
+    if (fieldSpans.description && bullets.some((b) => b.span && b.span.start >= fieldSpans.description.start && b.span.end <= fieldSpans.description.end)) {
+      delete fieldSpans.description;
+      values.description = "";
+    }
+    if (entry.kind === "cvitem") bullets = bullets.filter((b) => b.span && b.span.start >= entry.argsEnd);
+    return { id, kind: entry.kind, ...values, bullets, span: { start: entry.start, end: entryEnd }, fieldSpans };
+  });
+}
+
+function entryKind(command: string): EntryKind {
+  switch (command) {
+    case "resumeSubheading":
+      return "subheading";
+    case "resumeSubSubheading":
+      return "subsubheading";
+    case "resumeProjectHeading":
+      return "project";
+    case "cventry":
+      return "cventry";
+    default:
+      return "cvitem";
+  }
+}
+
+function mapEntryFields(kind: EntryKind, args: Group[]): Partial<Record<EntryField, Group>> {
+  const [a, b, c, d, e, f] = args;
+  switch (kind) {
+    case "subheading":
+      // Jake's layout is {top-left}{top-right}{bottom-left}{bottom-right}; the
+      // education section puts the school first, experience puts the role
+      // first. Whichever right-hand cell looks like a date decides.
+      if (b && DATE_RE.test(toPlainText(b.content)) && !(d && DATE_RE.test(toPlainText(d.content)))) {
+        return { title: a, date: b, organization: c, location: d };
+      }
+      return { organization: a, location: b, title: c, date: d };
+    case "subsubheading":
+    case "project":
+      return { title: a, date: b };
+    case "cventry":
+      // moderncv: {dates}{title}{employer}{city}{grade}{description}
+      if (args.length >= 6) return { date: a, title: b, organization: c, location: d, description: f };
+      // awesome-cv: {position}{organization}{location}{dates}{items}
+      return { title: a, organization: b, location: c, date: d, description: e };
+    case "cvitem":
+      return { title: a, description: b };
+    case "line":
+      return { title: a, date: b, organization: c, location: d };
+  }
+}
+
+function parseBullets(source: string, masked: string, start: number, end: number, parentId: string): ResumeBullet[] {
+  const bullets: ResumeBullet[] = [];
+  BULLET_RE.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = BULLET_RE.exec(masked)) && match.index < end) {
+    const afterCommand = match.index + match[0].length;
+    let span: SourceSpan | null = null;
+    if (match[1] === "item") {
+      const label = readGroup(masked, afterCommand, "[", "]");
+      const textStart = skipWhitespace(masked, label ? label.next : afterCommand);
+      ITEM_END_RE.lastIndex = textStart;
+      const stop = ITEM_END_RE.exec(masked);
+      let textEnd = Math.min(stop && stop.index < end ? stop.index : end, end);
+      textEnd = textStart + balancedPrefixLength(masked.slice(textStart, textEnd));
+      while (textEnd > textStart && /\s/.test(masked[textEnd - 1])) textEnd--;
+      span = { start: textStart, end: textEnd };
+      BULLET_RE.lastIndex = Math.max(textEnd, afterCommand);
+    } else {
+      // \resumeItem{text} or the older two-argument \resumeItem{title}{text}.
+      const { args, next } = readArguments(masked, afterCommand, 2);
+      if (args.length === 0) continue;
+      const text = args[args.length - 1];
+      span = { start: text.start, end: text.end };
+      BULLET_RE.lastIndex = next;
+    }
+    if (span.end <= span.start) continue;
+    bullets.push({ id: `${parentId}.b${bullets.length + 1}`, kind: "item", text: source.slice(span.start, span.end), span });
+  }
+  return bullets;
+}
+
+// Sections such as a summary are free text rather than lists; expose the
+// whole body as one editable paragraph.
+function parseParagraph(source: string, masked: string, start: number, end: number, parentId: string): ResumeBullet[] {
+  let textStart = skipWhitespace(masked, start);
+  let textEnd = end;
+  while (textEnd > textStart && /\s/.test(masked[textEnd - 1])) textEnd--;
+  if (!toPlainText(masked.slice(textStart, textEnd))) return [];
+  // Keep layout commands at the edges out of the editable text.
+  const leading = /^(\\(vspace|hspace)\*?\{[^{}]*\}\s*)+/.exec(masked.slice(textStart, textEnd));
+  if (leading) textStart += leading[0].length;
+  return [{ id: `${parentId}.b1`, kind: "paragraph", text: source.slice(textStart, textEnd), span: { start: textStart, end: textEnd } }];
+}
+
+const EMAIL_RE = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+const PHONE_RE = /\+?\d[\d\s().-]{7,}\d/;
+// "Austin, TX", "Berlin, Germany", "Remote".
+const LOCATION_RE = /^([A-Z][A-Za-z .'-]{1,30},\s*([A-Z]{2}|[A-Z][a-z]+( [A-Z][a-z]+)?)|[Rr]emote)$/;
+const HEADER_SEPARATOR_RE = /\$\|\$|\\textbar\b|\\\\(\[[^\]]*\])?|\\quad\b|\n|\|/g;
+
+function parseContact(source: string, masked: string, headerStart: number, headerEnd: number): ContactInfo {
+  const contact: ContactInfo = { name: "", email: "", phone: "", location: "", links: [], spans: {} };
+  const setField = (field: "name" | "email" | "phone" | "location", group: Group) => {
+    if (contact[field]) return;
+    contact[field] = toPlainText(source.slice(group.start, group.end));
+    contact.spans[field] = { start: group.start, end: group.end };
+  };
+
+  // moderncv/awesome-cv declare contact details with dedicated commands,
+  // usually in the preamble.
+  const commandRe = /\\(name|firstname|lastname|email|phone|mobile|address|homepage|social|linkedin|github|extrainfo)\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = commandRe.exec(masked))) {
+    const { args } = readArguments(masked, match.index + match[0].length, 2);
+    if (args.length === 0) continue;
+    switch (match[1]) {
+      case "name":
+        if (args.length === 2) {
+          // Split across two arguments, so there is no single span to write back.
+          contact.name = `${toPlainText(args[0].content)} ${toPlainText(args[1].content)}`.trim();
+        } else {
+          setField("name", args[0]);
+        }
+        break;
+      case "firstname":
+        if (!contact.name) contact.name = toPlainText(args[0].content);
+        break;
+      case "lastname":
+        contact.name = `${contact.name} ${toPlainText(args[0].content)}`.trim();
+        break;
+      case "email":
+        setField("email", args[0]);
+        break;
+      case "phone":
+      case "mobile":
+        setField("phone", args[0]);
+        break;
+      case "address":
+        if (args.length === 1) setField("location", args[0]);
+        else contact.location = args.map((a) => toPlainText(a.content)).filter(Boolean).join(", ");
+        break;
+      case "extrainfo":
+        // Free-form; only its links are contact details.
+        for (const link of args[0].content.matchAll(/\\(?:href|url)\s*\{([^{}]*)\}/g)) contact.links.push(link[1].trim());
+        break;
+      default:
+        contact.links.push(toPlainText(args[0].content));
+    }
+  }
+
+  // Article/Jake-style headers: the name is the first large or bold group.
+  const header = masked.slice(headerStart, headerEnd);
+  if (!contact.name) {
+    const nameMatch = /\\(Huge|huge|LARGE|Large|textbf)\b/.exec(header);
+    if (nameMatch) {
+      const groupAt = headerStart + nameMatch.index + nameMatch[0].length;
+      const group = nameMatch[1] === "textbf" ? readGroup(masked, groupAt) : null;
+      if (group) {
+        setField("name", group);
+      } else {
+        // \Huge \scshape Name } - take the rest of the enclosing group.
+        const rest = masked.slice(groupAt, headerEnd);
+        const stop = balancedPrefixLength(rest);
+        const text = toPlainText(rest.slice(0, stop));
+        if (text) contact.name = text;
+      }
+    }
+  }
+
+  const hrefRe = /\\(href|url)\s*\{([^{}]*)\}/g;
+  while ((match = hrefRe.exec(header))) {
+    const target = match[2].trim();
+    if (/^mailto:/i.test(target)) {
+      if (!contact.email) contact.email = target.replace(/^mailto:/i, "");
+    } else if (/^tel:/i.test(target)) {
+      if (!contact.phone) contact.phone = target.replace(/^tel:/i, "");
+    } else if (!contact.links.includes(target)) {
+      contact.links.push(target);
+    }
+  }
+
+  const headerText = toPlainText(header);
+  if (!contact.email) contact.email = EMAIL_RE.exec(headerText)?.[0] || "";
+  if (!contact.phone) contact.phone = PHONE_RE.exec(headerText)?.[0].trim() || "";
+
+  // A location is an unlinked header item such as "Austin, TX" between
+  // separators like $|$ or line breaks.
+  if (!contact.location) {
+    let partStart = headerStart;
+    for (const separator of [...header.matchAll(HEADER_SEPARATOR_RE), null]) {
+      const partEnd = separator ? headerStart + separator.index! : headerEnd;
+      const part = masked.slice(partStart, partEnd);
+      partStart = separator ? partEnd + separator[0].length : headerEnd;
+      if (/\\(href|url)\b/.test(part)) continue;
+      const text = toPlainText(part);
+      if (!LOCATION_RE.test(text)) continue;
+      const group = textGroup(masked, partEnd - part.length, partEnd);
+      if (group && group.content === text) setField("location", group);
+      else contact.location = text;
+      break;
+    }
+  }
+  return contact;
+}
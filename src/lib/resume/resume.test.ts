@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { allBullets, parseResume, serializeResume, type SourceSpan } from ".";
+import { ARTICLE_RESUME, AWESOME_CV_RESUME, JAKE_RESUME, MODERNCV_RESUME } from "./fixtures";
+
+const FIXTURES = { "Jake's resume": JAKE_RESUME, moderncv: MODERNCV_RESUME, "awesome-cv": AWESOME_CV_RESUME, "plain article": ARTICLE_RESUME };
+
+function replaceSpan(source: string, span: SourceSpan, text: string) {
+  return source.slice(0, span.start) + text + source.slice(span.end);
+}
+
+describe("serializeResume", () => {
+  for (const [name, source] of Object.entries(FIXTURES)) {
+    it(`gives back ${name} byte for byte when nothing changed`, () => {
+      expect(serializeResume(parseResume(source))).toBe(source);
+    });
+
+    it(`replaces only an edited bullet's span in ${name}`, () => {
+      const resume = parseResume(source);
+      const bullet = allBullets(resume)[0];
+      bullet.text = "Rewritten bullet";
+      expect(serializeResume(resume)).toBe(replaceSpan(source, bullet.span!, "Rewritten bullet"));
+    });
+  }
+
+  it("replaces only an edited entry field", () => {
+    const resume = parseResume(JAKE_RESUME);
+    const entry = resume.sections[1].entries[0];
+    entry.title = "Research Engineer";
+    expect(serializeResume(resume)).toBe(replaceSpan(JAKE_RESUME, entry.fieldSpans.title!, "Research Engineer"));
+  });
+
+  it("replaces only an edited section title", () => {
+    const resume = parseResume(MODERNCV_RESUME);
+    resume.sections[1].title = "Spoken Languages";
+    expect(serializeResume(resume)).toBe(replaceSpan(MODERNCV_RESUME, resume.sections[1].titleSpan!, "Spoken Languages"));
+  });
+
+  it("replaces only an edited contact field", () => {
+    const resume = parseResume(AWESOME_CV_RESUME);
+    resume.contact.email = "claud@example.com";
+    expect(serializeResume(resume)).toBe(replaceSpan(AWESOME_CV_RESUME, resume.contact.spans.email!, "claud@example.com"));
+  });
+
+  it("escapes an edited contact value", () => {
+    const resume = parseResume(JAKE_RESUME);
+    resume.contact.name = "Jane & Co 100%";
+    const output = serializeResume(resume);
+    expect(output).toContain("\\textbf{Jane \\& Co 100\\%}");
+    expect(parseResume(output).contact.name).toBe("Jane & Co 100%");
+  });
+
+  it("keeps commented-out bullets out of the model and in the output", () => {
+    const resume = parseResume(JAKE_RESUME);
+    expect(allBullets(resume).map((bullet) => bullet.text)).not.toContain("Commented out");
+    allBullets(resume).forEach((bullet) => (bullet.text = "x"));
+    expect(serializeResume(resume)).toContain("% \\resumeItem{Commented out}");
+  });
+});
+
+describe("parseResume", () => {
+  // What tailoring, locks and the ATS score see: the same bullets, word for
+  // word, whichever layout the resume uses.
+  it.each([
+    [JAKE_RESUME, ["Developed a REST API using FastAPI and PostgreSQL", "Explored ways to visualize GitHub collaboration in a classroom", "Backend engineer with 5 years of \\textbf{Python} experience."]],
+    [MODERNCV_RESUME, ["Built the billing service", "Shipped \\emph{reports}, 30\\% faster"]],
+    [AWESOME_CV_RESUME, ["{Provisioned an easily managable hybrid infrastructure}", "{Deployed the services with Kubernetes}"]],
+    [ARTICLE_RESUME, ["Data analyst who turns messy spreadsheets into dashboards.", "Built weekly sales dashboards in Tableau", "Automated reporting with Python, saving 6 hours a week", "SQL, Python, Tableau, Excel"]],
+  ])("finds the same bullets (%#)", (source, bullets) => {
+    expect(allBullets(parseResume(source)).map((bullet) => bullet.text)).toEqual(bullets);
+  });
+
+  it("keeps Jake's and moderncv entries as they were", () => {
+    const jake = parseResume(JAKE_RESUME).sections[1].entries[0];
+    expect([jake.kind, jake.title, jake.organization, jake.location, jake.date]).toEqual(["subheading", "Undergraduate Research Assistant", "Texas A\\&M University", "College Station, TX", "June 2020 -- Present"]);
+    const moderncv = parseResume(MODERNCV_RESUME).sections[0].entries.map((entry) => [entry.kind, entry.title, entry.organization, entry.location, entry.date]);
+    expect(moderncv).toEqual([["cventry", "Engineer", "ACME", "Berlin", "2019--Now"], ["cventry", "Intern", "Foo GmbH", "Paris", "2015--2019"]]);
+  });
+
+  it("reads bold-title entries of plain article resumes", () => {
+    const [entry] = parseResume(ARTICLE_RESUME).sections[1].entries;
+    expect([entry.kind, entry.title, entry.organization, entry.location, entry.date]).toEqual(["line", "Data Analyst", "Acme Analytics", "Denver, CO", "2021 -- Present"]);
+    expect(entry.bullets).toHaveLength(2);
+  });
+
+  it("does not read bold labels as entries", () => {
+    const source = ARTICLE_RESUME.replace("SQL, Python, Tableau, Excel", "\\textbf{Languages}: SQL, Python");
+    expect(parseResume(source).sections[2].entries).toEqual([]);
+  });
+
+  it("finds a location between header separators", () => {
+    expect(parseResume(ARTICLE_RESUME).contact.location).toBe("Denver, CO");
+    expect(parseResume(JAKE_RESUME).contact.location).toBe("");
+  });
+
+  it("reads links from moderncv's \\extrainfo", () => {
+    const source = MODERNCV_RESUME.replace("\\social[linkedin]{john.doe}", "\\extrainfo{\\href{https://johndoe.dev}{johndoe.dev}}");
+    expect(parseResume(source).contact.links).toEqual(["https://johndoe.dev"]);
+  });
+});
@@ -0,0 +1,50 @@
+import { escapeLatex, toPlainText } from "./latex";
+import type { Resume, SourceSpan } from "./types";
+
+interface Replacement {
+  span: SourceSpan;
+  text: string;
+}
+
+function collectReplacements(resume: Resume): Replacement[] {
+  const replacements: Replacement[] = [];
+  const add = (span: SourceSpan | undefined, text: string) => {
+    if (span) replacements.push({ span, text });
+  };
+
+  const { contact } = resume;
+  // Contact values are plain text, so they are escaped on the way back; only
+  // write them when they changed so the original markup (e.g. \scshape,
+  // \href) is kept otherwise.
+  for (const field of ["name", "email", "phone", "location"] as const) {
+    const span = contact.spans[field];
+    if (span && toPlainText(resume.source.slice(span.start, span.end)) !== contact[field]) add(span, escapeLatex(contact[field]));
+  }
+
+  for (const section of resume.sections) {
+    add(section.titleSpan, section.title);
+    for (const entry of section.entries) {
+      for (const [field, span] of Object.entries(entry.fieldSpans)) add(span, entry[field as keyof typeof entry.fieldSpans]);
+      for (const bullet of entry.bullets) add(bullet.span, bullet.text);
+    }
+    for (const bullet of section.bullets) add(bullet.span, bullet.text);
+  }
+  return replacements;
+}
+
+// Writes the model back into its original LaTeX. Unchanged fields reproduce
+// the source byte for byte; edited fields replace exactly their own span.
+// Sections, entries or bullets without a span (i.e. not parsed from this
+// source) are not serialized; render those through a template instead.
+export function serializeResume(resume: Resume): string {
+  const replacements = collectReplacements(resume).sort((a, b) => b.span.start - a.span.start);
+  let output = resume.source;
+  let lastStart = Infinity;
+  for (const { span, text } of replacements) {
+    // Nested spans (e.g. a name spanning two \name arguments) must not overlap.
+    if (span.end > lastStart) continue;
+    output = output.slice(0, span.start) + text + output.slice(span.end);
+    lastStart = span.start;
+  }
+  return output;
+}
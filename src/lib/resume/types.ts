@@ -0,0 +1,62 @@
+// Typed resume model produced by the LaTeX parser. Text fields hold raw LaTeX
+// (so `\textbf{}` and escapes survive a round trip); spans point back into
+// `Resume.source` so the serializer can write edits back in place.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface ContactInfo {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+  spans: Partial<Record<"name" | "email" | "phone" | "location", SourceSpan>>;
+}
+
+export type BulletKind = "item" | "paragraph";
+
+export interface ResumeBullet {
+  id: string;
+  kind: BulletKind;
+  text: string;
+  span?: SourceSpan;
+}
+
+// subheading/subsubheading/project: Jake's-resume macros.
+// cventry/cvitem: moderncv and awesome-cv.
+// line: plain article, "\textbf{title} \hfill date \\ \textit{organization} \hfill location".
+export type EntryKind = "subheading" | "subsubheading" | "project" | "cventry" | "cvitem" | "line";
+
+export type EntryField = "title" | "organization" | "location" | "date" | "description";
+
+export interface ResumeEntry {
+  id: string;
+  kind: EntryKind;
+  title: string;
+  organization: string;
+  location: string;
+  date: string;
+  description: string;
+  bullets: ResumeBullet[];
+  span?: SourceSpan;
+  fieldSpans: Partial<Record<EntryField, SourceSpan>>;
+}
+
+export interface ResumeSection {
+  id: string;
+  title: string;
+  titleSpan?: SourceSpan;
+  entries: ResumeEntry[];
+  // Bullets (or a free-text paragraph) that are not inside any entry.
+  bullets: ResumeBullet[];
+  span?: SourceSpan;
+}
+
+export interface Resume {
+  source: string;
+  contact: ContactInfo;
+  sections: ResumeSection[];
+}
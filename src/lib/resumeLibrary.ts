@@ -0,0 +1,151 @@
+// Resume library kept in IndexedDB: named base resumes, plus tailored versions
+// that remember the job they were made for and the base they started from.
+
+import { clearStore, createId, getAll, getAllByIndex, getOne, put, remove } from "./db";
+import type { LockedRange } from "./locks";
+import type { LatexProject } from "./project";
+
+const LEGACY_RESUME_KEY = "resume_wizard_last_resume";
+
+export interface BaseResume {
+  id: string;
+  name: string;
+  fileName: string;
+  content: string;
+  // Regions tailoring must leave alone; see src/lib/locks.
+  locks?: LockedRange[];
+  // The files a multi-file upload came from; `content` is its flattened source.
+  project?: LatexProject;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface VersionJob {
+  title?: string;
+  company?: string;
+  url?: string;
+  description: string;
+}
+
+export interface ResumeVersion {
+  id: string;
+  baseId: string;
+  name: string;
+  content: string;
+  // The base resume as it was when this version was tailored, so the diff
+  // stays meaningful after the base is edited.
+  baseContent: string;
+  job: VersionJob;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const byUpdatedDesc = (a: { updatedAt: number }, b: { updatedAt: number }) => b.updatedAt - a.updatedAt;
+
+export async function listResumes() {
+  return (await getAll<BaseResume>("resumes")).sort(byUpdatedDesc);
+}
+
+export function getResume(id: string) {
+  return getOne<BaseResume>("resumes", id);
+}
+
+// Saves an uploaded resume. Uploading identical content again returns the
+// existing entry instead of creating a duplicate.
+export async function saveResume(input: { name: string; fileName: string; content: string; project?: LatexProject }) {
+  const existing = (await listResumes()).find((resume) => resume.content === input.content);
+  if (existing) return existing;
+  const now = Date.now();
+  return put<BaseResume>("resumes", { id: createId(), ...input, createdAt: now, updatedAt: now });
+}
+
+export async function renameResume(id: string, name: string) {
+  const resume = await getResume(id);
+  if (!resume) throw new Error("Resume not found");
+  return put<BaseResume>("resumes", { ...resume, name, updatedAt: Date.now() });
+}
+
+export async function updateResumeLocks(id: string, locks: LockedRange[]) {
+  const resume = await getResume(id);
+  if (!resume) throw new Error("Resume not found");
+  return put<BaseResume>("resumes", { ...resume, locks, updatedAt: Date.now() });
+}
+
+export async function duplicateResume(id: string) {
+  const resume = await getResume(id);
+  if (!resume) throw new Error("Resume not found");
+  const now = Date.now();
+  return put<BaseResume>("resumes", { ...resume, id: createId(), name: `${resume.name} (copy)`, createdAt: now, updatedAt: now });
+}
+
+// Deletes a base resume together with its tailored versions.
+export async function deleteResume(id: string) {
+  for (const version of await listVersions(id)) await remove("versions", version.id);
+  await remove("resumes", id);
+}
+
+export async function listVersions(baseId?: string) {
+  const versions = baseId ? await getAllByIndex<ResumeVersion>("versions", "baseId", baseId) : await getAll<ResumeVersion>("versions");
+  return versions.sort(byUpdatedDesc);
+}
+
+export function getVersion(id: string) {
+  return getOne<ResumeVersion>("versions", id);
+}
+
+export function versionNameFor(job: VersionJob) {
+  const label = [job.title, job.company].filter(Boolean).join(" @ ");
+  return label || `Tailored ${new Date().toLocaleDateString()}`;
+}
+
+export async function saveVersion(input: { baseId: string; content: string; baseContent: string; job: VersionJob; name?: string }) {
+  const now = Date.now();
+  return put<ResumeVersion>("versions", {
+    id: createId(),
+    baseId: input.baseId,
+    name: input.name || versionNameFor(input.job),
+    content: input.content,
+    baseContent: input.baseContent,
+    job: input.job,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function updateVersion(id: string, changes: Partial<Pick<ResumeVersion, "name" | "content">>) {
+  const version = await getVersion(id);
+  if (!version) throw new Error("Version not found");
+  return put<ResumeVersion>("versions", { ...version, ...changes, updatedAt: Date.now() });
+}
+
+export function deleteVersion(id: string) {
+  return remove("versions", id);
+}
+
+export async function clearLibrary() {
+  await clearStore("versions");
+  await clearStore("resumes");
+}
+
+// Moves the single resume older builds kept in localStorage into the library.
+export async function migrateLegacyResume() {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(LEGACY_RESUME_KEY);
+  } catch (e) {
+    return null;
+  }
+  if (!raw) return null;
+  let legacy: { name: string; content: string; savedAt: number } | null = null;
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    // unreadable entry; drop it below
+  }
+  // If saving fails the old entry is kept for the next attempt.
+  const resume = legacy?.content
+    ? await saveResume({ name: (legacy.name || "Resume").replace(/\.tex$/i, ""), fileName: legacy.name || "resume.tex", content: legacy.content })
+    : null;
+  localStorage.removeItem(LEGACY_RESUME_KEY);
+  return resume;
+}
@@ -0,0 +1,65 @@
+import type { AtsKeyword } from "../ats";
+import type { LLMProvider } from "../llm";
+import { requestModelJson } from "../tailoring";
+import { buildSkillExtractionPrompt } from "./prompt";
+import { SkillExtractionSchema, type ExtractedSkill, type SkillCategory } from "./schema";
+
+export type { ExtractedSkill, SkillCategory, SkillExtraction } from "./schema";
+export { ExtractedSkillSchema, SkillCategorySchema, SkillExtractionSchema } from "./schema";
+export { buildSkillExtractionPrompt } from "./prompt";
+
+// An extracted skill as curated by the user. Pinned skills are ones the user
+// wants the tailoring run to work into the resume.
+export interface Skill extends ExtractedSkill {
+  pinned?: boolean;
+}
+
+export const SKILL_CATEGORIES: { value: SkillCategory; label: string }[] = [
+  { value: "hard_skill", label: "Hard skills" },
+  { value: "tool", label: "Tools & technologies" },
+  { value: "soft_skill", label: "Soft skills" },
+  { value: "certification", label: "Certifications" },
+  { value: "experience", label: "Experience" },
+];
+
+// Keywords for ATS scoring. Years-of-experience items aren't keywords a
+// resume can contain verbatim.
+export function toAtsKeywords(skills: ExtractedSkill[]): AtsKeyword[] {
+  return skills.filter((skill) => skill.category !== "experience").map((skill) => ({ term: skill.name, required: skill.required }));
+}
+
+export function skillKey(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Drops repeats (case-insensitively); a repeat marked required wins.
+export function dedupeSkills<T extends ExtractedSkill>(skills: T[]) {
+  const byKey = new Map<string, T>();
+  for (const skill of skills) {
+    const key = skillKey(skill.name);
+    const existing = byKey.get(key);
+    if (!existing) byKey.set(key, skill);
+    else if (skill.required && !existing.required) byKey.set(key, { ...existing, required: true });
+  }
+  return [...byKey.values()];
+}
+
+export interface ExtractSkillsRequest {
+  provider: LLMProvider;
+  jobDescription: string;
+  // Skill-extraction template; the built-in default when omitted.
+  promptTemplate?: string;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+}
+
+export async function extractSkills({ provider, jobDescription, promptTemplate, maxAttempts = 3, signal }: ExtractSkillsRequest): Promise<ExtractedSkill[]> {
+  return requestModelJson({
+    prompt: buildSkillExtractionPrompt(jobDescription, promptTemplate),
+    schema: SkillExtractionSchema,
+    description: "a valid skill list",
+    maxAttempts,
+    send: (prompt) => provider.generate(prompt, { json: true, signal }),
+    map: (value) => dedupeSkills(value.skills),
+  });
+}
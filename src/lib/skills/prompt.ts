@@ -0,0 +1,10 @@
+import { PROMPT_DEFINITIONS, renderTemplate } from "../prompts";
+
+// Renders the skill-extraction template (see src/lib/prompts); the reply
+// format is fixed because SkillExtractionSchema parses it.
+export function buildSkillExtractionPrompt(jobDescription: string, template = PROMPT_DEFINITIONS.skills.defaultTemplate) {
+  return `${renderTemplate(template, { jobDescription })}
+
+Return ONLY a JSON object of this shape, with no explanations and no markdown formatting:
+{"skills": [{"name": "<skill>", "category": "hard_skill" | "tool" | "soft_skill" | "certification" | "experience", "required": true | false, "years": <number, only for experience>}]}`;
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// Shape the model must return when analysing a job posting. Each item is one
+// requirement, classified so the UI can group it and the ATS score can tell
+// must-haves from nice-to-haves.
+
+export const SkillCategorySchema = z.enum(["hard_skill", "tool", "soft_skill", "certification", "experience"]);
+
+export const ExtractedSkillSchema = z.object({
+  name: z.string().trim().min(1),
+  category: SkillCategorySchema.catch("hard_skill"),
+  required: z.boolean().default(true),
+  // Only for "experience" items, e.g. 5 for "5+ years of backend development".
+  years: z.number().nonnegative().nullish(),
+});
+
+export const SkillExtractionSchema = z.object({
+  skills: z.array(ExtractedSkillSchema),
+});
+
+export type SkillCategory = z.infer<typeof SkillCategorySchema>;
+export type ExtractedSkill = z.infer<typeof ExtractedSkillSchema>;
+export type SkillExtraction = z.infer<typeof SkillExtractionSchema>;
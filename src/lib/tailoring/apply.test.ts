@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { parseResume } from "../resume";
+import { lineOfOffset } from "../resume/latex";
+import { JAKE_RESUME } from "../resume/fixtures";
+import { applyRewrites } from "./apply";
+
+const FIRST = "Developed a REST API using FastAPI and PostgreSQL";
+const SECOND = "Explored ways to visualize GitHub collaboration in a classroom";
+
+function apply(rewrites: { id: string; original: string; updated: string }[], constraints = {}) {
+  return applyRewrites(parseResume(JAKE_RESUME), rewrites.map((rewrite) => ({ rationale: "", ...rewrite })), constraints);
+}
+
+describe("applyRewrites", () => {
+  it("replaces the rewritten bullet and nothing else", () => {
+    const result = apply([{ id: "s2.e1.b1", original: FIRST, updated: "Built a REST API in FastAPI" }]);
+    expect(result.content).toBe(JAKE_RESUME.replace(FIRST, "Built a REST API in FastAPI"));
+    expect(result.applied).toHaveLength(1);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("rejects an unknown id", () => {
+    const result = apply([{ id: "s9.b1", original: FIRST, updated: "Invented" }]);
+    expect(result.content).toBe(JAKE_RESUME);
+    expect(result.rejected[0].reason).toMatch(/No bullet with id "s9.b1"/);
+  });
+
+  it("rejects a second rewrite of the same bullet", () => {
+    const result = apply([
+      { id: "s2.e1.b1", original: FIRST, updated: "First rewrite" },
+      { id: "s2.e1.b1", original: FIRST, updated: "Second rewrite" },
+    ]);
+    expect(result.content).toBe(JAKE_RESUME.replace(FIRST, "First rewrite"));
+    expect(result.rejected[0].reason).toMatch(/already rewritten/);
+  });
+
+  it("rejects a misquoted original", () => {
+    const result = apply([{ id: "s2.e1.b1", original: "Developed a GraphQL API", updated: "Built an API" }]);
+    expect(result.content).toBe(JAKE_RESUME);
+    expect(result.rejected[0].reason).toMatch(/does not match/);
+  });
+
+  it("accepts an original that differs only in whitespace", () => {
+    const result = apply([{ id: "s2.e1.b1", original: `  ${FIRST.replace(/ /g, "\n ")} `, updated: "Built an API" }]);
+    expect(result.applied).toHaveLength(1);
+  });
+
+  it.each(["Built \\textbf{an API", "Built an} API", "Built an API \\"])("rejects unbalanced braces in %j", (updated) => {
+    const result = apply([{ id: "s2.e1.b1", original: FIRST, updated }]);
+    expect(result.content).toBe(JAKE_RESUME);
+    expect(result.rejected[0].reason).toMatch(/unbalanced braces/);
+  });
+
+  it("rejects a bullet inside a locked region", () => {
+    const line = lineOfOffset(JAKE_RESUME, JAKE_RESUME.indexOf(SECOND));
+    const result = apply(
+      [
+        { id: "s2.e1.b1", original: FIRST, updated: "Built an API" },
+        { id: "s2.e1.b2", original: SECOND, updated: "Visualized GitHub data" },
+      ],
+      { locks: [{ id: "lock", label: "Line", startLine: line, endLine: line }] },
+    );
+    expect(result.content).toBe(JAKE_RESUME.replace(FIRST, "Built an API"));
+    expect(result.rejected.map((r) => r.reason)).toEqual(['Bullet is inside the locked region "Line"']);
+  });
+
+  it("rejects a bullet in a section the preset does not edit", () => {
+    const result = apply([{ id: "s2.e1.b1", original: FIRST, updated: "Built an API" }], { editableSections: ["Summary"] });
+    expect(result.rejected[0].reason).toMatch(/"Experience" section is not editable/);
+  });
+
+  it("rejects a rewrite longer than the preset allows, counting visible characters", () => {
+    const result = apply(
+      [
+        { id: "s2.e1.b1", original: FIRST, updated: "Built a much longer REST API description" },
+        { id: "s2.e1.b2", original: SECOND, updated: "\\textbf{Charted GitHub}" },
+      ],
+      { maxBulletLength: 20 },
+    );
+    expect(result.rejected.map((r) => r.reason)).toEqual(["Rewrite is 40 characters; the preset allows 20"]);
+    expect(result.applied.map((r) => r.id)).toEqual(["s2.e1.b2"]);
+  });
+
+  it("skips a rewrite that changes nothing", () => {
+    const result = apply([{ id: "s2.e1.b1", original: FIRST, updated: FIRST }]);
+    expect(result.applied).toEqual([]);
+    expect(result.rejected).toEqual([]);
+  });
+});
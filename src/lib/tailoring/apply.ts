@@ -0,0 +1,107 @@
+import { allBullets, serializeResume, toPlainText, type Resume } from "../resume";
+import { rangesOverlap, type LockedRange } from "../locks";
+import { balancedPrefixLength, lineOfOffset } from "../resume/latex";
+import type { BulletRewrite } from "./schema";
+
+export interface RejectedRewrite {
+  rewrite: BulletRewrite;
+  reason: string;
+}
+
+// Limits from the tailoring preset, enforced again after the model replies.
+export interface TailorConstraints {
+  // Section titles that may be rewritten (case-insensitive); empty means all.
+  editableSections?: string[];
+  // Longest a rewritten bullet may be, in visible characters.
+  maxBulletLength?: number | null;
+  // Regions of the source the user locked; see src/lib/locks.
+  locks?: LockedRange[];
+}
+
+export interface ApplyResult {
+  content: string;
+  applied: BulletRewrite[];
+  rejected: RejectedRewrite[];
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+export function isSectionEditable(title: string, constraints: TailorConstraints = {}) {
+  const allowed = constraints.editableSections || [];
+  if (allowed.length === 0) return true;
+  const key = toPlainText(title).trim().toLowerCase();
+  return allowed.some((name) => name.trim().toLowerCase() === key);
+}
+
+// Why each bullet the constraints keep unchanged is locked, by bullet id.
+function lockedBullets(resume: Resume, constraints: TailorConstraints) {
+  const locked = new Map<string, string>();
+  for (const section of resume.sections) {
+    if (isSectionEditable(section.title, constraints)) continue;
+    const reason = `The "${toPlainText(section.title)}" section is not editable with this preset`;
+    for (const bullet of section.bullets) locked.set(bullet.id, reason);
+    for (const entry of section.entries) for (const bullet of entry.bullets) locked.set(bullet.id, reason);
+  }
+  for (const bullet of allBullets(resume)) {
+    if (!bullet.span || locked.has(bullet.id)) continue;
+    const lines = { startLine: lineOfOffset(resume.source, bullet.span.start), endLine: lineOfOffset(resume.source, bullet.span.end) };
+    const lock = (constraints.locks || []).find((l) => rangesOverlap(l, lines));
+    if (lock) locked.set(bullet.id, `Bullet is inside the locked region "${lock.label}"`);
+  }
+  return locked;
+}
+
+// Bullets the constraints allow the model to rewrite, in document order.
+export function editableBullets(resume: Resume, constraints: TailorConstraints = {}) {
+  const locked = lockedBullets(resume, constraints);
+  return allBullets(resume).filter((bullet) => !locked.has(bullet.id));
+}
+
+function hasBalancedBraces(text: string) {
+  if (balancedPrefixLength(text) !== text.length) return false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    // A trailing backslash would escape the brace that closes the bullet.
+    if (text[i] === "\\" && i === text.length - 1) return false;
+    if (text[i] === "\\") i++;
+    else if (text[i] === "{") depth++;
+    else if (text[i] === "}") depth--;
+  }
+  return depth === 0;
+}
+
+// Applies validated rewrites to the parsed resume and serializes it. Rewrites
+// that target unknown bullets (hallucinated sections), misquote the original
+// text, would break the LaTeX or break the preset's constraints are rejected
+// with a reason instead.
+export function applyRewrites(resume: Resume, rewrites: BulletRewrite[], constraints: TailorConstraints = {}): ApplyResult {
+  const bullets = new Map(allBullets(resume).map((bullet) => [bullet.id, bullet]));
+  const locked = lockedBullets(resume, constraints);
+  const maxLength = constraints.maxBulletLength;
+  const seen = new Set<string>();
+  const applied: BulletRewrite[] = [];
+  const rejected: RejectedRewrite[] = [];
+
+  for (const rewrite of rewrites) {
+    const bullet = bullets.get(rewrite.id);
+    if (!bullet) {
+      rejected.push({ rewrite, reason: `No bullet with id "${rewrite.id}" exists in the resume` });
+    } else if (seen.has(rewrite.id)) {
+      rejected.push({ rewrite, reason: "Bullet was already rewritten earlier in the reply" });
+    } else if (normalize(rewrite.original) !== normalize(bullet.text)) {
+      rejected.push({ rewrite, reason: "Quoted original text does not match the resume" });
+    } else if (!hasBalancedBraces(rewrite.updated)) {
+      rejected.push({ rewrite, reason: "Rewrite has unbalanced braces" });
+    } else if (locked.has(rewrite.id)) {
+      rejected.push({ rewrite, reason: locked.get(rewrite.id)! });
+    } else if (maxLength && toPlainText(rewrite.updated).length > maxLength) {
+      rejected.push({ rewrite, reason: `Rewrite is ${toPlainText(rewrite.updated).length} characters; the preset allows ${maxLength}` });
+    } else if (normalize(rewrite.updated) !== normalize(bullet.text)) {
+      seen.add(rewrite.id);
+      bullet.text = rewrite.updated;
+      applied.push(rewrite);
+    }
+  }
+
+  return { content: serializeResume(resume), applied, rejected };
+}
@@ -0,0 +1,131 @@
+import type { LLMProvider } from "../llm";
+import { enforceLocks, type LockViolation } from "../locks";
+import type { Skill } from "../skills";
+import { allBullets, parseResume } from "../resume";
+import { applyRewrites, editableBullets, type ApplyResult, type TailorConstraints } from "./apply";
+import { requestModelJson } from "./json";
+import { buildTailorPrompt } from "./prompt";
+import { TailorResponseSchema, type BulletRewrite } from "./schema";
+import { parsePartialRewrites } from "./stream";
+
+export type { ApplyResult, RejectedRewrite, TailorConstraints } from "./apply";
+export type { BulletRewrite, TailorResponse } from "./schema";
+export { applyRewrites, editableBullets, isSectionEditable } from "./apply";
+export { extractJsonObject, parseModelJson, requestModelJson, type ModelJsonRequest } from "./json";
+export { BulletRewriteSchema, TailorResponseSchema } from "./schema";
+export { parsePartialRewrites, type PartialRewrites } from "./stream";
+
+// Each report re-parses the reply and re-applies every rewrite so far, so
+// reporting on every chunk would be quadratic in the reply's length.
+const PROGRESS_INTERVAL_MS = 100;
+
+export interface TailorProgress {
+  attempt: number;
+  // Share of the editable bullets the model has worked through so far (0-1).
+  fraction: number;
+  rewritten: number;
+  totalBullets: number;
+  // Bullet currently being rewritten, if any.
+  currentId?: string;
+  // The resume with every rewrite received so far applied.
+  preview: string;
+}
+
+export interface TailorRequest {
+  provider: LLMProvider;
+  source: string;
+  jobDescription: string;
+  instructions: string;
+  // Curated target keywords; see describeTargetSkills.
+  skills?: Skill[];
+  temperature?: number;
+  constraints?: TailorConstraints;
+  // Tailoring template; the built-in default when omitted.
+  promptTemplate?: string;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: TailorProgress) => void;
+}
+
+export interface TailorResult extends ApplyResult {
+  attempts: number;
+  // Changes inside locked regions that were reverted after applying.
+  lockViolations: LockViolation[];
+}
+
+// Streams the model's reply so callers can show rewrites as they arrive;
+// the complete reply is still validated as a whole before it is applied.
+export async function tailorResume({
+  provider,
+  source,
+  jobDescription,
+  instructions,
+  skills,
+  temperature,
+  constraints = {},
+  promptTemplate,
+  maxAttempts = 3,
+  signal,
+  onProgress,
+}: TailorRequest): Promise<TailorResult> {
+  const resume = parseResume(source);
+  if (allBullets(resume).length === 0) {
+    throw new Error("Could not find any sections or bullets to tailor in this resume");
+  }
+  const bullets = editableBullets(resume, constraints);
+  if (bullets.length === 0) {
+    throw new Error(
+      constraints.locks?.length
+        ? "Every bullet in this resume is locked or outside the preset's editable sections"
+        : `None of the preset's editable sections (${constraints.editableSections.join(", ")}) exist in this resume`,
+    );
+  }
+  const order = new Map(bullets.map((bullet, index) => [bullet.id, index]));
+  const originals = new Map(bullets.map((bullet) => [bullet.id, bullet.text]));
+
+  const report = (attempt: number, reply: string) => {
+    const partial = parsePartialRewrites(reply);
+    const rewrites: BulletRewrite[] = [...partial.complete];
+    const pending = partial.pending;
+    if (pending && originals.has(pending.id) && !rewrites.some((r) => r.id === pending.id)) {
+      rewrites.push({ id: pending.id, original: originals.get(pending.id)!, updated: pending.updated, rationale: "" });
+    }
+    const reached = Math.max(-1, ...rewrites.map((r) => order.get(r.id) ?? -1));
+    onProgress!({
+      attempt,
+      fraction: (reached + 1) / bullets.length,
+      rewritten: partial.complete.length,
+      totalBullets: bullets.length,
+      currentId: pending?.id,
+      // applyRewrites edits the resume it is given, so preview on a fresh parse.
+      preview: applyRewrites(parseResume(source), rewrites, constraints).content,
+    });
+  };
+
+  return requestModelJson({
+    prompt: buildTailorPrompt(resume, jobDescription, instructions, skills, constraints, promptTemplate),
+    schema: TailorResponseSchema,
+    description: "valid tailoring output",
+    maxAttempts,
+    send: async (prompt, attempt) => {
+      let reply = "";
+      let reportedAt = 0;
+      for await (const chunk of provider.stream(prompt, { json: true, signal, temperature })) {
+        reply += chunk;
+        if (onProgress && Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+          reportedAt = Date.now();
+          report(attempt, reply);
+        }
+      }
+      if (onProgress) report(attempt, reply);
+      return reply;
+    },
+    map: (value, attempt) => {
+      // Rewrites of locked bullets were already rejected; this also catches
+      // anything else that changed inside a lock.
+      const applied = applyRewrites(resume, value.rewrites, constraints);
+      const guarded = enforceLocks(source, applied.content, constraints.locks || []);
+      return { ...applied, content: guarded.content, attempts: attempt, lockViolations: guarded.violations };
+    },
+  });
+}
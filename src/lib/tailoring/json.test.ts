@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { parseModelJson, requestModelJson } from "./json";
+
+const Schema = z.object({ answer: z.number() });
+
+describe("parseModelJson", () => {
+  it("reads JSON wrapped in a code fence", () => {
+    expect(parseModelJson('```json\n{"answer": 42}\n```', Schema)).toEqual({ value: { answer: 42 } });
+  });
+
+  it("explains a reply that does not match the schema", () => {
+    expect(parseModelJson('{"answer": "42"}', Schema).error).toMatch(/^Reply did not match the expected schema \(answer:/);
+  });
+});
+
+describe("requestModelJson", () => {
+  it("retries with the previous error and maps the first valid reply", async () => {
+    const replies = ["no JSON here", '{"answer": 42}'];
+    const prompts: string[] = [];
+    const result = await requestModelJson({
+      prompt: "Question",
+      schema: Schema,
+      description: "an answer",
+      maxAttempts: 3,
+      send: async (prompt) => {
+        prompts.push(prompt);
+        return replies.shift()!;
+      },
+      map: (value, attempt) => ({ ...value, attempt }),
+    });
+    expect(result).toEqual({ answer: 42, attempt: 2 });
+    expect(prompts[0]).toBe("Question");
+    expect(prompts[1]).toMatch(/^Question\n\nYOUR PREVIOUS REPLY WAS REJECTED: Reply did not contain a JSON object/);
+  });
+
+  it("gives up after the last attempt with the last error", async () => {
+    let calls = 0;
+    const request = requestModelJson({
+      prompt: "Question",
+      schema: Schema,
+      description: "an answer",
+      maxAttempts: 2,
+      send: async () => {
+        calls++;
+        return "{}";
+      },
+      map: (value) => value,
+    });
+    await expect(request).rejects.toThrow(/^The model did not return an answer after 2 attempts: Reply did not match/);
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,58 @@
+import type { ZodType } from "zod";
+
+// Pulls the outermost JSON object out of a model reply, tolerating code
+// fences or a sentence of commentary around it.
+export function extractJsonObject(text: string) {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) throw new Error("Reply did not contain a JSON object");
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+// Exactly one of `value` and `error` is set.
+export interface ParseResult<T> {
+  value?: T;
+  error?: string;
+}
+
+export function parseModelJson<T>(text: string, schema: ZodType<T, any, any>): ParseResult<T> {
+  let raw: unknown;
+  try {
+    raw = extractJsonObject(text);
+  } catch (err: any) {
+    return { error: err?.message || String(err) };
+  }
+  const result = schema.safeParse(raw);
+  if (result.success) return { value: result.data };
+  const issues = result.error.issues.slice(0, 5).map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  return { error: `Reply did not match the expected schema (${issues.join("; ")})` };
+}
+
+export interface ModelJsonRequest<T, R> {
+  prompt: string;
+  schema: ZodType<T, any, any>;
+  // What was asked for, for the final error ("a valid skill list").
+  description: string;
+  maxAttempts: number;
+  // Sends one attempt's prompt and returns the whole reply.
+  send: (prompt: string, attempt: number) => Promise<string>;
+  map: (value: T, attempt: number) => R;
+}
+
+function buildRetryFeedback(error: string) {
+  return `\n\nYOUR PREVIOUS REPLY WAS REJECTED: ${error}\nReply again with ONLY the JSON object described above.`;
+}
+
+// Asks until a reply matches the schema, telling the model what was wrong
+// with the previous one each time.
+export async function requestModelJson<T, R>({ prompt, schema, description, maxAttempts, send, map }: ModelJsonRequest<T, R>): Promise<R> {
+  let feedback = "";
+  let lastError = "";
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const parsed = parseModelJson(await send(prompt + feedback, attempt), schema);
+    if (parsed.value) return map(parsed.value, attempt);
+    lastError = parsed.error!;
+    feedback = buildRetryFeedback(lastError);
+  }
+  throw new Error(`The model did not return ${description} after ${maxAttempts} attempts: ${lastError}`);
+}
@@ -0,0 +1,68 @@
+import { toPlainText, type Resume } from "../resume";
+import { PROMPT_DEFINITIONS, renderTemplate } from "../prompts";
+import type { Skill } from "../skills";
+import { isSectionEditable, type TailorConstraints } from "./apply";
+
+// Compact view of the resume sent to the model: only bullets can be
+// rewritten, headings are given for context. Sections the preset keeps
+// unchanged are listed by title only.
+export function describeBullets(resume: Resume, constraints: TailorConstraints = {}) {
+  const lines: string[] = [];
+  for (const section of resume.sections) {
+    if (!isSectionEditable(section.title, constraints)) {
+      lines.push(`## ${toPlainText(section.title)} (not editable, omitted)`);
+      continue;
+    }
+    lines.push(`## ${toPlainText(section.title)}`);
+    for (const bullet of section.bullets) lines.push(JSON.stringify({ id: bullet.id, text: bullet.text }));
+    for (const entry of section.entries) {
+      const heading = [entry.title, entry.organization, entry.date].map(toPlainText).filter(Boolean).join(" | ");
+      if (heading) lines.push(`### ${heading}`);
+      for (const bullet of entry.bullets) lines.push(JSON.stringify({ id: bullet.id, text: bullet.text }));
+    }
+  }
+  return lines.join("\n");
+}
+
+// The user's curated keyword list, most important first. Skills they removed
+// are simply absent.
+export function describeTargetSkills(skills: Skill[]) {
+  const names = (items: Skill[]) => items.map((skill) => skill.name).join("; ");
+  const pinned = skills.filter((skill) => skill.pinned);
+  const required = skills.filter((skill) => !skill.pinned && skill.required);
+  const preferred = skills.filter((skill) => !skill.pinned && !skill.required);
+  const lines: string[] = [];
+  if (pinned.length) lines.push(`- Pinned (the candidate wants these emphasised; work each into the most relevant bullet the experience supports): ${names(pinned)}`);
+  if (required.length) lines.push(`- Required by the job: ${names(required)}`);
+  if (preferred.length) lines.push(`- Preferred by the job: ${names(preferred)}`);
+  return lines.join("\n");
+}
+
+// Renders the tailoring template (see src/lib/prompts) and appends the reply
+// format, which stays fixed because applyRewrites depends on it.
+export function buildTailorPrompt(
+  resume: Resume,
+  jobDescription: string,
+  instructions: string,
+  skills: Skill[] = [],
+  constraints: TailorConstraints = {},
+  template = PROMPT_DEFINITIONS.tailor.defaultTemplate,
+) {
+  const body = renderTemplate(template, {
+    jobDescription,
+    resume: describeBullets(resume, constraints),
+    skills: skills.length ? describeTargetSkills(skills) : "None reviewed; use the keywords in the job description.",
+    strength: instructions,
+  });
+  const lengthRule = constraints.maxBulletLength
+    ? `\n- Keep every "updated" bullet at most ${constraints.maxBulletLength} characters of visible text (LaTeX commands excluded)`
+    : "";
+  return `${body}
+
+REPLY FORMAT:
+- Only reference bullet ids listed above, and copy "original" exactly from the bullet's text
+- Keep valid LaTeX in "updated": reuse the original markup and escape special characters (\\&, \\%, \\$, \\#, \\_)${lengthRule}
+
+Return ONLY a JSON object of this shape, with no explanations and no markdown formatting:
+{"rewrites": [{"id": "<bullet id>", "original": "<exact original text>", "updated": "<rewritten LaTeX>", "rationale": "<why this helps for the job>"}]}`;
+}
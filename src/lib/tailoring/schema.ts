@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Shape the model must return for a tailoring run. Every rewrite targets one
+// bullet of the parsed resume by id and quotes the text it replaces, which
+// lets us apply results deterministically and reject anything invented.
+
+export const BulletRewriteSchema = z.object({
+  id: z.string().min(1),
+  original: z.string(),
+  updated: z.string().min(1),
+  rationale: z.string().default(""),
+});
+
+export const TailorResponseSchema = z.object({
+  rewrites: z.array(BulletRewriteSchema),
+});
+
+export type BulletRewrite = z.infer<typeof BulletRewriteSchema>;
+export type TailorResponse = z.infer<typeof TailorResponseSchema>;
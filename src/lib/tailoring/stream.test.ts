@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parsePartialRewrites } from "./stream";
+
+const REPLY = JSON.stringify({
+  rewrites: [
+    { id: "s1.b1", original: "Old one", updated: "New \"one\" with \\textbf{bold}", rationale: "Keyword" },
+    { id: "s1.b2", original: "Old two", updated: "New two, é", rationale: "Metric" },
+  ],
+});
+
+describe("parsePartialRewrites", () => {
+  it("reads every rewrite of a complete reply", () => {
+    const result = parsePartialRewrites(REPLY);
+    expect(result.complete.map((r) => r.updated)).toEqual(['New "one" with \\textbf{bold}', "New two, é"]);
+    expect(result.pending).toBeUndefined();
+  });
+
+  it("returns nothing before the rewrites array starts", () => {
+    expect(parsePartialRewrites('{"rewr')).toEqual({ complete: [] });
+  });
+
+  it("reads the rewrite being streamed when cut off in the middle of a string", () => {
+    const cut = REPLY.slice(0, REPLY.indexOf("New two") + "New t".length);
+    const result = parsePartialRewrites(cut);
+    expect(result.complete.map((r) => r.id)).toEqual(["s1.b1"]);
+    expect(result.pending).toEqual({ id: "s1.b2", updated: "New t" });
+  });
+
+  it("drops an escape sequence cut in half", () => {
+    const cut = REPLY.slice(0, REPLY.indexOf("\\\\textbf") + 1);
+    expect(parsePartialRewrites(cut).pending).toEqual({ id: "s1.b1", updated: 'New "one" with ' });
+    const unicode = '{"rewrites": [{"id": "s1.b1", "original": "x", "updated": "caf\\u00';
+    expect(parsePartialRewrites(unicode).pending).toEqual({ id: "s1.b1", updated: "caf" });
+  });
+
+  it("has no pending rewrite before its id and text arrive", () => {
+    const cut = REPLY.slice(0, REPLY.indexOf('"original":"Old two"'));
+    expect(parsePartialRewrites(cut).pending).toBeUndefined();
+  });
+
+  it("skips elements that do not match the schema", () => {
+    const result = parsePartialRewrites('{"rewrites": [{"id": "s1.b1"}, {"id": "s1.b2", "original": "a", "updated": "b", "rationale": ""}]}');
+    expect(result.complete.map((r) => r.id)).toEqual(["s1.b2"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { BulletRewriteSchema, type BulletRewrite } from "./schema";
+
+export interface PartialRewrites {
+  // Rewrites whose JSON object is complete and valid.
+  complete: BulletRewrite[];
+  // The rewrite currently being streamed, with whatever part of "updated" has
+  // arrived so far.
+  pending?: { id: string; updated: string };
+}
+
+// Decodes a JSON string body that may be cut off mid-way, dropping a trailing
+// incomplete escape sequence.
+function decodePartialString(body: string) {
+  const safe = body.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+  try {
+    return JSON.parse(`"${safe}"`) as string;
+  } catch (e) {
+    return null;
+  }
+}
+
+function readPending(fragment: string): PartialRewrites["pending"] {
+  const id = /"id"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(fragment);
+  const updated = /"updated"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(fragment);
+  if (!id || !updated) return undefined;
+  const text = decodePartialString(updated[1]);
+  return text === null ? undefined : { id: JSON.parse(`"${id[1]}"`), updated: text };
+}
+
+// Incrementally reads `{"rewrites": [...]}` from a reply that is still being
+// streamed. Complete array elements are parsed and validated one by one, so
+// they can be applied before the reply finishes.
+export function parsePartialRewrites(text: string): PartialRewrites {
+  const result: PartialRewrites = { complete: [] };
+  const key = /"rewrites"\s*:\s*\[/.exec(text);
+  if (!key) return result;
+
+  let depth = 0;
+  let inString = false;
+  let objectStart = -1;
+  for (let i = key.index + key[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      if (depth === 0) objectStart = i;
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0 && objectStart !== -1) {
+        try {
+          const parsed = BulletRewriteSchema.safeParse(JSON.parse(text.slice(objectStart, i + 1)));
+          if (parsed.success) result.complete.push(parsed.data);
+        } catch (e) {
+          // malformed element; the final parse reports it
+        }
+        objectStart = -1;
+      }
+    } else if (ch === "]" && depth === 0) {
+      return result;
+    }
+  }
+  if (depth > 0 && objectStart !== -1) result.pending = readPending(text.slice(objectStart));
+  return result;
+}
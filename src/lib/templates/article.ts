@@ -0,0 +1,55 @@
+import { contactItems } from "./shared";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection, ResumeTemplate } from "./types";
+
+// Plain article class with no extra packages beyond hyperref, so it compiles
+// anywhere and previews cleanly with latex.js.
+
+const PREAMBLE = `\\documentclass[11pt]{article}
+\\usepackage[hidelinks]{hyperref}
+\\setlength{\\parindent}{0pt}
+\\pagestyle{empty}`;
+
+function renderItems(bullets: string[]) {
+  return ["\\begin{itemize}", ...bullets.map((bullet) => `  \\item ${bullet}`), "\\end{itemize}"].join("\n");
+}
+
+// Always "\textbf{title} \hfill date", so the parser can tell an entry from
+// a bold label such as "\textbf{Languages}: Java".
+function renderEntry(entry: ResumeDataEntry) {
+  const first = `\\textbf{${entry.title}} \\hfill ${entry.date}`.trimEnd();
+  const second = entry.organization || entry.location ? `\\textit{${entry.organization}} \\hfill ${entry.location}`.trimEnd() : "";
+  const heading = [first, second].filter(Boolean).join(" \\\\\n");
+  return entry.bullets.length ? `${heading}\n${renderItems(entry.bullets)}` : heading;
+}
+
+function renderSection(section: ResumeDataSection) {
+  const parts = [`\\section*{${section.title}}`];
+  if (section.text) parts.push(section.text);
+  parts.push(...section.entries.map(renderEntry));
+  if (section.bullets.length) parts.push(renderItems(section.bullets));
+  return parts.join("\n\n");
+}
+
+function render(data: ResumeData) {
+  return `${PREAMBLE}
+
+\\begin{document}
+
+\\begin{center}
+{\\LARGE \\textbf{${data.contact.name}}} \\\\
+${contactItems(data.contact).join(" $|$ ")}
+\\end{center}
+
+${data.sections.map(renderSection).join("\n\n")}
+
+\\end{document}
+`;
+}
+
+export const articleTemplate: ResumeTemplate = {
+  id: "article",
+  name: "Plain Article",
+  description: "Standard LaTeX article with no extra packages; compiles anywhere and previews in the browser.",
+  thumbnail: { accent: "#334155", header: "center", sections: "plain" },
+  render,
+};
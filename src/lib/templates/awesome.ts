@@ -0,0 +1,77 @@
+import { contactItems, indent } from "./shared";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection, ResumeTemplate } from "./types";
+
+// A self-contained look-alike of Awesome CV: red accent, large centred name
+// and sans-serif text. Awesome CV itself is not on CTAN, so the layout is
+// rebuilt on the article class with its command names (\cvsection, the
+// five-argument \cventry, \cvitems) so resumes keep parsing the same way.
+
+const PREAMBLE = `\\documentclass[11pt,a4paper]{article}
+\\usepackage[left=1.4cm,right=1.4cm,top=1.2cm,bottom=1.2cm]{geometry}
+\\usepackage{xcolor}
+\\usepackage{enumitem}
+\\usepackage[hidelinks]{hyperref}
+
+\\definecolor{awesome}{HTML}{DC3522}
+\\definecolor{darktext}{HTML}{414141}
+\\definecolor{graytext}{HTML}{5D5D5D}
+\\renewcommand{\\familydefault}{\\sfdefault}
+\\setlength{\\parindent}{0pt}
+\\pagestyle{empty}
+
+\\newcommand{\\cvsection}[1]{%
+  \\vspace{8pt}{\\Large\\bfseries\\color{awesome}#1}\\hspace{4pt}{\\color{graytext}\\hrulefill}\\par\\vspace{4pt}}
+% {position}{organization}{location}{date}{description}
+\\newcommand{\\cventry}[5]{%
+  \\begin{tabular*}{\\linewidth}{@{}l@{\\extracolsep{\\fill}}r@{}}
+    \\textbf{\\color{darktext}#2} & {\\small\\color{awesome}#3} \\\\
+    {\\small\\scshape\\color{graytext}#1} & {\\small\\itshape\\color{graytext}#4} \\\\
+  \\end{tabular*}#5\\par\\vspace{4pt}}
+\\newcommand{\\cvitems}[1]{%
+  \\begin{itemize}[leftmargin=2ex,nosep,label={\\color{awesome}\\textbullet}]\\small\\color{graytext}#1\\end{itemize}}`;
+
+function renderItems(bullets: string[]) {
+  return ["\\cvitems{", ...bullets.map((bullet) => `  \\item ${bullet}`), "}"].join("\n");
+}
+
+function renderEntry(entry: ResumeDataEntry) {
+  const description = entry.bullets.length ? `\n${indent(renderItems(entry.bullets), 2)}\n` : "";
+  return `\\cventry{${entry.title}}{${entry.organization}}{${entry.location}}{${entry.date}}{${description}}`;
+}
+
+function renderSection(section: ResumeDataSection) {
+  const parts = [`\\cvsection{${section.title}}`];
+  if (section.text) parts.push(`{\\small\\color{graytext}${section.text}}\\par`);
+  parts.push(...section.entries.map(renderEntry));
+  if (section.bullets.length) parts.push(renderItems(section.bullets));
+  return parts.join("\n");
+}
+
+function render(data: ResumeData) {
+  const words = data.contact.name.trim().split(/\s+/);
+  const name = words.length > 1 ? `${words.slice(0, -1).join(" ")} \\textbf{${words[words.length - 1]}}` : `\\textbf{${data.contact.name}}`;
+  const header = [
+    "\\begin{center}",
+    `  {\\color{darktext}{\\Huge ${name}}} \\\\[6pt]`,
+    `  {\\small\\color{awesome}${contactItems(data.contact).join(" \\quad{\\color{graytext}$|$}\\quad ")}}`,
+    "\\end{center}",
+  ].join("\n");
+  return `${PREAMBLE}
+
+\\begin{document}
+
+${header}
+
+${data.sections.map(renderSection).join("\n\n")}
+
+\\end{document}
+`;
+}
+
+export const awesomeTemplate: ResumeTemplate = {
+  id: "awesome",
+  name: "Awesome CV style",
+  description: "Bold red accents and a large centred name, after Awesome CV; built on the article class so it needs no extra files.",
+  thumbnail: { accent: "#dc3522", header: "center", sections: "rule" },
+  render,
+};
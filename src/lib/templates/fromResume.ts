@@ -0,0 +1,118 @@
+import { escapeLatex, type Resume, type ResumeBullet, type ResumeEntry, type ResumeSection } from "../resume";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection } from "./types";
+
+// Turns a parsed LaTeX resume back into template-independent ResumeData, so
+// its content can be rendered with another template. Entry fields and
+// bullets are already LaTeX and carry over as they are; the contact details
+// are parsed to plain text and are escaped again. Layout that belongs to the
+// old template (its macros, spacing and colours) is left behind.
+
+export interface ConvertedResume {
+  data: ResumeData;
+  warnings: string[];
+}
+
+// Drops braces that don't pair up, which stripping list markup can leave.
+function dropUnbalancedBraces(text: string) {
+  const drop = new Set<number>();
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === "{") open.push(i);
+    else if (text[i] === "}" && open.pop() === undefined) drop.add(i);
+  }
+  open.forEach((i) => drop.add(i));
+  return drop.size ? text.split("").filter((_, i) => !drop.has(i)).join("") : text;
+}
+
+// A group wrapping the whole text, like the {...} after \small.
+function unwrapGroups(text: string) {
+  let result = text.trim();
+  while (result.startsWith("{") && result.endsWith("}")) {
+    let depth = 0;
+    let closesAtEnd = true;
+    for (let i = 0; i < result.length; i++) {
+      if (result[i] === "\\") i++;
+      else if (result[i] === "{") depth++;
+      else if (result[i] === "}" && --depth === 0 && i < result.length - 1) {
+        closesAtEnd = false;
+        break;
+      }
+    }
+    if (!closesAtEnd) break;
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+// Free-text sections (summaries, Jake's skills block) come with the old
+// template's list markup around them; keep the lines and lose the wrapping.
+function paragraphText(text: string) {
+  const stripped = text
+    .replace(/\\begin\s*\{(itemize|enumerate|description)\}(\[[^\]]*\])?/g, "")
+    .replace(/\\end\s*\{(itemize|enumerate|description)\}/g, "")
+    .replace(/\\(item|small|footnotesize|scriptsize|normalsize|par)\b\s*/g, "")
+    .replace(/\\([vh]space\*?|color)\{[^{}]*\}/g, "");
+  return unwrapGroups(stripped)
+    .split(/\\\\(?:\[[^\]]*\])?/)
+    .map((line) => dropUnbalancedBraces(unwrapGroups(line)).trim())
+    .filter(Boolean)
+    .join(" \\\\\n");
+}
+
+function bulletTexts(bullets: ResumeBullet[]) {
+  return bullets.map((bullet) => unwrapGroups(bullet.text)).filter(Boolean);
+}
+
+function convertEntry(entry: ResumeEntry): ResumeDataEntry {
+  const bullets = bulletTexts(entry.bullets);
+  // moderncv and Awesome CV entries can carry a sentence of their own.
+  if (entry.description.trim()) bullets.unshift(entry.description.trim());
+  return { title: entry.title, organization: entry.organization, location: entry.location, date: entry.date, bullets };
+}
+
+function convertSection(section: ResumeSection): ResumeDataSection {
+  const result: ResumeDataSection = { title: section.title.trim(), text: "", entries: [], bullets: [] };
+  for (const entry of section.entries) {
+    // \cvitem{Languages}{Java, Python} is a labelled line, not a job.
+    if (entry.kind === "cvitem") {
+      const label = entry.title.trim();
+      const value = entry.description.trim();
+      if (label || value) result.bullets.push(label && value ? `\\textbf{${label}}: ${value}` : label || value);
+      result.bullets.push(...bulletTexts(entry.bullets));
+    } else {
+      result.entries.push(convertEntry(entry));
+    }
+  }
+  for (const bullet of section.bullets) {
+    if (bullet.kind === "paragraph") {
+      const text = paragraphText(bullet.text);
+      if (text) result.text = result.text ? `${result.text} \\\\\n${text}` : text;
+    } else {
+      result.bullets.push(...bulletTexts([bullet]));
+    }
+  }
+  return result;
+}
+
+export function resumeToData(resume: Resume): ConvertedResume {
+  const { contact } = resume;
+  const warnings: string[] = [];
+  const data: ResumeData = {
+    contact: {
+      name: escapeLatex(contact.name),
+      email: escapeLatex(contact.email),
+      phone: escapeLatex(contact.phone),
+      location: escapeLatex(contact.location),
+      // Templates add the scheme to the link target themselves.
+      links: contact.links.filter((link) => !/^(mailto|tel):/i.test(link)).map((link) => escapeLatex(link.replace(/^https?:\/\//i, "").replace(/\/$/, ""))),
+    },
+    sections: resume.sections.map(convertSection),
+  };
+  if (!contact.name) warnings.push("No name was found in the resume header.");
+  if (data.sections.length === 0) warnings.push("No sections were recognised, so only the contact details were carried over.");
+  for (const section of data.sections) {
+    if (!section.text && section.entries.length === 0 && section.bullets.length === 0) warnings.push(`Nothing was recognised in the "${section.title}" section.`);
+  }
+  return { data, warnings };
+}
@@ -0,0 +1,68 @@
+// Built-in resume templates. Each renders the same ResumeData, so content can
+// be moved from one template to another.
+
+import { parseResume, toPlainText } from "../resume";
+import { articleTemplate } from "./article";
+import { awesomeTemplate } from "./awesome";
+import { resumeToData, type ConvertedResume } from "./fromResume";
+import { jakeTemplate } from "./jake";
+import { moderncvTemplate } from "./moderncv";
+import type { ResumeData, ResumeTemplate, TemplateId } from "./types";
+
+export type { ResumeData, ResumeDataContact, ResumeDataEntry, ResumeDataSection, ResumeTemplate, TemplateId, TemplateThumbnail } from "./types";
+export type { ConvertedResume } from "./fromResume";
+export { resumeToData } from "./fromResume";
+export { SAMPLE_RESUME } from "./sample";
+
+export const RESUME_TEMPLATES: ResumeTemplate[] = [jakeTemplate, moderncvTemplate, awesomeTemplate, articleTemplate];
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = "jake";
+
+export function findTemplate(id: TemplateId) {
+  return RESUME_TEMPLATES.find((template) => template.id === id) || jakeTemplate;
+}
+
+export function renderResume(data: ResumeData, templateId: TemplateId = DEFAULT_TEMPLATE_ID) {
+  return findTemplate(templateId).render(data);
+}
+
+function words(latex: string) {
+  // Keep adjacent arguments ("{Role}{Company}") apart; environment names and
+  // options are layout, not content.
+  const separated = latex.replace(/\\(begin|end)\s*\{[^{}]*\}(\[[^\]]*\])?/g, " ").replace(/\}\s*\{/g, "} {");
+  return new Set(toPlainText(separated).toLowerCase().match(/[a-z][a-z'-]{2,}/g) || []);
+}
+
+function body(source: string) {
+  const begin = source.search(/\\begin\{document\}/);
+  const end = source.search(/\\end\{document\}/);
+  return source.slice(begin === -1 ? 0 : begin, end === -1 ? source.length : end);
+}
+
+// What the new resume lost, found by parsing it back: contact details and
+// section content that did not survive, and words of the original's text
+// that no longer appear anywhere in it.
+function findLosses(source: string, expected: ResumeData, tex: string) {
+  const warnings: string[] = [];
+  const actual = resumeToData(parseResume(tex)).data;
+  for (const field of ["name", "email", "phone", "location"] as const) {
+    if (expected.contact[field] && expected.contact[field] !== actual.contact[field]) warnings.push(`The ${field} "${toPlainText(expected.contact[field])}" may not carry over.`);
+  }
+  const lostLinks = expected.contact.links.filter((link) => !actual.contact.links.includes(link));
+  if (lostLinks.length) warnings.push(`These links may not carry over: ${lostLinks.map(toPlainText).join(", ")}.`);
+  expected.sections.forEach((section, index) => {
+    if (JSON.stringify(section) !== JSON.stringify(actual.sections[index])) warnings.push(`The "${toPlainText(section.title)}" section may not come out exactly as it was.`);
+  });
+  const output = words(tex);
+  const missing = [...words(body(source))].filter((word) => !output.has(word));
+  if (missing.length) warnings.push(`${missing.length === 1 ? "A word" : `${missing.length} words`} of the original ${missing.length === 1 ? "is" : "are"} not in the new resume: ${missing.slice(0, 8).join(", ")}${missing.length > 8 ? ", …" : ""}.`);
+  return warnings;
+}
+
+// Re-renders an existing LaTeX resume's content with another template. The
+// result is parsed back and compared, so anything lost shows up in warnings.
+export function switchTemplate(source: string, templateId: TemplateId): ConvertedResume & { tex: string } {
+  const converted = resumeToData(parseResume(source));
+  const tex = renderResume(converted.data, templateId);
+  return { ...converted, tex, warnings: [...converted.warnings, ...findLosses(source, converted.data, tex)] };
+}
@@ -0,0 +1,107 @@
+import { contactItems, indent } from "./shared";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection, ResumeTemplate } from "./types";
+
+// Jake Gutierrez's one-column resume (MIT licence), the template the parser
+// and tailoring are most tuned for.
+
+const PREAMBLE = `\\documentclass[letterpaper,11pt]{article}
+
+\\usepackage{latexsym}
+\\usepackage[empty]{fullpage}
+\\usepackage{titlesec}
+\\usepackage{marvosym}
+\\usepackage[usenames,dvipsnames]{color}
+\\usepackage{verbatim}
+\\usepackage{enumitem}
+\\usepackage[hidelinks]{hyperref}
+\\usepackage{fancyhdr}
+\\usepackage[english]{babel}
+\\usepackage{tabularx}
+
+\\pagestyle{fancy}
+\\fancyhf{}
+\\fancyfoot{}
+\\renewcommand{\\headrulewidth}{0pt}
+\\renewcommand{\\footrulewidth}{0pt}
+
+\\addtolength{\\oddsidemargin}{-0.5in}
+\\addtolength{\\evensidemargin}{-0.5in}
+\\addtolength{\\textwidth}{1in}
+\\addtolength{\\topmargin}{-.5in}
+\\addtolength{\\textheight}{1.0in}
+
+\\urlstyle{same}
+\\raggedbottom
+\\raggedright
+\\setlength{\\tabcolsep}{0in}
+
+\\titleformat{\\section}{
+  \\vspace{-4pt}\\scshape\\raggedright\\large
+}{}{0em}{}[\\color{black}\\titlerule \\vspace{-5pt}]
+
+\\newcommand{\\resumeItem}[1]{
+  \\item\\small{
+    {#1 \\vspace{-2pt}}
+  }
+}
+
+\\newcommand{\\resumeSubheading}[4]{
+  \\vspace{-2pt}\\item
+    \\begin{tabular*}{0.97\\textwidth}[t]{l@{\\extracolsep{\\fill}}r}
+      \\textbf{#1} & #2 \\\\
+      \\textit{\\small#3} & \\textit{\\small #4} \\\\
+    \\end{tabular*}\\vspace{-7pt}
+}
+
+\\renewcommand\\labelitemii{$\\vcenter{\\hbox{\\tiny$\\bullet$}}$}
+
+\\newcommand{\\resumeSubHeadingListStart}{\\begin{itemize}[leftmargin=0.15in, label={}]}
+\\newcommand{\\resumeSubHeadingListEnd}{\\end{itemize}}
+\\newcommand{\\resumeItemListStart}{\\begin{itemize}}
+\\newcommand{\\resumeItemListEnd}{\\end{itemize}\\vspace{-5pt}}`;
+
+function renderItems(bullets: string[]) {
+  return ["\\resumeItemListStart", ...bullets.map((bullet) => `  \\resumeItem{${bullet}}`), "\\resumeItemListEnd"].join("\n");
+}
+
+function renderEntry(entry: ResumeDataEntry) {
+  const heading = `\\resumeSubheading\n  {${entry.title}}{${entry.date}}\n  {${entry.organization}}{${entry.location}}`;
+  return entry.bullets.length ? `${heading}\n${indent(renderItems(entry.bullets), 2)}` : heading;
+}
+
+function renderSection(section: ResumeDataSection) {
+  const parts = [`\\section{${section.title}}`];
+  if (section.text) parts.push(section.text);
+  if (section.entries.length) {
+    parts.push(["\\resumeSubHeadingListStart", ...section.entries.map((entry) => indent(renderEntry(entry), 2)), "\\resumeSubHeadingListEnd"].join("\n"));
+  }
+  if (section.bullets.length) parts.push(renderItems(section.bullets));
+  return parts.join("\n");
+}
+
+function render(data: ResumeData) {
+  const header = [
+    "\\begin{center}",
+    `  \\textbf{\\Huge \\scshape ${data.contact.name}} \\\\ \\vspace{1pt}`,
+    `  \\small ${contactItems(data.contact).join(" $|$ ")}`,
+    "\\end{center}",
+  ].join("\n");
+  return `${PREAMBLE}
+
+\\begin{document}
+
+${header}
+
+${data.sections.map(renderSection).join("\n\n")}
+
+\\end{document}
+`;
+}
+
+export const jakeTemplate: ResumeTemplate = {
+  id: "jake",
+  name: "Jake's Resume",
+  description: "Compact one-column layout with ruled section titles; the most common ATS-friendly LaTeX resume.",
+  thumbnail: { accent: "#000000", header: "center", sections: "rule" },
+  render,
+};
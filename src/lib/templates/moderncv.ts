@@ -0,0 +1,65 @@
+import { hrefLink, indent } from "./shared";
+import type { ResumeData, ResumeDataEntry, ResumeDataSection, ResumeTemplate } from "./types";
+
+// The moderncv class in its "classic" style: name and contact details in the
+// header, dates in a left-hand column. The class ships with TeX Live; the
+// browser preview can't render it, so use the PDF preview.
+
+function splitName(name: string) {
+  const words = name.trim().split(/\s+/);
+  return words.length > 1 ? [words.slice(0, -1).join(" "), words[words.length - 1]] : [name.trim(), ""];
+}
+
+function renderItems(bullets: string[]) {
+  return ["\\begin{itemize}", ...bullets.map((bullet) => `  \\item ${bullet}`), "\\end{itemize}"].join("\n");
+}
+
+// \cventry{dates}{title}{employer}{city}{grade}{description}
+function renderEntry(entry: ResumeDataEntry) {
+  const description = entry.bullets.length ? `\n${indent(renderItems(entry.bullets), 2)}\n` : "";
+  return `\\cventry{${entry.date}}{${entry.title}}{${entry.organization}}{${entry.location}}{}{${description}}`;
+}
+
+function renderSection(section: ResumeDataSection) {
+  const parts = [`\\section{${section.title}}`];
+  if (section.text) parts.push(section.text);
+  parts.push(...section.entries.map(renderEntry));
+  if (section.bullets.length) parts.push(renderItems(section.bullets));
+  return parts.join("\n");
+}
+
+function render(data: ResumeData) {
+  const { contact } = data;
+  const [first, last] = splitName(contact.name);
+  const details = [
+    `\\name{${first}}{${last}}`,
+    contact.phone ? `\\phone[mobile]{${contact.phone}}` : "",
+    contact.email ? `\\email{${contact.email.replace(/\\_/g, "_")}}` : "",
+    contact.location ? `\\address{${contact.location}}{}{}` : "",
+    contact.links[0] ? `\\homepage{${contact.links[0]}}` : "",
+    contact.links.length > 1 ? `\\extrainfo{${contact.links.slice(1).map(hrefLink).join(" $\\cdot$ ")}}` : "",
+  ].filter(Boolean);
+  return `\\documentclass[11pt,a4paper,sans]{moderncv}
+\\moderncvstyle{classic}
+\\moderncvcolor{blue}
+\\usepackage[scale=0.8]{geometry}
+
+${details.join("\n")}
+
+\\begin{document}
+
+\\makecvtitle
+
+${data.sections.map(renderSection).join("\n\n")}
+
+\\end{document}
+`;
+}
+
+export const moderncvTemplate: ResumeTemplate = {
+  id: "moderncv",
+  name: "moderncv",
+  description: "The moderncv class (classic style): dates in a side column and a coloured header. Preview it as PDF.",
+  thumbnail: { accent: "#3873b3", header: "left", sections: "side" },
+  render,
+};
@@ -0,0 +1,56 @@
+import type { ResumeData } from "./types";
+
+// Placeholder content for starting a resume from a template in the gallery.
+export const SAMPLE_RESUME: ResumeData = {
+  contact: {
+    name: "Alex Morgan",
+    email: "alex.morgan@example.com",
+    phone: "+1 (555) 010-0199",
+    location: "Austin, TX",
+    links: ["linkedin.com/in/alexmorgan", "github.com/alexmorgan"],
+  },
+  sections: [
+    {
+      title: "Summary",
+      text: "Software engineer with five years of experience building web applications and the services behind them.",
+      entries: [],
+      bullets: [],
+    },
+    {
+      title: "Experience",
+      text: "",
+      entries: [
+        {
+          title: "Software Engineer",
+          organization: "Example Corp",
+          location: "Austin, TX",
+          date: "Jan 2021 -- Present",
+          bullets: [
+            "Built a React dashboard used by 40 internal teams to track deployments",
+            "Cut API response times by 35\\% by adding caching to the busiest endpoints",
+          ],
+        },
+        {
+          title: "Junior Developer",
+          organization: "Sample Labs",
+          location: "Remote",
+          date: "Jun 2019 -- Dec 2020",
+          bullets: ["Maintained the billing service and its test suite", "Wrote the onboarding guide for new engineers"],
+        },
+      ],
+      bullets: [],
+    },
+    {
+      title: "Education",
+      text: "",
+      entries: [{ title: "B.S. Computer Science", organization: "State University", location: "Austin, TX", date: "2015 -- 2019", bullets: [] }],
+      bullets: [],
+    },
+    {
+      title: "Skills",
+      text: "\\textbf{Languages}: TypeScript, Python, SQL \\\\\n\\textbf{Tools}: React, Node.js, PostgreSQL, Docker",
+      entries: [],
+      bullets: [],
+    },
+  ],
+};
@@ -0,0 +1,32 @@
+import { escapeUrl } from "../resume";
+import type { ResumeDataContact } from "./types";
+
+// Links are stored as written on the resume; \href needs a scheme.
+export function linkTarget(link: string) {
+  const target = link.replace(/\\([_%#&])/g, "$1");
+  if (/^[a-z]+:/i.test(target)) return target;
+  return target.includes("@") ? `mailto:${target}` : `https://${target}`;
+}
+
+export function hrefLink(link: string) {
+  const label = link.replace(/^https?:\/\/(www\.)?/i, "").replace(/\/$/, "");
+  return `\\href{${escapeUrl(linkTarget(link))}}{${label}}`;
+}
+
+// Phone, email, location and links, in that order, skipping blanks.
+export function contactItems(contact: ResumeDataContact) {
+  return [
+    contact.phone,
+    contact.email ? `\\href{mailto:${contact.email.replace(/\\_/g, "_")}}{${contact.email}}` : "",
+    contact.location,
+    ...contact.links.map(hrefLink),
+  ].filter(Boolean);
+}
+
+export function indent(text: string, spaces: number) {
+  const pad = " ".repeat(spaces);
+  return text
+    .split("\n")
+    .map((line) => (line ? pad + line : line))
+    .join("\n");
+}
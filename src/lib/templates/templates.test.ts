@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { RESUME_TEMPLATES, SAMPLE_RESUME, renderResume, switchTemplate } from ".";
+
+describe("switchTemplate", () => {
+  for (const template of RESUME_TEMPLATES) {
+    it(`reads ${template.name} output back to the same content`, () => {
+      const { data, warnings } = switchTemplate(renderResume(SAMPLE_RESUME, template.id), template.id);
+      expect(data).toEqual(SAMPLE_RESUME);
+      expect(warnings).toEqual([]);
+    });
+
+    it(`moves content from ${template.name} to every other template`, () => {
+      const source = renderResume(SAMPLE_RESUME, template.id);
+      for (const target of RESUME_TEMPLATES) {
+        const { tex, warnings } = switchTemplate(source, target.id);
+        expect(warnings).toEqual([]);
+        expect(switchTemplate(tex, template.id).data).toEqual(SAMPLE_RESUME);
+      }
+    });
+  }
+
+  it("warns about content the new template cannot show", () => {
+    const source = renderResume(SAMPLE_RESUME, "jake").replace("Austin, TX $|$", "Austin, TX $|$ Open to relocation $|$");
+    const { warnings } = switchTemplate(source, "article");
+    expect(warnings.join(" ")).toMatch(/relocation/);
+  });
+});
@@ -0,0 +1,51 @@
+// Template-independent resume content, rendered into LaTeX by a template.
+// Text fields are LaTeX fragments (special characters already escaped), so
+// markup such as \textbf survives a move between templates.
+
+export interface ResumeDataContact {
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  links: string[];
+}
+
+export interface ResumeDataEntry {
+  title: string;
+  organization: string;
+  location: string;
+  date: string;
+  bullets: string[];
+}
+
+export interface ResumeDataSection {
+  title: string;
+  // Free text such as a summary, shown before any entries or bullets.
+  text: string;
+  entries: ResumeDataEntry[];
+  bullets: string[];
+}
+
+export interface ResumeData {
+  contact: ResumeDataContact;
+  sections: ResumeDataSection[];
+}
+
+export type TemplateId = "jake" | "moderncv" | "awesome" | "article";
+
+// Enough about a template's look to draw a small page for the gallery.
+export interface TemplateThumbnail {
+  accent: string;
+  header: "center" | "left";
+  // How section titles are set off: a rule under them, nothing, or a side
+  // column (moderncv).
+  sections: "rule" | "side" | "plain";
+}
+
+export interface ResumeTemplate {
+  id: TemplateId;
+  name: string;
+  description: string;
+  thumbnail: TemplateThumbnail;
+  render: (data: ResumeData) => string;
+}
@@ -0,0 +1,161 @@
+// Client for a WebAssembly TeX engine running in a Web Worker. The worker
+// protocol is the one used by SwiftLaTeX's pdfTeX engine (swiftlatexpdftex.js):
+// the worker posts {result: "ok"} once loaded, accepts mkdir/writefile/
+// setmainfile/compilelatex commands and answers compiles with {cmd: "compile", pdf, log}.
+//
+// The engine files are not bundled; serve them from `public/swiftlatex/` or
+// point VITE_TEX_ENGINE_URL at another copy (see README).
+
+const DEFAULT_ENGINE_URL = "/swiftlatex/swiftlatexpdftex.js";
+const LOAD_TIMEOUT_MS = 60_000;
+const COMPILE_TIMEOUT_MS = 120_000;
+const MAIN_FILE = "main.tex";
+
+export class TexCompileError extends Error {
+  log: string;
+
+  constructor(message: string, log = "") {
+    super(message);
+    this.name = "TexCompileError";
+    this.log = log;
+  }
+}
+
+// A file the main source needs, such as a .cls or an image from a project.
+export interface CompileFile {
+  path: string;
+  data: string | Uint8Array;
+}
+
+export interface CompileOutput {
+  pdf: Blob;
+  log: string;
+}
+
+export function getTexEngineUrl() {
+  return (import.meta as any).env?.VITE_TEX_ENGINE_URL || DEFAULT_ENGINE_URL;
+}
+
+// Without the engine the dev server answers with index.html, which the worker
+// only reports as a bare error event, so check for it up front.
+async function findMissingEngine(url: string) {
+  try {
+    const res = await fetch(url, { method: "HEAD" });
+    if (res.ok && !/text\/html/i.test(res.headers.get("content-type") || "")) return null;
+  } catch (err) {
+    // Unreachable for some other reason; the worker reports that.
+    return null;
+  }
+  return `The TeX engine is not installed: nothing is served at ${url}. Run "pnpm fetch-tex-engine <folder or URL>" with a SwiftLaTeX release to copy swiftlatexpdftex.js and swiftlatexpdftex.wasm into public/swiftlatex/, or set VITE_TEX_ENGINE_URL to a copy of the engine.`;
+}
+
+class TexEngine {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  // Compiles share the engine's in-memory file system, so run them one at a time.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  load(): Promise<void> {
+    if (this.ready) return this.ready;
+    const url = getTexEngineUrl();
+    this.ready = findMissingEngine(url).then((missing) => {
+      if (missing) {
+        this.ready = null;
+        throw new TexCompileError(missing);
+      }
+      return this.start(url);
+    });
+    return this.ready;
+  }
+
+  private start(url: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(url);
+      } catch (err: any) {
+        reject(new TexCompileError(`Could not start the TeX engine from ${url}: ${err?.message || String(err)}`));
+        return;
+      }
+      const timer = setTimeout(() => fail(`Timed out loading the TeX engine from ${url}`), LOAD_TIMEOUT_MS);
+      const fail = (message: string) => {
+        clearTimeout(timer);
+        worker.terminate();
+        this.worker = null;
+        this.ready = null;
+        reject(new TexCompileError(message));
+      };
+      worker.onerror = () => fail(`Could not load the TeX engine from ${url}. Is it installed? See the README for setup.`);
+      worker.onmessage = (ev: MessageEvent) => {
+        if (ev.data?.result !== "ok") return fail("The TeX engine failed to initialise");
+        clearTimeout(timer);
+        worker.onerror = null;
+        const texliveUrl = (import.meta as any).env?.VITE_TEXLIVE_URL;
+        if (texliveUrl) worker.postMessage({ cmd: "settexliveurl", url: texliveUrl });
+        this.worker = worker;
+        resolve();
+      };
+    });
+  }
+
+  compile(source: string, files: CompileFile[]): Promise<CompileOutput> {
+    const run = this.queue.then(() => this.compileNow(source, files));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async compileNow(source: string, files: CompileFile[]): Promise<CompileOutput> {
+    await this.load();
+    const worker = this.worker!;
+    return new Promise<CompileOutput>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // A stuck engine can't be recovered; start fresh next time.
+        this.reset();
+        reject(new TexCompileError("TeX compilation timed out"));
+      }, COMPILE_TIMEOUT_MS);
+      // A crash (e.g. out of memory) sends no reply; fail now instead of at the timeout.
+      worker.onerror = (ev: ErrorEvent) => {
+        clearTimeout(timer);
+        this.reset();
+        reject(new TexCompileError(`The TeX engine crashed${ev.message ? `: ${ev.message}` : ""}`));
+      };
+      worker.onmessage = (ev: MessageEvent) => {
+        const data = ev.data || {};
+        if (data.cmd !== "compile") return;
+        clearTimeout(timer);
+        const log = String(data.log || "");
+        if (data.result === "ok" && data.pdf) {
+          resolve({ pdf: new Blob([data.pdf], { type: "application/pdf" }), log });
+        } else {
+          reject(new TexCompileError(`LaTeX compilation failed${data.status !== undefined ? ` (status ${data.status})` : ""}`, log));
+        }
+      };
+      const dirs = new Set<string>();
+      for (const file of files) {
+        if (file.path === MAIN_FILE) continue;
+        const parts = file.path.split("/").slice(0, -1);
+        parts.forEach((_, i) => dirs.add(parts.slice(0, i + 1).join("/")));
+      }
+      for (const dir of dirs) worker.postMessage({ cmd: "mkdir", url: dir });
+      for (const file of files) {
+        if (file.path !== MAIN_FILE) worker.postMessage({ cmd: "writefile", url: file.path, src: file.data });
+      }
+      worker.postMessage({ cmd: "writefile", url: MAIN_FILE, src: source });
+      worker.postMessage({ cmd: "setmainfile", url: MAIN_FILE });
+      worker.postMessage({ cmd: "compilelatex" });
+    });
+  }
+
+  reset() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+  }
+}
+
+let engine: TexEngine | null = null;
+
+export function compileLatexToPdf(source: string, files: CompileFile[] = []): Promise<CompileOutput> {
+  if (!engine) engine = new TexEngine();
+  return engine.compile(source, files);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { MAX_UPLOAD_BYTES, checkLatexText, decodeText, sniffUpload } from "./upload";
+
+const TEX = "\\documentclass{article}\n\\begin{document}\nCafé résumé\n\\end{document}\n";
+
+function bytes(...parts: (string | number[])[]) {
+  const chunks = parts.map((part) => (typeof part === "string" ? new TextEncoder().encode(part) : new Uint8Array(part)));
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function utf16le(text: string) {
+  const out = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    out[i * 2] = text.charCodeAt(i) & 0xff;
+    out[i * 2 + 1] = text.charCodeAt(i) >> 8;
+  }
+  return out;
+}
+
+describe("sniffUpload", () => {
+  it("accepts text by extension and binary formats by signature", async () => {
+    expect(await sniffUpload(new File([TEX], "resume.tex"))).toBe("tex");
+    expect(await sniffUpload(new File([bytes("%PDF-1.7\n")], "resume.pdf"))).toBe("pdf");
+    expect(await sniffUpload(new File([bytes([0x50, 0x4b, 0x03, 0x04, 0])], "resume.docx"))).toBe("docx");
+  });
+
+  it("refuses a .tex file that is really a PDF or a zip", async () => {
+    await expect(sniffUpload(new File([bytes("%PDF-1.7\n")], "resume.tex"))).rejects.toThrow("resume.tex is not a text file (it is a PDF)");
+    await expect(sniffUpload(new File([bytes([0x50, 0x4b, 0x03, 0x04, 0])], "resume.tex"))).rejects.toThrow("(it is a Word or zip file)");
+  });
+
+  it("refuses mislabelled binary formats", async () => {
+    await expect(sniffUpload(new File([TEX], "resume.pdf"))).rejects.toThrow("is not a valid PDF");
+    await expect(sniffUpload(new File([bytes([0xd0, 0xcf, 0x11, 0xe0])], "resume.docx"))).rejects.toThrow("old Word (.doc) file");
+  });
+
+  it("accepts UTF-16 .tex files despite their NUL bytes", async () => {
+    expect(await sniffUpload(new File([bytes([0xff, 0xfe]), utf16le(TEX)], "resume.tex"))).toBe("tex");
+  });
+
+  it("goes by content when there is no known extension", async () => {
+    expect(await sniffUpload(new File([TEX], "resume"))).toBe("tex");
+    await expect(sniffUpload(new File(["hello"], "notes.rtf"))).rejects.toThrow("is not a supported resume");
+  });
+
+  it("refuses empty files and files over the limit", async () => {
+    await expect(sniffUpload(new File([], "resume.tex"))).rejects.toThrow("resume.tex is empty");
+    await expect(sniffUpload(new File([new Uint8Array(MAX_UPLOAD_BYTES + 1)], "resume.tex"))).rejects.toThrow("resume.tex is 10.0MB; the limit is 10.0MB");
+  });
+});
+
+describe("decodeText", () => {
+  it("reads UTF-8, dropping a byte order mark", () => {
+    expect(decodeText(bytes(TEX).buffer)).toEqual({ text: TEX, encoding: "utf-8", notes: [] });
+    expect(decodeText(bytes([0xef, 0xbb, 0xbf], TEX).buffer).text).toBe(TEX);
+  });
+
+  it("reads UTF-16 with a byte order mark", () => {
+    const decoded = decodeText(bytes([0xff, 0xfe], Array.from(utf16le(TEX))).buffer);
+    expect(decoded).toEqual({ text: TEX, encoding: "utf-16le", notes: ["Converted from UTF-16 to UTF-8."] });
+  });
+
+  it("falls back to Windows-1252 and switches a Latin-1 inputenc to utf8", () => {
+    const latin1 = "\\usepackage[latin1]{inputenc}\nCaf\xe9 Espa\xf1a";
+    const decoded = decodeText(bytes(Array.from(latin1, (ch) => ch.charCodeAt(0))).buffer);
+    expect(decoded.encoding).toBe("windows-1252");
+    expect(decoded.text).toBe("\\usepackage[utf8]{inputenc}\nCafé España");
+    expect(decoded.notes).toHaveLength(2);
+  });
+});
+
+describe("checkLatexText", () => {
+  it("accepts a full document and a body-only fragment", () => {
+    expect(checkLatexText(TEX)).toBeNull();
+    expect(checkLatexText("\\section{Experience}\n\\begin{itemize}\\item Built things\\end{itemize}")).toBeNull();
+  });
+
+  it.each([
+    ["", "The file is empty"],
+    ["{\\rtf1\\ansi Resume}", "Rich Text (RTF)"],
+    ["<!DOCTYPE html><html></html>", "HTML file"],
+    ["\\documentclass{article}\nHello", "no \\begin{document}"],
+    ["\\documentclass{article}\n\\begin{document}\nHello", "may be cut off"],
+    ["Just some plain text", "does not contain any LaTeX commands"],
+  ])("explains what is wrong with %j", (text, message) => {
+    expect(checkLatexText(text)).toContain(message);
+  });
+});
@@ -0,0 +1,114 @@
+// Checks an uploaded resume before anything reads it: size, what the file
+// really is (by its first bytes, not just its name), the text encoding of
+// .tex files and whether the text looks like LaTeX at all.
+
+import { IMPORT_FORMATS, type ImportFormat } from "./importers";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// "zip" is a multi-file LaTeX project; see src/lib/project.
+export type UploadKind = "tex" | "zip" | ImportFormat;
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncoding;
+  // Notes for the user, e.g. that the file was converted to UTF-8.
+  notes: string[];
+}
+
+const SNIFF_BYTES = 8192;
+
+function startsWith(bytes: Uint8Array, signature: number[]) {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]; // PK\3\4
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0]; // legacy .doc
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function extensionKind(name: string): UploadKind | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".tex")) return "tex";
+  if (lower.endsWith(".zip")) return "zip";
+  for (const [format, info] of Object.entries(IMPORT_FORMATS) as [ImportFormat, (typeof IMPORT_FORMATS)[ImportFormat]][]) {
+    if (info.extensions.some((ext) => lower.endsWith(ext))) return format;
+  }
+  return null;
+}
+
+function looksBinary(bytes: Uint8Array) {
+  // UTF-16 text has NUL bytes too, but starts with a byte order mark.
+  if (startsWith(bytes, [0xff, 0xfe]) || startsWith(bytes, [0xfe, 0xff])) return false;
+  return bytes.includes(0);
+}
+
+// What the file actually is. The extension decides between text formats;
+// binary formats must carry their signature.
+export async function sniffUpload(file: File): Promise<UploadKind> {
+  if (file.size === 0) throw new Error(`${file.name} is empty`);
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${file.name} is ${formatMegabytes(file.size)}; the limit is ${formatMegabytes(MAX_UPLOAD_BYTES)}`);
+  }
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const kind = extensionKind(file.name);
+  const isPdf = startsWith(head, PDF_SIGNATURE);
+  const isZip = startsWith(head, ZIP_SIGNATURE);
+
+  if (kind === "pdf" && !isPdf) throw new Error(`${file.name} is not a valid PDF`);
+  if (kind === "zip" && !isZip) throw new Error(`${file.name} is not a valid zip file`);
+  if (kind === "docx" && !isZip) {
+    throw new Error(startsWith(head, OLE_SIGNATURE) ? `${file.name} is an old Word (.doc) file; save it as .docx and try again` : `${file.name} is not a valid Word (.docx) file`);
+  }
+  if ((kind === "tex" || kind === "markdown") && (isPdf || isZip || looksBinary(head))) {
+    throw new Error(`${file.name} is not a text file${isPdf ? " (it is a PDF)" : isZip ? " (it is a Word or zip file)" : ""}`);
+  }
+  if (kind) return kind;
+
+  // No known extension: go by content.
+  if (isPdf) return "pdf";
+  if (isZip) return "zip";
+  if (startsWith(head, OLE_SIGNATURE)) throw new Error(`${file.name} is an old Word (.doc) file; save it as .docx and try again`);
+  if (!looksBinary(head) && /\\(documentclass|begin\{document\}|section)/.test(new TextDecoder().decode(head))) return "tex";
+  throw new Error(`${file.name} is not a supported resume; use a .tex, .zip, .pdf, .docx or .md file`);
+}
+
+const LATIN1_INPUTENC_RE = /\\usepackage\[(latin1|latin9|ansinew|cp1252)\]\{inputenc\}/g;
+
+// UTF-8 when the bytes are valid UTF-8, UTF-16 when there is a byte order
+// mark, and Windows-1252 (a superset of Latin-1) otherwise. The text is
+// kept as UTF-8 from then on, so a Latin-1 inputenc declaration is updated.
+export function decodeText(buffer: ArrayBuffer): DecodedText {
+  const bytes = new Uint8Array(buffer);
+  if (startsWith(bytes, [0xff, 0xfe])) return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "utf-16le", notes: ["Converted from UTF-16 to UTF-8."] };
+  if (startsWith(bytes, [0xfe, 0xff])) return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "utf-16be", notes: ["Converted from UTF-16 to UTF-8."] };
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8", notes: [] };
+  } catch (err) {
+    const decoded = new TextDecoder("windows-1252").decode(bytes);
+    const text = decoded.replace(LATIN1_INPUTENC_RE, "\\usepackage[utf8]{inputenc}");
+    const notes = ["The file is not UTF-8; it was read as Latin-1 (Windows-1252) and converted to UTF-8."];
+    if (text !== decoded) notes.push("Its inputenc package option was changed to utf8 to match.");
+    return { text, encoding: "windows-1252", notes };
+  }
+}
+
+// Why the text is not a usable LaTeX resume, or null when it looks fine.
+// Body-only fragments (no preamble) are allowed; the preview wraps them.
+export function checkLatexText(text: string): string | null {
+  const trimmed = text.trimStart();
+  if (!trimmed) return "The file is empty";
+  if (trimmed.startsWith("{\\rtf")) return "This is a Rich Text (RTF) file, not LaTeX; export it as .docx or .pdf and import that instead";
+  if (/^<(!doctype|html)/i.test(trimmed)) return "This is an HTML file, not LaTeX";
+  const hasClass = /\\documentclass/.test(text);
+  const hasBegin = /\\begin\s*\{document\}/.test(text);
+  if (hasClass && !hasBegin) return "The file has a \\documentclass but no \\begin{document}";
+  if (hasBegin && !/\\end\s*\{document\}/.test(text)) return "The file has \\begin{document} but no \\end{document}; it may be cut off";
+  if (!hasClass && !hasBegin && (text.match(/\\[a-zA-Z]+/g) || []).length < 3) return "The file does not contain any LaTeX commands";
+  return null;
+}